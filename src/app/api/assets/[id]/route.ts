@@ -0,0 +1,37 @@
+import { type NextRequest } from "next/server";
+import { getAsset } from "~/server/assets";
+
+/**
+ * Serves generated images from the asset store. Assets never change once stored (every image gets
+ * a new id), so they can be cached for good.
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!/^[0-9a-f-]{36}$/.test(id)) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const etag = `"${id}"`;
+  if (req.headers.get("if-none-match") === etag) {
+    return new Response(null, { status: 304, headers: { ETag: etag } });
+  }
+
+  try {
+    const asset = await getAsset(id);
+    if (!asset) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    return new Response(new Uint8Array(asset.data), {
+      headers: {
+        "Content-Type": asset.contentType,
+        "Content-Length": String(asset.data.length),
+        "Cache-Control": "public, max-age=31536000, immutable",
+        ETag: etag,
+      },
+    });
+  } catch (error) {
+    console.error(`Error serving asset ${id}:`, error);
+    return new Response("Failed to load asset", { status: 500 });
+  }
+}
@@ -1,7 +1,8 @@
 "use client"; // Required for useState, useEffect
 
 import { useState, useEffect, useRef } from "react";
-import { api } from "~/trpc/react";
+import { skipToken } from "@tanstack/react-query";
+import { api, type RouterInputs } from "~/trpc/react";
 import { signIn, useSession } from "next-auth/react";
 import Link from "next/link";
 import { Layout } from "~/components/Layout";
@@ -9,14 +10,68 @@ import { Container } from "~/components/Container";
 import { Button } from "~/components/Button";
 import { LoadingIndicator } from "~/components/LoadingIndicator";
 import { ErrorMessage } from "~/components/ErrorMessage";
+import { SceneTree } from "~/components/SceneTree";
+import { CharacterHud } from "~/components/CharacterHud";
+import { LevelLayer } from "~/components/LevelLayer";
+import { AnimatedSprite } from "~/components/AnimatedSprite";
+import { TouchControls } from "~/components/TouchControls";
+import { AchievementToasts } from "~/components/AchievementToasts";
+import { cn } from "~/utils";
+import type { CharacterSheet } from "~/utils/character";
+import { pickSpriteAnimation, type SpriteSheet } from "~/utils/sprite";
+import {
+  DEFAULT_DIFFICULTY,
+  DIFFICULTIES,
+  DIFFICULTY_SETTINGS,
+  getDifficultySettings,
+  parseDifficulty,
+  type Difficulty,
+} from "~/utils/difficulty";
+import {
+  DEFAULT_LANGUAGE,
+  LANGUAGES,
+  LANGUAGE_SETTINGS,
+  parseLanguage,
+  type Language,
+} from "~/utils/language";
+import { ACHIEVEMENTS, type AchievementId } from "~/utils/achievements";
 import type { AppRouter } from "~/server/api/root";
 import type { TRPCClientErrorLike } from "@trpc/client";
 
-// Physics constants
-const GRAVITY = 0.5;
-const JUMP_FORCE = -3;
-const MOVEMENT_SPEED = 2; // Reduced from 10 to 5 for slower movement
-const GROUND_LEVEL = 100; // % from the top of the container
+import { GROUND_LEVEL, createFlatLevel, type DeathCause, type LevelLayout } from "~/utils/level";
+import {
+  advanceEngine,
+  createEngineState,
+  createLevelWorld,
+  runGameLoop,
+  type EngineEvent,
+  type EngineState,
+  type PlayerState,
+} from "~/utils/engine";
+import {
+  actionChoice,
+  createInputController,
+  type HeldInput,
+  type InputController,
+  type PressAction,
+} from "~/utils/input";
+import {
+  MAX_REPLAY_UPLOAD,
+  createReplayRecorder,
+  stepsSimulated,
+  type ReplayRecorder,
+} from "~/utils/replay";
+import {
+  DEFAULT_SETTINGS,
+  TEXT_SPEED_CHARACTERS,
+  loadLocalSettings,
+  type GameSettings,
+} from "~/utils/settings";
+
+const SPRITE_HEIGHT = 48; // px
+// Scenes without a layout (from before levels existed, or fallback scenes) play on flat ground
+const FLAT_LEVEL = createFlatLevel();
+const NO_INPUT: HeldInput = { left: false, right: false, jump: false };
 
 // Define types for game state
 type GamePhase = "slots" | "sprite" | "theme" | "playing" | "loading" | "game-over";
@@ -26,18 +81,11 @@ interface Choice {
   text: string;
 }
 
-interface SpritePosition {
-  x: number;
-  y: number;
-  velocityY: number;
-  velocityX: number;
-  isGrounded: boolean;
-}
-
 interface GameState {
   story: string;
   choices: Choice[];
   backgroundDescription?: string;
+  level?: LevelLayout | null;
 }
 
 interface SaveSlot {
@@ -47,8 +95,11 @@ interface SaveSlot {
   gamePhase?: string;
   spriteDescription?: string;
   spriteUrl?: string;
+  spriteSheet?: SpriteSheet | null;
   gameTheme?: string;
   score?: number;
+  difficulty?: Difficulty;
+  language?: string;
   updatedAt?: number;
 }
 
@@ -62,6 +113,8 @@ interface MakeChoiceResponse {
 
 type LoadGameError = TRPCClientErrorLike<AppRouter>;
 
+type StreamSceneRequest = RouterInputs["game"]["streamScene"];
+
 // Add types for the game state
 export default function GamePage() {
   const { data: session, status: sessionStatus } = useSession();
@@ -73,62 +126,150 @@ export default function GamePage() {
   const [currentSlot, setCurrentSlot] = useState<number | null>(null);
   const [spriteDescription, setSpriteDescription] = useState("");
   const [spriteUrl, setSpriteUrl] = useState<string | null>(null);
+  // Frame metadata for the sprite sheet; null for sprites from before sheets existed
+  const [spriteSheet, setSpriteSheet] = useState<SpriteSheet | null>(null);
+  const [spriteFacingLeft, setSpriteFacingLeft] = useState(false);
   const [gameTheme, setGameTheme] = useState("");
+  const [difficulty, setDifficulty] = useState<Difficulty>(DEFAULT_DIFFICULTY);
+  const choiceCount = DIFFICULTY_SETTINGS[difficulty].choiceCount;
+  const [language, setLanguage] = useState<Language>(DEFAULT_LANGUAGE);
+  const { text } = LANGUAGE_SETTINGS[language];
   const [gameState, setGameState] = useState<GameState | null>(null);
+  const level = gameState?.level ?? FLAT_LEVEL;
   const [backgroundImageUrl, setBackgroundImageUrl] = useState<string | null>(null);
   const [gameScore, setGameScore] = useState(0);
   const [gameReport, setGameReport] = useState<string>("");
   const [showReport, setShowReport] = useState<boolean>(false);
   const [stopInput, setStopInput] = useState<string>("");
   
-  // New states for 2D platformer mechanics
-  const [spritePosition, setSpritePosition] = useState<SpritePosition>({
-    x: 10, // Start at left side (percentage)
-    y: GROUND_LEVEL, // Start on ground
-    velocityY: 0,
-    velocityX: 0,
-    isGrounded: true
-  });
+  // New states for 2D platformer mechanics. The engine state is the simulation; spritePosition is
+  // the player as last rendered.
+  const engineRef = useRef<EngineState>(createEngineState());
+  const [spritePosition, setSpritePosition] = useState<PlayerState>(engineRef.current.player);
   const [showChoiceCloud, setShowChoiceCloud] = useState(false);
   const [transitioningToNextScene, setTransitioningToNextScene] = useState(false);
-  const [keysPressed, setKeysPressed] = useState<{[key: string]: boolean}>({});
+  const [paused, setPaused] = useState(false);
+
+  // Keyboard, gamepad and touch input, mapped to the game's actions (see ~/utils/input)
+  const inputRef = useRef<InputController | null>(null);
+  // The game loop and the input controller outlive renders, so they call the latest handlers through these
+  const engineEventsRef = useRef<(events: EngineEvent[]) => void>(() => undefined);
+  const pressActionRef = useRef<(action: PressAction) => void>(() => undefined);
+
+  // Recording of the run for its replay (see ~/utils/replay), uploaded to the save's replay as it goes
+  const replayRecorderRef = useRef<ReplayRecorder>(createReplayRecorder());
+  // Replay of the run that just ended, to watch from the game over screen
+  const [replayId, setReplayId] = useState<number | null>(null);
+
+  // Lives left before a platformer death ends the adventure; the server keeps the real count
+  const [lives, setLives] = useState(DIFFICULTY_SETTINGS[DEFAULT_DIFFICULTY].lives);
+  const [lifeLostMessage, setLifeLostMessage] = useState<string | null>(null);
+  // Seconds since the current level started, which moves the enemies along their patrols
+  const [levelTime, setLevelTime] = useState(0);
 
   // Add a state for the slot to load
   const [slotToLoad, setSlotToLoad] = useState<number>(0);
 
-  // Helper function to ensure we always have exactly 3 choices
-  const ensureThreeChoices = (choices: Choice[]): Choice[] => {
-    // If we have exactly 3 choices, return them
-    if (choices.length === 3) return choices;
-    
-    // If we have more than 3, take the first 3
-    if (choices.length > 3) return choices.slice(0, 3);
-    
-    // If we have fewer than 3, add generic choices to reach 3
-    const result = [...choices];
-    const defaultOptions = [
-      { id: 1, text: "Continue forward" },
-      { id: 2, text: "Explore the area" },
-      { id: 3, text: "Turn back" }
-    ];
-    
-    while (result.length < 3) {
-      // Add a default option that doesn't conflict with existing IDs
-      const usedIds = result.map(c => c.id);
-      const availableOption = defaultOptions.find(opt => !usedIds.includes(opt.id));
-      
-      if (availableOption) {
-        result.push(availableOption);
-      } else {
-        // If all default IDs are taken, create one with a new ID
-        const newId = Math.max(...usedIds) + 1;
-        result.push({ id: newId, text: `Option ${newId}` });
-      }
+  // Streamed scene generation: the active request and the story text received so far
+  const [streamRequest, setStreamRequest] = useState<StreamSceneRequest | null>(null);
+  const [streamingStory, setStreamingStory] = useState("");
+  const pendingGameOverReason = useRef<string | null>(null);
+  const isStreaming = streamRequest !== null;
+
+  // Characters of the story revealed so far at the player's text speed. A streamed scene keeps
+  // revealing where the stream left off; any other new story starts from the beginning.
+  const storyText = isStreaming && streamingStory ? streamingStory : gameState?.story ?? "";
+  const [revealedLength, setRevealedLength] = useState(0);
+  const storyLengthRef = useRef(0);
+  const previousStoryRef = useRef("");
+
+  // Background image job for the current scene, polled until the image is ready
+  const [pendingImageJobId, setPendingImageJobId] = useState<number | null>(null);
+
+  // Server-side game session holding the current scene; choices are sent as ids against it
+  const [gameSessionId, setGameSessionId] = useState<string | null>(null);
+
+  // Character sheet (health, gold, attributes, inventory) as of the current scene, kept by the server
+  const [character, setCharacter] = useState<CharacterSheet | null>(null);
+
+  // Language new adventures start in: the player's saved preference, or the browser's for guests
+  const [preferredLanguage, setPreferredLanguage] = useState<Language>(DEFAULT_LANGUAGE);
+  const { data: userData } = api.user.getUserData.useQuery(
+    undefined,
+    { enabled: sessionStatus === "authenticated" }
+  );
+
+  useEffect(() => {
+    if (sessionStatus === "authenticated" && userData) {
+      setPreferredLanguage(userData.language);
+    } else if (sessionStatus === "unauthenticated") {
+      setPreferredLanguage(parseLanguage(navigator.language));
     }
-    
-    return result;
+  }, [sessionStatus, userData]);
+
+  useEffect(() => {
+    setLanguage(preferredLanguage);
+  }, [preferredLanguage]);
+
+  const setLanguageMutation = api.user.setLanguage.useMutation({
+    onError: (error) => {
+      console.error("Error saving language:", error);
+    },
+  });
+
+  // Controls, text speed and accessibility settings: saved to the account, or in this browser for guests
+  const [settings, setSettings] = useState<GameSettings>(DEFAULT_SETTINGS);
+  // Read when a save slot loads, which shouldn't happen again just because the settings changed
+  const defaultDifficultyRef = useRef(settings.defaultDifficulty);
+  const { data: settingsData } = api.user.getSettings.useQuery(
+    undefined,
+    { enabled: sessionStatus === "authenticated" }
+  );
+
+  useEffect(() => {
+    if (sessionStatus === "authenticated" && settingsData) {
+      setSettings(settingsData);
+    } else if (sessionStatus === "unauthenticated") {
+      setSettings(loadLocalSettings());
+    }
+  }, [sessionStatus, settingsData]);
+
+  // Achievements unlocked during play, shown as toasts. The server checks them as scenes and endings
+  // are recorded, so the list is refetched after each and compared with the ids already seen.
+  const { data: achievementsData, refetch: refetchAchievements } = api.user.getAchievements.useQuery(
+    undefined,
+    { enabled: sessionStatus === "authenticated" }
+  );
+  // null until the first fetch, so achievements unlocked before this visit don't pop up
+  const seenAchievementsRef = useRef<Set<AchievementId> | null>(null);
+  const [achievementToasts, setAchievementToasts] = useState<AchievementId[]>([]);
+
+  useEffect(() => {
+    if (!achievementsData) return;
+    const unlocked = achievementsData.filter((achievement) => achievement.unlockedAt !== null).map((achievement) => achievement.id);
+    const seen = seenAchievementsRef.current;
+    seenAchievementsRef.current = new Set(unlocked);
+    if (!seen) return;
+
+    const newlyUnlocked = unlocked.filter((id) => !seen.has(id));
+    if (newlyUnlocked.length > 0) {
+      setAchievementToasts((current) => [...current, ...newlyUnlocked]);
+    }
+  }, [achievementsData]);
+
+  const dismissAchievementToast = (id: string) => {
+    setAchievementToasts((current) => current.filter((toastId) => toastId !== id));
   };
 
+  // Helper function to switch the adventure's language, remembering it for logged-in players
+  const handleLanguageChange = (value: Language) => {
+    setLanguage(value);
+    if (sessionStatus === "authenticated") {
+      setLanguageMutation.mutate({ language: value });
+    }
+  };
+
+
   // --- tRPC Query to Load All Save Slots ---
   const { data: saveSlotData, isLoading: isLoadingSaveSlots, error: loadSaveSlotsError, refetch: refetchSaveSlots } = 
     api.game.getSaveSlots.useQuery(
@@ -210,39 +351,46 @@ export default function GamePage() {
       // Load sprite data
       setSpriteDescription(saveData.spriteDescription ?? "");
       setSpriteUrl(saveData.spriteUrl || null);
+      setSpriteSheet(saveData.spriteSheet);
       
-      // Load theme
+      // Load theme and difficulty
       setGameTheme(saveData.gameTheme ?? "");
+      // Adventures in progress keep their difficulty and language; otherwise they can still be picked on the theme screen
+      if (saveData.gamePhase === "playing") {
+        setDifficulty(parseDifficulty(saveData.difficulty));
+        setLanguage(parseLanguage(saveData.language));
+      } else {
+        setDifficulty(defaultDifficultyRef.current);
+      }
       
       // Load background
       setBackgroundImageUrl(saveData.currentBackgroundImageUrl || null);
+      setPendingImageJobId(null);
+      setGameSessionId(gameSlotData.sessionId);
       
-      // Load score
+      // Load score and lives
       setGameScore(saveData.score ?? 0);
+      setLives(saveData.livesRemaining ?? getDifficultySettings(saveData.difficulty).lives);
       
       // Set default sprite position
-      setSpritePosition({
-        x: 10,
-        y: GROUND_LEVEL,
-        velocityY: 0,
-        velocityX: 0,
-        isGrounded: true
-      });
+      resetSprite();
+      if (saveData.gamePhase === "playing" && typeof saveData.activeSceneId === "number") {
+        replayRecorderRef.current.scene(saveData.activeSceneId);
+      }
       
       // Load game state if in playing phase
       if (saveData.gamePhase === 'playing') {
-        // Ensure we have exactly 3 choices
-        const choices = Array.isArray(saveData.currentChoices) 
-          ? ensureThreeChoices(saveData.currentChoices)
-          : ensureThreeChoices([]);
-        
+        // The server stores the scene's choices already topped up to the difficulty's count
         setGameState({
           story: saveData.currentStory ?? "",
-          choices: choices,
+          choices: Array.isArray(saveData.currentChoices) ? saveData.currentChoices : [],
           backgroundDescription: saveData.currentBackgroundDescription ?? "",
+          level: saveData.currentLevel,
         });
+        setCharacter(saveData.character);
       } else {
         setGameState(null);
+        setCharacter(null);
       }
       
       setShowChoiceCloud(false);
@@ -252,17 +400,16 @@ export default function GamePage() {
       setGamePhase("sprite");
       setSpriteDescription("");
       setSpriteUrl(null);
+      setSpriteSheet(null);
       setGameTheme("");
+      setDifficulty(defaultDifficultyRef.current);
       setGameState(null);
       setBackgroundImageUrl(null);
+      setPendingImageJobId(null);
+      setGameSessionId(null);
+      setCharacter(null);
       setGameScore(0);
-      setSpritePosition({
-        x: 10,
-        y: GROUND_LEVEL,
-        velocityY: 0,
-        velocityX: 0,
-        isGrounded: true
-      });
+      resetSprite();
     }
     
     // Reset slot to load after processing
@@ -274,11 +421,9 @@ export default function GamePage() {
     onSuccess: (data) => {
       console.log("Sprite generated:", data);
       setSpriteUrl(data.imageUrl);
+      setSpriteSheet(data.spriteSheet);
       setGamePhase("theme");
       
-      // Increase score for generating sprite
-      setGameScore(prev => prev + 1);
-      
       // Save to current slot
       triggerSave();
     },
@@ -291,30 +436,26 @@ export default function GamePage() {
   const startGameMutation = api.game.startGame.useMutation({
     onSuccess: (data) => {
         console.log("Game started:", data);
-        // Make sure we have exactly 3 choices for our cloud UI
-        const initialChoices = ensureThreeChoices(data.initialState.choices);
-        setGameState({
-          ...data.initialState,
-          choices: initialChoices
-        });
+        setGameState(data.initialState);
         setBackgroundImageUrl(data.backgroundImageUrl);
+        setPendingImageJobId(data.imageJobId);
+        setGameSessionId(data.sessionId);
+        setCharacter(data.character);
         setGamePhase("playing");
-        
-        // Increase score for starting game
-        setGameScore(prev => prev + 1);
+        setGameScore(data.score);
         
         // Reset sprite position
-        setSpritePosition({
-          x: 10,
-          y: GROUND_LEVEL,
-          velocityY: 0,
-          velocityX: 0,
-          isGrounded: true
-        });
+        resetSprite();
         setShowChoiceCloud(false);
+        if (data.sceneId !== null) {
+          replayRecorderRef.current.scene(data.sceneId);
+        }
         
         // Save to current slot
         triggerSave();
+        flushReplay(data.sessionId);
+        void refetchSceneTree();
+        void refetchAchievements();
     },
     onError: (error: LoadGameError) => {
         console.error("Start game error:", error);
@@ -325,40 +466,41 @@ export default function GamePage() {
   const makeChoiceMutation = api.game.makeChoice.useMutation({
     onSuccess: (data) => {
         console.log("Choice made, next state:", data);
+        if (data.character) {
+          setCharacter(data.character);
+        }
         
         // Check if this is a game over response
         if (data.gameOver) {
-          handleGameOver(data.gameOverReason || "Your adventure has ended.");
+          handleGameOver(data.gameOverReason || text.adventureEnded);
           return;
         }
         
+        if (data.score !== null) {
+          setGameScore(data.score);
+        }
         setTransitioningToNextScene(true);
         
-        // Make sure we have exactly 3 choices for our cloud UI
-        const nextChoices = ensureThreeChoices(data.nextState.choices);
-        
-        // Increase score for making a choice
-        setGameScore(prev => prev + 1);
-        
         // Set timeout to transition to new scene
         setTimeout(() => {
-          setGameState({
-            ...data.nextState,
-            choices: nextChoices
-          });
-          setBackgroundImageUrl(data.backgroundImageUrl);
-          setSpritePosition({
-            x: 10, // Reset to left side
-            y: GROUND_LEVEL,
-            velocityY: 0,
-            velocityX: 0,
-            isGrounded: true
-          });
+          setGameState(data.nextState);
+          // Keep the current background until the new one is ready
+          if (data.backgroundImageUrl) {
+            setBackgroundImageUrl(data.backgroundImageUrl);
+          }
+          setPendingImageJobId(data.imageJobId);
+          resetSprite();
+          if (data.sceneId !== null) {
+            replayRecorderRef.current.scene(data.sceneId);
+          }
           setShowChoiceCloud(false);
           setTransitioningToNextScene(false);
           
           // Save to current slot
           triggerSave();
+          flushReplay();
+          void refetchSceneTree();
+          void refetchAchievements();
         }, 500);
     },
     onError: (error: LoadGameError) => {
@@ -367,6 +509,129 @@ export default function GamePage() {
     },
   });
 
+  // --- Streamed scene generation (story text, then choices, then background image) ---
+  api.game.streamScene.useSubscription(streamRequest ?? skipToken, {
+    onData: (event) => {
+      switch (event.type) {
+        case "token":
+          setStreamingStory(prev => prev + event.text);
+          break;
+
+        case "scene":
+          console.log("Streamed scene received:", event);
+          setCharacter(event.character);
+          // Wait for the scene to be recorded (signalled by the done event) before ending the game
+          if (event.gameOver) {
+            pendingGameOverReason.current = event.gameOverReason ?? text.adventureEnded;
+            break;
+          }
+
+          setGameState(event.state);
+          setGamePhase("playing");
+          resetSprite();
+          setShowChoiceCloud(false);
+          break;
+
+        case "done":
+          setPendingImageJobId(event.imageJobId);
+          setGameSessionId(event.sessionId);
+          setGameScore(event.score);
+          setStreamRequest(null);
+          setStreamingStory("");
+          // The scene's id only comes once it's recorded, while its first attempt is already under way
+          if (event.sceneId !== null) {
+            replayRecorderRef.current.scene(event.sceneId);
+          }
+
+          if (pendingGameOverReason.current) {
+            const reason = pendingGameOverReason.current;
+            pendingGameOverReason.current = null;
+            handleGameOver(reason);
+            return;
+          }
+
+          // Save to current slot
+          triggerSave();
+          flushReplay(event.sessionId);
+          void refetchSceneTree();
+          void refetchAchievements();
+          break;
+      }
+    },
+    onError: (error) => {
+      console.error("Scene stream error, falling back to a regular request:", error);
+      const request = streamRequest;
+      setStreamRequest(null);
+      setStreamingStory("");
+      pendingGameOverReason.current = null;
+      if (!request) return;
+
+      // Retrying over a regular request would only hit the same limit
+      if (error.data?.code === "TOO_MANY_REQUESTS") {
+        const retryAfter = error.data.retryAfter;
+        alert(retryAfter ? `${error.message} (try again in ${retryAfter} seconds)` : error.message);
+        return;
+      }
+
+      if (request.mode === "start") {
+        const { mode: _mode, ...startInput } = request;
+        startGameMutation.mutate(startInput);
+      } else {
+        const { mode: _mode, ...choiceInput } = request;
+        makeChoiceMutation.mutate(choiceInput);
+      }
+    },
+  });
+
+  // --- Poll the background image job until it finishes ---
+  const { data: imageJobData } = api.game.getImageJob.useQuery(
+    { jobId: pendingImageJobId ?? 0 },
+    {
+      enabled: pendingImageJobId !== null,
+      refetchInterval: (query) => (query.state.data?.status === "pending" ? 2000 : false),
+    }
+  );
+
+  useEffect(() => {
+    if (!imageJobData || imageJobData.id !== pendingImageJobId || imageJobData.status === "pending") return;
+    console.log("Background image job finished:", imageJobData);
+    // Failed jobs carry the previous background (if any), so only replace the image when there is one
+    if (imageJobData.imageUrl) {
+      setBackgroundImageUrl(imageJobData.imageUrl);
+    }
+    setPendingImageJobId(null);
+  }, [imageJobData, pendingImageJobId]);
+
+  // --- Scene tree for the current slot, used to rewind to earlier scenes ---
+  const { data: sceneTreeData, refetch: refetchSceneTree } = api.game.getSceneTree.useQuery(
+    { slotNumber: currentSlot ?? 1 },
+    {
+      enabled: sessionStatus === "authenticated" && currentSlot !== null && gamePhase === "playing",
+    }
+  );
+
+  const rewindToSceneMutation = api.game.rewindToScene.useMutation({
+    onSuccess: (data) => {
+      console.log("Rewound to scene:", data.sceneId);
+      setGameScore(data.score);
+      setGameState(data.nextState);
+      setBackgroundImageUrl(data.backgroundImageUrl || null);
+      setPendingImageJobId(null);
+      setGameSessionId(data.sessionId);
+      setCharacter(data.character);
+      resetSprite();
+      replayRecorderRef.current.scene(data.sceneId);
+      setShowChoiceCloud(false);
+      flushReplay(data.sessionId);
+      void refetchSceneTree();
+      void refetchSaveSlots();
+    },
+    onError: (error: LoadGameError) => {
+      console.error("Rewind error:", error);
+      alert(`Error rewinding: ${error.message}`);
+    },
+  });
+
   // Add a new mutation for WASD movement
   const handleMovementMutation = api.game.handleMovement.useMutation({
     onSuccess: (data) => {
@@ -382,136 +647,81 @@ export default function GamePage() {
     },
   });
 
-  // Physics and movement system
+  // Physics and movement system: the engine simulates the sprite in fixed steps, the page renders it
   useEffect(() => {
-    if (gamePhase !== "playing" || transitioningToNextScene) return;
-    
-    // Game animation loop
-    let animationFrameId: number;
-    
-    const gameLoop = () => {
-      setSpritePosition(prev => {
-        // Skip updates if transitioning
-        if (transitioningToNextScene) return prev;
-        
-        let newX = prev.x;
-        let newY = prev.y;
-        let newVelocityY = prev.velocityY;
-        let isGrounded = prev.isGrounded;
-        
-        // Apply horizontal movement from key presses
-        if (keysPressed.a || keysPressed.A) { // Left
-          newX = Math.max(0, prev.x - MOVEMENT_SPEED);
-        }
-        if (keysPressed.d || keysPressed.D) { // Right
-          newX = Math.min(90, prev.x + MOVEMENT_SPEED); // Limit to 90% of screen width
-        }
-        
-        // Apply jump
-        if ((keysPressed.w || keysPressed.W) && isGrounded) {
-          newVelocityY = JUMP_FORCE;
-          isGrounded = false;
-        }
-        
-        // Apply gravity
-        if (!isGrounded) {
-          newVelocityY += GRAVITY;
-        }
-        
-        // Apply vertical movement
-        newY += newVelocityY;
-        
-        // Check if landed on ground
-        if (newY >= GROUND_LEVEL) {
-          newY = GROUND_LEVEL;
-          newVelocityY = 0;
-          isGrounded = true;
-        }
-        
-        // Check if reached right side to show choices
-        if (newX >= 80 && !showChoiceCloud) {
-          setShowChoiceCloud(true);
-        }
-        
-        // Check for blunders that end the game
-        const newPosition = {
-          x: newX,
-          y: newY,
-          velocityY: newVelocityY,
-          velocityX: prev.velocityX,
-          isGrounded
-        };
-        
-        if (checkForBlunder(newPosition)) {
-          return prev; // Don't update position if blunder detected
-        }
-        
-        return newPosition;
-      });
-      
-      animationFrameId = requestAnimationFrame(gameLoop);
-    };
-    
-    animationFrameId = requestAnimationFrame(gameLoop);
-    
-    return () => {
-      cancelAnimationFrame(animationFrameId);
-    };
-  }, [gamePhase, keysPressed, showChoiceCloud, transitioningToNextScene]);
+    if (gamePhase !== "playing" || transitioningToNextScene || paused) return;
+
+    const world = createLevelWorld(level);
+    return runGameLoop((elapsed) => {
+      const input = inputRef.current?.getHeld() ?? NO_INPUT;
+      replayRecorderRef.current.frame(stepsSimulated(engineRef.current), input);
+      const result = advanceEngine(engineRef.current, input, elapsed, world);
+      engineRef.current = result.state;
+      setSpritePosition(result.state.player);
+      setLevelTime(result.state.time);
+      engineEventsRef.current(result.events);
+    });
+  }, [gamePhase, transitioningToNextScene, paused, level]);
   
-  // Keyboard input handling
   useEffect(() => {
+    if (!storyText.startsWith(previousStoryRef.current)) setRevealedLength(0);
+    previousStoryRef.current = storyText;
+  }, [storyText]);
+
+  // Reveal the story text while it's on screen
+  useEffect(() => {
+    if (gamePhase !== "theme" && gamePhase !== "playing") return;
+
+    const charactersPerSecond = TEXT_SPEED_CHARACTERS[settings.textSpeed];
+    return runGameLoop((elapsed) => {
+      setRevealedLength(prev => Number.isFinite(charactersPerSecond)
+        ? Math.min(storyLengthRef.current, prev + elapsed * charactersPerSecond)
+        : storyLengthRef.current);
+    });
+  }, [gamePhase, settings.textSpeed]);
+  const revealedStory = storyText.slice(0, Math.floor(revealedLength));
+
+  // Keep facing the way the sprite last moved
+  useEffect(() => {
+    if (spritePosition.velocityX < 0) setSpriteFacingLeft(true);
+    else if (spritePosition.velocityX > 0) setSpriteFacingLeft(false);
+  }, [spritePosition.velocityX]);
+
+  // Input handling while playing, with the player's key bindings; starting or leaving play clears the pause
+  useEffect(() => {
+    setPaused(false);
     if (gamePhase !== "playing") return;
-    
-    const handleKeyDown = (e: KeyboardEvent) => {
-      const key = e.key;
-      
-      // Prevent default for WASD and number keys in game
-      if (['w', 'a', 's', 'd', 'W', 'A', 'S', 'D', '1', '2', '3'].includes(key)) {
-        e.preventDefault();
-        
-        // Update pressed keys for movement
-        if (['w', 'a', 's', 'd', 'W', 'A', 'S', 'D'].includes(key)) {
-          setKeysPressed(prev => ({ ...prev, [key]: true }));
-        }
-        
-        // Handle choice selection with number keys
-        if (showChoiceCloud && ['1', '2', '3'].includes(key) && gameState?.choices) {
-          const choiceId = parseInt(key);
-          const choice = gameState.choices.find(c => c.id === choiceId);
-          
-          if (choice && !makeChoiceMutation.isPending) {
-            handleChoiceSelection(choiceId);
-          }
-        }
-      }
-    };
-    
-    const handleKeyUp = (e: KeyboardEvent) => {
-      const key = e.key;
-      
-      if (['w', 'a', 's', 'd', 'W', 'A', 'S', 'D'].includes(key)) {
-        setKeysPressed(prev => ({ ...prev, [key]: false }));
-      }
-    };
-    
-    window.addEventListener("keydown", handleKeyDown);
-    window.addEventListener("keyup", handleKeyUp);
-    
+
+    const controller = createInputController((action) => pressActionRef.current(action), settings.keyBindings);
+    inputRef.current = controller;
     return () => {
-      window.removeEventListener("keydown", handleKeyDown);
-      window.removeEventListener("keyup", handleKeyUp);
+      controller.dispose();
+      inputRef.current = null;
     };
-  }, [gamePhase, showChoiceCloud, gameState, makeChoiceMutation.isPending]);
+  }, [gamePhase, settings.keyBindings]);
+
+  // Function to handle a pressed action: toggle the pause, or pick a choice from the choice cloud
+  const handlePressAction = (action: PressAction) => {
+    if (action === "pause") {
+      setPaused(prev => !prev);
+      return;
+    }
+
+    const choiceId = actionChoice(action);
+    if (paused || !showChoiceCloud || choiceId === null || choiceId > choiceCount) return;
+    if (gameState?.choices.some(c => c.id === choiceId)) {
+      handleChoiceSelection(choiceId);
+    }
+  };
 
   const handleChoiceSelection = (choiceId: number) => {
-    if (!gameState || !gameTheme || !spriteDescription || makeChoiceMutation.isPending) return;
-    makeChoiceMutation.mutate({
-        choiceId,
-        currentStory: gameState.story,
-        currentChoices: gameState.choices,
-        gameTheme: gameTheme,
-        spriteDescription: spriteDescription
+    if (!gameState || !gameSessionId || makeChoiceMutation.isPending || isStreaming) return;
+    replayRecorderRef.current.choice(stepsSimulated(engineRef.current), choiceId);
+    setStreamingStory("");
+    setStreamRequest({
+        mode: "choice",
+        sessionId: gameSessionId,
+        choiceId
     });
   };
 
@@ -519,14 +729,16 @@ export default function GamePage() {
   const handleSpriteSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!spriteDescription.trim() || generateSpriteMutation.isPending) return;
-    generateSpriteMutation.mutate({ description: spriteDescription });
+    generateSpriteMutation.mutate({ description: spriteDescription, slotNumber: currentSlot ?? undefined });
   };
 
   // Handle theme form submission
   const handleThemeSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!gameTheme.trim() || !spriteDescription || startGameMutation.isPending) return;
-    startGameMutation.mutate({ theme: gameTheme, spriteDescription });
+    if (!gameTheme.trim() || !spriteDescription || startGameMutation.isPending || isStreaming) return;
+    setStreamingStory("");
+    setLives(DIFFICULTY_SETTINGS[difficulty].lives);
+    setStreamRequest({ mode: "start", theme: gameTheme, spriteDescription, slotNumber: currentSlot ?? undefined, difficulty, language });
   };
 
   // Function to return to slot selection
@@ -535,6 +747,10 @@ export default function GamePage() {
     if (gamePhase !== 'slots' && gamePhase !== 'loading' && currentSlot !== null) {
       triggerSave();
     }
+    if (gamePhase === "playing") {
+      replayRecorderRef.current.end(stepsSimulated(engineRef.current));
+      flushReplay();
+    }
     
     setGamePhase('slots');
   };
@@ -570,13 +786,7 @@ export default function GamePage() {
       slotName: `Slot ${currentSlot}`,
       gamePhase: gamePhase, // This is now type-safe
       spriteDescription,
-      spriteUrl,
       gameTheme,
-      currentStory: gameState?.story ?? null,
-      currentChoices: gameState?.choices ?? [],
-      currentBackgroundDescription: gameState?.backgroundDescription ?? null,
-      currentBackgroundImageUrl: backgroundImageUrl,
-      score: gameScore,
       spritePosition
     });
   };
@@ -588,21 +798,24 @@ export default function GamePage() {
 
   // Handle starting a new game in a specific slot
   const handleNewGame = (slotNumber: number) => {
+    // Anything still recorded belongs to no run
+    replayRecorderRef.current.takeEvents();
+    setReplayId(null);
     setCurrentSlot(slotNumber);
     setGamePhase("sprite");
     setSpriteDescription("");
     setSpriteUrl(null);
+    setSpriteSheet(null);
     setGameTheme("");
+    setDifficulty(settings.defaultDifficulty);
+    setLanguage(preferredLanguage);
     setGameState(null);
     setBackgroundImageUrl(null);
+    setPendingImageJobId(null);
+    setGameSessionId(null);
+    setCharacter(null);
     setGameScore(0);
-    setSpritePosition({
-      x: 10,
-      y: GROUND_LEVEL,
-      velocityY: 0,
-      velocityX: 0,
-      isGrounded: true
-    });
+    resetSprite();
     setShowChoiceCloud(false);
     setTransitioningToNextScene(false);
     
@@ -611,14 +824,16 @@ export default function GamePage() {
       saveGameSlotMutation.mutate({
         slotNumber,
         slotName: `New Game - ${new Date().toLocaleDateString()}`,
-        gamePhase: "sprite",
-        score: 0
+        gamePhase: "sprite"
       });
     }
   };
 
   // Handle loading a saved game from a slot
   const handleLoadGame = (slotNumber: number) => {
+    replayRecorderRef.current.takeEvents();
+    setReplayId(null);
+    setLanguage(preferredLanguage);
     setSlotToLoad(slotNumber);
   };
 
@@ -626,41 +841,125 @@ export default function GamePage() {
   const handleGameOver = (reason: string) => {
     // Set game over state
     setGamePhase("game-over");
+    replayRecorderRef.current.end(stepsSimulated(engineRef.current));
+    flushReplay();
 
-    // If user is logged in, update high score
+    // If user is logged in, the server records the ending (and any high score) before the save is deleted
     if (session && session.user && currentSlot !== null) {
-      // Check if current score is a high score
-      updateHighScoreMutation.mutate({
-        score: gameScore,
-      });
-
-      // Delete the game save
-      deleteGameSaveMutation.mutate({
-        slotNumber: currentSlot,
+      const slotNumber = currentSlot;
+      endGameMutation.mutate({ slotNumber }, {
+        onSettled: () => generateGameReport(reason, slotNumber),
       });
+      return;
     }
 
     // Generate game report
+    generateGameReport(reason);
+  };
+
+  // Helper function to request the game report. With a slot, the report is written from that save's
+  // scene history and recorded ending (the theme, character and reason sent are only used for guests),
+  // and the save is deleted once it's done.
+  const generateGameReport = (reason: string, slotNumber?: number) => {
     generateGameReportMutation.mutate({
-      score: gameScore,
       theme: gameTheme || "unknown",
       spriteDescription: spriteDescription || "unknown character",
       reason,
+      language,
+      slotNumber,
     });
   };
 
-  // Function to detect a "blunder" (adding this to handle when the user dies)
-  const checkForBlunder = (position: SpritePosition) => {
-    // Example conditions for a blunder - falling off the screen
-    if (position.y > 150) { // If sprite falls below the screen
-      handleGameOver("You fell off the screen!");
-      return true;
+  // Function to react to the engine's events: reaching the exit shows the choices, and a "blunder"
+  // (falling into a pit, running into a hazard or touching an enemy) costs a life. The engine keeps
+  // the sprite where it died until it is reset.
+  const handleEngineEvents = (events: EngineEvent[]) => {
+    for (const event of events) {
+      if (event.type === "exit") {
+        setShowChoiceCloud(true);
+      } else {
+        handleDeath(event.cause);
+      }
+    }
+  };
+
+  // Helper function to put the sprite back at the start of the level, which ends the replay's current attempt
+  const resetSprite = () => {
+    replayRecorderRef.current.end(stepsSimulated(engineRef.current));
+    engineRef.current = createEngineState();
+    setSpritePosition(engineRef.current.player);
+    setLevelTime(0);
+  };
+
+  // Helper function to report a death; the server takes a life and says whether the adventure is over
+  const handleDeath = (cause: DeathCause) => {
+    if (!gameSessionId) {
+      loseLife(lives - 1, text.deathCauses[cause.type](cause.name));
+      return;
     }
-    
-    // Other blunder conditions can be added here
-    return false;
+    reportDeathMutation.mutate({ sessionId: gameSessionId, cause });
   };
 
+  // Helper function to take a life: restart the scene, or end the adventure when none are left
+  const loseLife = (livesLeft: number, reason: string) => {
+    setLives(Math.max(0, livesLeft));
+    if (livesLeft <= 0) {
+      handleGameOver(reason);
+      return;
+    }
+
+    setLifeLostMessage(text.lostLife(livesLeft));
+    setTimeout(() => {
+      setLifeLostMessage(null);
+    }, 2000);
+    resetSprite();
+    setShowChoiceCloud(false);
+    flushReplay();
+  };
+
+  const recordReplayMutation = api.game.recordReplay.useMutation();
+
+  // Helper function to upload what's been recorded of the run since the last upload. Only saved
+  // games have replays; for anyone else the recording is dropped.
+  const flushReplay = (sessionId = gameSessionId) => {
+    const recorder = replayRecorderRef.current;
+    const events = recorder.takeEvents();
+    if (sessionStatus !== "authenticated" || !sessionId || events.length === 0) return;
+
+    // Upload in order, in chunks the server accepts
+    void (async () => {
+      for (let start = 0; start < events.length; start += MAX_REPLAY_UPLOAD) {
+        await recordReplayMutation.mutateAsync({
+          sessionId,
+          startedAt: recorder.startedAt,
+          events: events.slice(start, start + MAX_REPLAY_UPLOAD),
+        });
+      }
+    })().catch((error) => {
+      console.error("Error uploading replay:", error);
+    });
+  };
+
+  const reportDeathMutation = api.game.reportDeath.useMutation({
+    onSuccess: (data, variables) => {
+      const { cause } = variables;
+      loseLife(data.livesRemaining, data.gameOver ? data.gameOverReason : text.deathCauses[cause.type](cause.name));
+    },
+    onError: (error, variables) => {
+      // Keep playing with the client's count rather than losing the game to a network error
+      console.error("Error reporting death:", error);
+      const { cause } = variables;
+      loseLife(lives - 1, text.deathCauses[cause.type](cause.name));
+    },
+  });
+
+  useEffect(() => {
+    engineEventsRef.current = handleEngineEvents;
+    pressActionRef.current = handlePressAction;
+    storyLengthRef.current = storyText.length;
+    defaultDifficultyRef.current = settings.defaultDifficulty;
+  });
+
   // Game report generation mutation
   const generateGameReportMutation = api.game.generateGameReport.useMutation({
     onSuccess: (data) => {
@@ -672,20 +971,34 @@ export default function GamePage() {
     },
     onError: (error) => {
       console.error("Error generating game report:", error);
-      setGameReport("Failed to generate game report.");
+      setGameReport(text.reportFailed);
       setTimeout(() => {
         setShowReport(true);
       }, 1000);
+    },
+    onSettled: (_data, _error, variables) => {
+      // Delete the game save once the report has been written from it
+      if (variables.slotNumber !== undefined) {
+        deleteGameSaveMutation.mutate({
+          slotNumber: variables.slotNumber,
+        });
+      }
     }
   });
 
-  // Update high score mutation
-  const updateHighScoreMutation = api.user.updateHighScore.useMutation({
+  // Record the end of the game; the server computes the score and updates the high score.
+  // handleGameOver requests the report once this settles either way.
+  const endGameMutation = api.game.endGame.useMutation({
     onSuccess: (data) => {
-      console.log("High score updated:", data);
+      console.log("Game ending recorded:", data);
+      if (data.status === "recorded") {
+        setGameScore(data.score);
+        setReplayId(data.replayId);
+        void refetchAchievements();
+      }
     },
     onError: (error) => {
-      console.error("Error updating high score:", error);
+      console.error("Error recording game ending:", error);
     }
   });
 
@@ -704,9 +1017,10 @@ export default function GamePage() {
     const value = e.target.value;
     setStopInput(value);
     
-    // Check if the input is "stop" to trigger game over
-    if (value.toLowerCase() === "stop") {
-      handleGameOver("You decided to stop the adventure.");
+    // Check if the input is "stop" (or its translation) to trigger game over
+    const command = value.trim().toLowerCase();
+    if (command === "stop" || command === text.stopCommand) {
+      handleGameOver(text.stoppedAdventure);
     }
   };
 
@@ -772,7 +1086,9 @@ export default function GamePage() {
     const isMutating = generateSpriteMutation.isPending || 
                        startGameMutation.isPending || 
                        makeChoiceMutation.isPending || 
+                       isStreaming ||
                        saveGameSlotMutation.isPending ||
+                       rewindToSceneMutation.isPending ||
                        isLoadingGameSlot;
 
     switch (gamePhase) {
@@ -825,16 +1141,14 @@ export default function GamePage() {
                     <div className="space-y-2">
                       <div className="flex items-center gap-3">
                         {slot.spriteUrl && (
-                          // eslint-disable-next-line @next/next/no-img-element
-                          <img 
-                            src={slot.spriteUrl} 
-                            alt="Character sprite" 
-                            className="w-12 h-12 object-contain border border-gray-600 rounded"
-                          />
+                          <div className="w-12 h-12 border border-gray-600 rounded">
+                            <AnimatedSprite url={slot.spriteUrl} sheet={slot.spriteSheet ?? null} animation="idle" alt="Character sprite" />
+                          </div>
                         )}
                         <div className="flex-1 text-sm">
                           <p className="text-gray-300">{slot.spriteDescription?.substring(0, 100)}</p>
                           <p className="text-gray-400 text-xs">Theme: {slot.gameTheme}</p>
+                          <p className="text-gray-400 text-xs">Difficulty: {getDifficultySettings(slot.difficulty).label}</p>
                         </div>
                       </div>
                       
@@ -922,32 +1236,77 @@ export default function GamePage() {
       case "theme":
         return (
           <div className="text-center w-full max-w-md mx-auto">
-            <h2 className="text-3xl font-bold mb-6">Choose Your Adventure Theme</h2>
+            <h2 className="text-3xl font-bold mb-6">{text.chooseTheme}</h2>
             {spriteUrl && (
-              // eslint-disable-next-line @next/next/no-img-element
-              <img src={spriteUrl} alt="Generated Sprite" className="mx-auto mb-4 h-32 w-32 object-contain border-2 border-purple-400 rounded" />
+              <div className="mx-auto mb-4 h-32 w-32 border-2 border-purple-400 rounded">
+                <AnimatedSprite url={spriteUrl} sheet={spriteSheet} animation="walk" alt="Generated Sprite" />
+              </div>
             )}
             <form onSubmit={handleThemeSubmit} className="flex flex-col items-center gap-4">
-              <label htmlFor="gameTheme" className="text-lg">Enter a theme:</label>
+              <label htmlFor="gameTheme" className="text-lg">{text.enterTheme}</label>
               <input
                 id="gameTheme"
                 type="text"
                 value={gameTheme}
                 onChange={(e) => setGameTheme(e.target.value)}
-                placeholder="e.g., Fantasy, Sci-Fi, Mystery"
+                placeholder={text.themePlaceholder}
                 className="p-2 rounded bg-white/20 text-black w-full disabled:opacity-70"
                 required
                 disabled={isMutating}
               />
+              <label htmlFor="language" className="text-lg">{text.chooseLanguage}</label>
+              <select
+                id="language"
+                value={language}
+                onChange={(e) => handleLanguageChange(parseLanguage(e.target.value))}
+                className="p-2 rounded bg-white/20 text-black w-full disabled:opacity-70"
+                disabled={isMutating}
+              >
+                {LANGUAGES.map((option) => (
+                  <option key={option} value={option}>{LANGUAGE_SETTINGS[option].label}</option>
+                ))}
+              </select>
+              <fieldset className="w-full text-left" disabled={isMutating}>
+                <legend className="text-lg mb-2 text-center w-full">{text.chooseDifficulty}</legend>
+                <div className="grid gap-2">
+                  {DIFFICULTIES.map((option) => (
+                    <label
+                      key={option}
+                      className={`flex items-start gap-2 rounded border p-2 cursor-pointer ${difficulty === option ? "border-purple-500 bg-purple-100/20" : "border-gray-300"}`}
+                    >
+                      <input
+                        type="radio"
+                        name="difficulty"
+                        value={option}
+                        checked={difficulty === option}
+                        onChange={() => setDifficulty(option)}
+                        className="mt-1"
+                      />
+                      <span>
+                        <span className="font-semibold">{text.difficulties[option].label}</span>
+                        <span className="ml-2 text-xs text-gray-500">{text.report.scoreMultiplier(DIFFICULTY_SETTINGS[option].scoreMultiplier)}</span>
+                        <span className="block text-sm text-gray-500">{text.difficulties[option].description}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
               <Button
                 type="submit"
                 variant="primary"
                 disabled={isMutating || !gameTheme.trim()}
               >
-                 {startGameMutation.isPending ? "Starting..." : "Start Adventure"}
+                 {startGameMutation.isPending || isStreaming ? text.starting : text.startAdventure}
               </Button>
               {saveGameSlotMutation.isPending && <LoadingIndicator text="Saving..." className="mt-2 text-sm text-gray-400"/>}
             </form>
+
+            {/* Opening scene, typed out as it streams in */}
+            {isStreaming && streamingStory && (
+              <p className="mt-6 text-lg whitespace-pre-wrap text-left">
+                {revealedStory}<span className="animate-pulse">▌</span>
+              </p>
+            )}
             
             <Button
               variant="secondary"
@@ -955,7 +1314,7 @@ export default function GamePage() {
               disabled={isMutating}
               className="mt-8"
             >
-              Return to Slot Selection
+              {text.returnToSlotSelection}
             </Button>
           </div>
         );
@@ -969,6 +1328,7 @@ export default function GamePage() {
             className="flex flex-col items-center gap-6 w-full" 
             ref={gameContainerRef}
           >
+            {character && <CharacterHud character={character} className="w-full max-w-xl" />}
             <div className="relative w-full max-w-xl aspect-video bg-black/30 rounded-lg overflow-hidden border border-purple-500/50 shadow-lg">
               {/* Background image */}
               {backgroundImageUrl && (
@@ -983,7 +1343,10 @@ export default function GamePage() {
               )}
               {/* Game score display */}
               <div className="absolute top-2 left-2 bg-black/70 text-white text-xs px-2 py-1 rounded-md">
-                Score: {gameScore-1}
+                {text.score}: {gameScore}
+              </div>
+              <div className="absolute top-2 right-2 bg-black/70 text-white text-xs px-2 py-1 rounded-md">
+                {text.lives}: <span className="text-red-400">{"♥".repeat(lives)}</span>
               </div>
               
               {/* Ground/floor for sprite to stand on */}
@@ -991,6 +1354,16 @@ export default function GamePage() {
                 className="absolute bottom-0 left-0 right-0 h-[10%] bg-opacity-0"
                 style={{ top: `${GROUND_LEVEL}%` }}
               />
+
+              {/* Platforms, pits, hazards, enemies and the exit */}
+              {!transitioningToNextScene && <LevelLayer level={level} time={levelTime} exitReached={showChoiceCloud} />}
+
+              {/* Shown for a moment after losing a life */}
+              {lifeLostMessage && (
+                <div className="absolute inset-x-0 top-1/3 text-center text-lg font-bold text-red-400 drop-shadow">
+                  {lifeLostMessage}
+                </div>
+              )}
               
               {/* Sprite */}
               {spriteUrl && (
@@ -1000,15 +1373,16 @@ export default function GamePage() {
                     left: `${spritePosition.x}%`,
                     top: `${spritePosition.y}%`,
                     transform: 'translate(-50%, -100%)', // Center sprite horizontally, align bottom to position
-                    width: '48px',
-                    height: '48px',
+                    width: `${spriteSheet ? (SPRITE_HEIGHT * spriteSheet.frameWidth) / spriteSheet.frameHeight : SPRITE_HEIGHT}px`,
+                    height: `${SPRITE_HEIGHT}px`,
                   }}
                 >
-                  {/* eslint-disable-next-line @next/next/no-img-element */}
-                  <img 
-                    src={spriteUrl} 
-                    alt="Player character" 
-                    className="w-full h-full object-contain" 
+                  <AnimatedSprite
+                    url={spriteUrl}
+                    sheet={spriteSheet}
+                    animation={pickSpriteAnimation(spritePosition)}
+                    flipped={spriteFacingLeft}
+                    alt="Player character"
                   />
                 </div>
               )}
@@ -1018,9 +1392,9 @@ export default function GamePage() {
                 <div 
                   className="absolute top-[20%] right-[20%] bg-black border-2 border-white rounded-md p-3 max-w-[250px] transform-gpu animate-float"
                 >
-                  <div className="text-white text-xs font-medium mb-1">Choose your next action:</div>
+                  <div className="text-white text-xs font-medium mb-1">{text.chooseNextAction}</div>
                   <ul className="text-white text-xs space-y-1">
-                    {(makeChoiceMutation.data?.nextState.choices || gameState?.choices || []).slice(0, 3).map((choice) => (
+                    {(gameState?.choices || []).slice(0, choiceCount).map((choice) => (
                       <li key={choice.id} className="hover:bg-gray-700 p-1 rounded cursor-pointer">
                         <span className="font-bold mr-1">{choice.id}.</span> {choice.text}
                       </li>
@@ -1029,24 +1403,42 @@ export default function GamePage() {
                 </div>
               )}
               
+              {/* Pause screen */}
+              {paused && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 bg-black/60">
+                  <p className="text-2xl font-bold text-white">{text.paused}</p>
+                  <Button variant="secondary" onClick={() => setPaused(false)}>
+                    {text.resume}
+                  </Button>
+                </div>
+              )}
+
               {/* Loading indicator */}
-              {(makeChoiceMutation.isPending || saveGameSlotMutation.isPending) && (
+              {(makeChoiceMutation.isPending || isStreaming || saveGameSlotMutation.isPending) && (
                 <div className="absolute inset-0 flex items-center justify-center bg-black/50">
-                  <LoadingIndicator text="Loading next scene..." />
+                  <LoadingIndicator text={isStreaming && streamingStory ? text.paintingScene : text.loadingScene} />
                 </div>
               )}
             </div>
             
-            {/* Story text */}
+            {/* Story text - typed out progressively while the next scene streams in */}
             <p className="text-lg whitespace-pre-wrap text-center max-w-prose">
-              {gameState.story}
+              {revealedStory}
+              {isStreaming && streamingStory && <span className="animate-pulse">▌</span>}
             </p>
             
+            <TouchControls
+              onAction={(action, down) => inputRef.current?.setTouch(action, down)}
+              choiceIds={showChoiceCloud && !paused ? (gameState?.choices ?? []).slice(0, choiceCount).map((choice) => choice.id) : []}
+              labels={text.touchLabels}
+            />
+
             {/* Controls hint */}
             <div className="text-sm text-blue-600 mt-2 flex flex-col items-center">
-              <p>Use W (jump), A (left), D (right) to move</p>
-              <p>Press 1, 2, or 3 to select choices when they appear</p>
-              <p>Move from the left side of the screen to the right side to recive your new prompt</p>
+              <p>{text.moveControls}</p>
+              <p>{text.pauseControls}</p>
+              <p>{text.choiceControls(choiceCount)}</p>
+              <p>{text.goalControls}</p>
             </div>
             
             {/* Game controls */}
@@ -1056,7 +1448,7 @@ export default function GamePage() {
                 onClick={() => handleNewGame(currentSlot || 1)}
                 disabled={isMutating}
               >
-                New Game
+                {text.newGame}
               </Button>
               
               <Button
@@ -1064,7 +1456,7 @@ export default function GamePage() {
                 onClick={handleReturnToSlots}
                 disabled={isMutating}
               >
-                Return to Slots
+                {text.returnToSlots}
               </Button>
 
               {/* Manual save button */}
@@ -1074,7 +1466,7 @@ export default function GamePage() {
                 disabled={isMutating || sessionStatus !== "authenticated" || currentSlot === null}
                 className="bg-green-600 hover:bg-green-700 relative"
               >
-                Save Game
+                {text.saveGame}
                 {currentSlot !== null && (
                   <span className="absolute -top-2 -right-2 bg-yellow-600 text-white text-[10px] px-1 rounded-full">
                     Slot {currentSlot}
@@ -1083,13 +1475,27 @@ export default function GamePage() {
               </Button>
             </div>
 
+            {/* Story map - rewind to an earlier scene and take a different branch */}
+            {sessionStatus === "authenticated" && currentSlot !== null && sceneTreeData?.status === "success" && (
+              <details className="w-full max-w-xl">
+                <summary className="cursor-pointer text-sm text-blue-600">Story map ({sceneTreeData.scenes.length} scenes)</summary>
+                <SceneTree
+                  className="mt-2"
+                  scenes={sceneTreeData.scenes}
+                  activeSceneId={sceneTreeData.activeSceneId}
+                  onRewind={(sceneId) => rewindToSceneMutation.mutate({ slotNumber: currentSlot, sceneId })}
+                  disabled={isMutating}
+                />
+              </details>
+            )}
+
             {/* Emergency stop input */}
             <div className="mt-4 w-full max-w-xs">
               <input
                 type="text"
                 value={stopInput}
                 onChange={handleStopInputChange}
-                placeholder="Type 'stop' to end game"
+                placeholder={text.stopPlaceholder}
                 className="w-full p-2 rounded bg-white/20 text-black border border-gray-400 text-center"
               />
             </div>
@@ -1110,17 +1516,17 @@ export default function GamePage() {
           <div className="flex flex-col items-center justify-center w-full h-full">
             {!showReport ? (
               <div className="flex flex-col items-center justify-center gap-6">
-                <h1 className="text-6xl font-bold text-red-600 animate-pulse">GAME OVER</h1>
-                <p className="text-2xl text-white">Final Score: {gameScore-1}</p>
+                <h1 className="text-6xl font-bold text-red-600 animate-pulse">{text.gameOver}</h1>
+                <p className="text-2xl text-white">{text.report.finalScore}: {gameScore}</p>
               </div>
             ) : (
               <div className="bg-gray-900/80 p-6 rounded-lg max-w-2xl w-full">
-                <h2 className="text-3xl font-bold text-purple-400 mb-4">Game Report</h2>
+                <h2 className="text-3xl font-bold text-purple-400 mb-4">{text.gameReport}</h2>
                 <div className="bg-black/50 p-4 rounded-lg mb-6">
                   <p className="text-lg text-white whitespace-pre-wrap">{gameReport}</p>
                 </div>
                 <div className="text-2xl font-bold text-center mb-6">
-                  <p className="text-white">Final Score: <span className="text-yellow-400">{gameScore-2}</span></p>
+                  <p className="text-white">{text.report.finalScore}: <span className="text-yellow-400">{gameScore}</span></p>
                 </div>
                 <div className="flex gap-4 justify-center">
                   <Button
@@ -1128,16 +1534,26 @@ export default function GamePage() {
                     onClick={handleReturnToSlots}
                     className="text-lg"
                   >
-                    Play Again
+                    {text.playAgain}
                   </Button>
                   <Link href="/user">
                     <Button
                       variant="secondary"
                       className="text-lg"
                     >
-                      View Profile
+                      {text.viewProfile}
                     </Button>
                   </Link>
+                  {replayId !== null && (
+                    <Link href={`/replay/${replayId}`}>
+                      <Button
+                        variant="secondary"
+                        className="text-lg"
+                      >
+                        {text.watchReplay}
+                      </Button>
+                    </Link>
+                  )}
                 </div>
               </div>
             )}
@@ -1152,7 +1568,7 @@ export default function GamePage() {
   // Final return statement for authenticated users
   return (
     <Layout>
-      <Container className="relative">
+      <Container className={cn("relative", settings.reducedMotion && "reduce-motion")}>
          {/* Display username */}
          {session?.user?.name && (
             <div className="absolute top-0 right-4 sm:top-4 text-sm text-gray-300">
@@ -1160,6 +1576,15 @@ export default function GamePage() {
             </div>
          )}
          {renderContent()}
+         <AchievementToasts
+            toasts={ACHIEVEMENTS.filter((achievement) => achievementToasts.includes(achievement.id)).map((achievement) => ({
+              id: achievement.id,
+              icon: achievement.icon,
+              title: text.achievements[achievement.id].title,
+            }))}
+            label={text.achievementUnlocked}
+            onDismiss={dismissAchievementToast}
+         />
       </Container>
     </Layout>
   );
@@ -0,0 +1,279 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useParams } from "next/navigation";
+import { signIn, useSession } from "next-auth/react";
+import Link from "next/link";
+import { Layout } from "~/components/Layout";
+import { Container } from "~/components/Container";
+import { Button } from "~/components/Button";
+import { LoadingIndicator } from "~/components/LoadingIndicator";
+import { ErrorMessage } from "~/components/ErrorMessage";
+import { PageTitle } from "~/components/PageTitle";
+import { LevelLayer } from "~/components/LevelLayer";
+import { AnimatedSprite } from "~/components/AnimatedSprite";
+import { api } from "~/trpc/react";
+import { cn } from "~/utils";
+import { FIXED_TIMESTEP, MAX_FRAME_TIME, createEngineState, createLevelWorld, runGameLoop } from "~/utils/engine";
+import { createFlatLevel, describeDeathCause } from "~/utils/level";
+import { replaySteps, splitReplayAttempts } from "~/utils/replay";
+import { pickSpriteAnimation } from "~/utils/sprite";
+
+const SPRITE_HEIGHT = 48; // px
+const FLAT_LEVEL = createFlatLevel();
+// Seconds the viewer waits on the end of an attempt before playing the next one
+const ATTEMPT_BREAK = 1.5;
+const SPEEDS = [1, 2, 4];
+
+// Helper function to show a time in the run as m:ss
+const formatRunTime = (milliseconds: number) => {
+  const seconds = Math.floor(milliseconds / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+// Replay viewer: plays a recorded run back attempt by attempt, re-driving the platformer engine with
+// the recorded inputs (see ~/utils/replay)
+export default function ReplayPage() {
+  const params = useParams<{ id: string }>();
+  const replayId = Number(params.id);
+  const { status } = useSession();
+  const { data: replay, error, isLoading } = api.game.getReplay.useQuery(
+    { replayId },
+    { enabled: status === "authenticated" && Number.isInteger(replayId), retry: false }
+  );
+
+  const attempts = useMemo(() => (replay ? splitReplayAttempts(replay.timeline) : []), [replay]);
+  const scenesById = useMemo(() => new Map((replay?.scenes ?? []).map((scene) => [scene.id, scene])), [replay]);
+
+  const [attemptIndex, setAttemptIndex] = useState(0);
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const attempt = attempts[attemptIndex];
+  const scene = attempt?.sceneId != null ? scenesById.get(attempt.sceneId) : undefined;
+  const level = scene?.level ?? FLAT_LEVEL;
+
+  // The simulation lives in refs, like on the game page; the state below is what was last rendered
+  const engineRef = useRef(createEngineState());
+  const stepRef = useRef(0);
+  // Play time not simulated yet, and time spent waiting at the end of the attempt
+  const carryRef = useRef(0);
+  const breakRef = useRef(0);
+  const [player, setPlayer] = useState(engineRef.current.player);
+  const [facingLeft, setFacingLeft] = useState(false);
+  const [levelTime, setLevelTime] = useState(0);
+  const [currentStep, setCurrentStep] = useState(0);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Helper function to start playing an attempt from its beginning
+  const goToAttempt = (index: number) => {
+    engineRef.current = createEngineState();
+    stepRef.current = 0;
+    carryRef.current = 0;
+    breakRef.current = 0;
+    setAttemptIndex(index);
+    setPlayer(engineRef.current.player);
+    setFacingLeft(false);
+    setLevelTime(0);
+    setCurrentStep(0);
+    setMessage(null);
+  };
+
+  // The playback loop outlives renders, so it calls the latest goToAttempt through this
+  const goToAttemptRef = useRef(goToAttempt);
+  useEffect(() => {
+    goToAttemptRef.current = goToAttempt;
+  });
+
+  useEffect(() => {
+    if (!attempt || !playing) return;
+
+    const world = createLevelWorld(level);
+    return runGameLoop((elapsed) => {
+      carryRef.current += Math.min(Math.max(0, elapsed), MAX_FRAME_TIME) * speed;
+      const count = Math.floor(carryRef.current / FIXED_TIMESTEP);
+      carryRef.current -= count * FIXED_TIMESTEP;
+
+      // At the end of the attempt, wait a moment and move on to the next one
+      if (stepRef.current >= attempt.length) {
+        breakRef.current += count * FIXED_TIMESTEP;
+        if (breakRef.current < ATTEMPT_BREAK) return;
+        if (attemptIndex + 1 < attempts.length) {
+          goToAttemptRef.current(attemptIndex + 1);
+        } else {
+          setPlaying(false);
+        }
+        return;
+      }
+
+      const result = replaySteps(attempt, engineRef.current, stepRef.current, count, world);
+      engineRef.current = result.state;
+      stepRef.current = result.step;
+      setPlayer(result.state.player);
+      if (result.state.player.velocityX < 0) setFacingLeft(true);
+      else if (result.state.player.velocityX > 0) setFacingLeft(false);
+      setLevelTime(result.state.time);
+      setCurrentStep(result.step);
+      for (const event of result.events) {
+        setMessage(event.type === "death" ? `Lost a life: ${describeDeathCause(event.cause)}` : "Reached the exit");
+      }
+    });
+  }, [attempt, attemptIndex, attempts.length, playing, speed, level]);
+
+  if (status === "loading" || isLoading) {
+    return (
+      <Layout>
+        <LoadingIndicator text="Loading replay..." />
+      </Layout>
+    );
+  }
+
+  if (status === "unauthenticated") {
+    return (
+      <Layout>
+        <Container className="gap-6">
+          <p className="text-xl">Sign in to watch your replays.</p>
+          <Button variant="secondary" onClick={() => void signIn()}>
+            Sign In
+          </Button>
+        </Container>
+      </Layout>
+    );
+  }
+
+  if (error || !replay) {
+    return (
+      <Layout>
+        <Container className="gap-4">
+          <ErrorMessage message={error?.message ?? "Replay not found."} />
+          <Link href="/game" className="text-purple-300 hover:text-purple-100">
+            Go to Game
+          </Link>
+        </Container>
+      </Layout>
+    );
+  }
+
+  const chosen = attempt?.choices.filter((choice) => choice.step <= currentStep).at(-1);
+  const runTime = attempt ? attempt.startedAt + currentStep * FIXED_TIMESTEP * 1000 : 0;
+  const isLastAttemptOver = attemptIndex === attempts.length - 1 && attempt !== undefined && currentStep >= attempt.length;
+
+  return (
+    <Layout>
+      <Container className="gap-6">
+        <PageTitle>Replay{replay.gameTheme ? `: ${replay.gameTheme}` : ""}</PageTitle>
+
+        {attempts.length === 0 ? (
+          <p className="text-lg text-gray-300">Nothing was recorded for this run.</p>
+        ) : (
+          <div className="flex w-full flex-col items-center gap-4">
+            <p className="text-sm text-gray-300">
+              Attempt {attemptIndex + 1} of {attempts.length}
+              {scene && ` · Scene ${replay.scenes.indexOf(scene) + 1}`}
+              {" · "}{formatRunTime(runTime)}
+            </p>
+
+            <div className="relative w-full max-w-xl aspect-video bg-black/30 rounded-lg overflow-hidden border border-purple-500/50 shadow-lg">
+              {scene?.backgroundImageUrl && (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={scene.backgroundImageUrl}
+                  alt="Scene background"
+                  className="absolute inset-0 w-full h-full object-cover"
+                />
+              )}
+
+              <LevelLayer level={level} time={levelTime} exitReached={message === "Reached the exit"} />
+
+              {replay.spriteUrl && (
+                <div
+                  className="absolute"
+                  style={{
+                    left: `${player.x}%`,
+                    top: `${player.y}%`,
+                    transform: "translate(-50%, -100%)",
+                    width: `${replay.spriteSheet ? (SPRITE_HEIGHT * replay.spriteSheet.frameWidth) / replay.spriteSheet.frameHeight : SPRITE_HEIGHT}px`,
+                    height: `${SPRITE_HEIGHT}px`,
+                  }}
+                >
+                  <AnimatedSprite
+                    url={replay.spriteUrl}
+                    sheet={replay.spriteSheet}
+                    animation={pickSpriteAnimation(player)}
+                    flipped={facingLeft}
+                    alt="Player character"
+                  />
+                </div>
+              )}
+
+              {message && (
+                <div className="absolute inset-x-0 top-1/3 text-center text-lg font-bold text-yellow-200 drop-shadow">
+                  {message}
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-wrap justify-center gap-2">
+              <Button variant="secondary" size="sm" onClick={() => goToAttempt(Math.max(0, attemptIndex - 1))} disabled={attemptIndex === 0}>
+                ⏮ Previous
+              </Button>
+              <Button variant="secondary" size="sm" onClick={() => goToAttempt(attemptIndex)}>
+                ↺ Restart
+              </Button>
+              <Button variant="primary" size="sm" onClick={() => setPlaying(!playing)}>
+                {playing ? "❚❚ Pause" : "▶ Play"}
+              </Button>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => goToAttempt(Math.min(attempts.length - 1, attemptIndex + 1))}
+                disabled={attemptIndex >= attempts.length - 1}
+              >
+                Next ⏭
+              </Button>
+              {SPEEDS.map((option) => (
+                <Button
+                  key={option}
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setSpeed(option)}
+                  className={cn(speed === option && "ring-2 ring-purple-400")}
+                >
+                  {option}×
+                </Button>
+              ))}
+            </div>
+
+            {scene && (
+              <div className="w-full max-w-xl">
+                <p className="text-lg whitespace-pre-wrap text-center">{scene.story}</p>
+                {scene.choices.length > 0 && (
+                  <ul className="mt-4 space-y-1 text-sm">
+                    {scene.choices.map((choice) => (
+                      <li
+                        key={choice.id}
+                        className={cn("rounded p-1", chosen?.choiceId === choice.id ? "bg-purple-700 text-white" : "text-gray-400")}
+                      >
+                        <span className="font-bold mr-1">{choice.id}.</span> {choice.text}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {isLastAttemptOver && replay.ending && (
+              <div className="text-center">
+                <p className="text-xl font-bold text-red-400">{replay.ending.reason}</p>
+                <p className="text-lg text-yellow-400">Final score: {replay.ending.score}</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        <Link href="/game" className="text-purple-300 hover:text-purple-100">
+          Back to Game
+        </Link>
+      </Container>
+    </Layout>
+  );
+}
@@ -46,15 +46,7 @@ export default function TestDatabasePage() {
       slotName: `Test Save ${new Date().toLocaleTimeString()}`,
       gamePhase: "playing",
       spriteDescription: "Test character",
-      spriteUrl: "https://example.com/sprite.png",
       gameTheme: "Test theme",
-      currentStory: "This is a test save",
-      currentChoices: [
-        { id: 1, text: "Option 1" },
-        { id: 2, text: "Option 2" },
-        { id: 3, text: "Option 3" }
-      ],
-      score: Math.floor(Math.random() * 100),
     });
   };
   
@@ -1,5 +1,6 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { signIn, signOut, useSession } from "next-auth/react";
 import Link from "next/link";
 import { Layout } from "~/components/Layout";
@@ -7,7 +8,17 @@ import { Container } from "~/components/Container";
 import { Button } from "~/components/Button";
 import { LoadingIndicator } from "~/components/LoadingIndicator";
 import { PageTitle } from "~/components/PageTitle";
+import { SettingsForm } from "~/components/SettingsForm";
 import { api } from "~/trpc/react";
+import { cn } from "~/utils";
+import { LANGUAGES, LANGUAGE_SETTINGS, parseLanguage } from "~/utils/language";
+import {
+  DEFAULT_SETTINGS,
+  loadLocalSettings,
+  parseGameSettings,
+  saveLocalSettings,
+  type GameSettings,
+} from "~/utils/settings";
 
 export default function UserPage() {
   const { data: session, status } = useSession();
@@ -15,6 +26,56 @@ export default function UserPage() {
     undefined,
     { enabled: status === "authenticated" }
   );
+  const { data: achievementsData } = api.user.getAchievements.useQuery(
+    undefined,
+    { enabled: status === "authenticated" }
+  );
+  const achievementText = LANGUAGE_SETTINGS[userData?.language ?? "en"].text.achievements;
+  const unlockedCount = achievementsData?.filter((achievement) => achievement.unlockedAt !== null).length ?? 0;
+  const utils = api.useUtils();
+  const setLanguageMutation = api.user.setLanguage.useMutation({
+    onSuccess: () => {
+      void utils.user.getUserData.invalidate();
+    },
+    onError: (error) => {
+      console.error("Error saving language:", error);
+    },
+  });
+
+  // Game settings: saved to the account when signed in, in this browser otherwise
+  const [settings, setSettings] = useState<GameSettings>(DEFAULT_SETTINGS);
+  const { data: settingsData } = api.user.getSettings.useQuery(
+    undefined,
+    { enabled: status === "authenticated" }
+  );
+  const updateSettingsMutation = api.user.updateSettings.useMutation({
+    onSuccess: (data) => {
+      utils.user.getSettings.setData(undefined, data.settings);
+    },
+    onError: (error) => {
+      console.error("Error saving settings:", error);
+      void utils.user.getSettings.invalidate();
+    },
+  });
+
+  useEffect(() => {
+    if (status === "authenticated" && settingsData) {
+      setSettings(settingsData);
+    } else if (status === "unauthenticated") {
+      setSettings(loadLocalSettings());
+    }
+  }, [status, settingsData]);
+
+  // Helper function to apply changed settings right away and save them
+  const handleSettingsChange = (changes: Partial<GameSettings>) => {
+    const updated = parseGameSettings({ ...settings, ...changes });
+    setSettings(updated);
+    if (status === "authenticated") {
+      updateSettingsMutation.mutate(changes);
+    } else {
+      saveLocalSettings(updated);
+    }
+  };
 
   return (
     <Layout>
@@ -48,6 +109,65 @@ export default function UserPage() {
                 High Score: {userData?.highScore ?? 0}
               </p>
             </div>
+
+            <div className="mt-4 w-full max-w-2xl bg-purple-900/50 p-4 rounded-lg border border-purple-500">
+              <h3 className="text-xl font-bold text-purple-300 mb-1">Achievements</h3>
+              <p className="text-sm text-gray-300 mb-4">
+                {unlockedCount} / {achievementsData?.length ?? 0} unlocked
+              </p>
+              {achievementsData ? (
+                <ul className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+                  {achievementsData.map((achievement) => (
+                    <li
+                      key={achievement.id}
+                      className={cn(
+                        "flex items-center gap-3 rounded-lg border p-3 text-left",
+                        achievement.unlockedAt !== null
+                          ? "border-yellow-400 bg-black/30"
+                          : "border-gray-600 bg-black/20 opacity-50 grayscale"
+                      )}
+                    >
+                      <span className="text-3xl">{achievement.icon}</span>
+                      <span>
+                        <span className="block font-semibold">{achievementText[achievement.id].title}</span>
+                        <span className="block text-sm text-gray-300">{achievementText[achievement.id].description}</span>
+                        <span className="block text-xs text-gray-400">
+                          {achievement.unlockedAt !== null
+                            ? `Unlocked ${new Date(achievement.unlockedAt * 1000).toLocaleDateString()}`
+                            : "Locked"}
+                        </span>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <LoadingIndicator />
+              )}
+            </div>
+
+            <div className="mt-4 bg-purple-900/50 p-4 rounded-lg border border-purple-500">
+              <label htmlFor="language" className="block text-xl font-bold text-purple-300 mb-2">Adventure Language</label>
+              <select
+                id="language"
+                value={userData?.language ?? "en"}
+                onChange={(e) => setLanguageMutation.mutate({ language: parseLanguage(e.target.value) })}
+                className="p-2 rounded bg-white/20 text-black"
+                disabled={!userData || setLanguageMutation.isPending}
+              >
+                {LANGUAGES.map((option) => (
+                  <option key={option} value={option}>{LANGUAGE_SETTINGS[option].label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="mt-4 flex flex-col items-center bg-purple-900/50 p-4 rounded-lg border border-purple-500">
+              <h3 className="text-xl font-bold text-purple-300 mb-2">Game Settings</h3>
+              <SettingsForm
+                settings={settings}
+                onChange={handleSettingsChange}
+                disabled={!settingsData}
+              />
+            </div>
             
             <Button
               variant="secondary"
@@ -72,6 +192,12 @@ export default function UserPage() {
              <p className="text-gray-400 mt-2">
                 (Sign in to save your game progress)
              </p>
+
+            <div className="mt-4 flex flex-col items-center bg-purple-900/50 p-4 rounded-lg border border-purple-500">
+              <h3 className="text-xl font-bold text-purple-300 mb-2">Game Settings</h3>
+              <p className="text-sm text-gray-400 mb-2">Saved in this browser. Sign in to keep them on every device.</p>
+              <SettingsForm settings={settings} onChange={handleSettingsChange} />
+            </div>
           </div>
         )}
 
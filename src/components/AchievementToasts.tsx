@@ -0,0 +1,59 @@
+import React, { useEffect, useRef } from "react";
+import { cn } from "~/utils";
+
+export interface AchievementToast {
+  id: string;
+  icon: string;
+  title: string;
+}
+
+interface AchievementToastsProps {
+  toasts: AchievementToast[];
+  // Heading on every toast, e.g. "Achievement unlocked"
+  label: string;
+  onDismiss: (id: string) => void;
+  className?: string;
+}
+
+// How long a toast stays up, in ms
+const TOAST_DURATION = 5000;
+
+const ToastItem: React.FC<{ toast: AchievementToast; label: string; onDismiss: (id: string) => void }> = ({ toast, label, onDismiss }) => {
+  // The timer outlives renders, so it calls the latest onDismiss through this
+  const onDismissRef = useRef(onDismiss);
+  useEffect(() => {
+    onDismissRef.current = onDismiss;
+  });
+
+  useEffect(() => {
+    const timeout = setTimeout(() => onDismissRef.current(toast.id), TOAST_DURATION);
+    return () => clearTimeout(timeout);
+  }, [toast.id]);
+
+  return (
+    <button
+      type="button"
+      onClick={() => onDismiss(toast.id)}
+      className="flex items-center gap-3 rounded-lg border border-yellow-400 bg-black/90 px-4 py-3 text-left text-white shadow-lg"
+    >
+      <span className="text-3xl">{toast.icon}</span>
+      <span>
+        <span className="block text-xs uppercase tracking-wide text-yellow-300">{label}</span>
+        <span className="block font-semibold">{toast.title}</span>
+      </span>
+    </button>
+  );
+};
+
+// Stack of notifications for newly unlocked achievements, in the corner of the screen
+export const AchievementToasts: React.FC<AchievementToastsProps> = ({ toasts, label, onDismiss, className }) => {
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className={cn("fixed bottom-4 right-4 z-50 flex flex-col gap-2", className)} role="status">
+      {toasts.map((toast) => (
+        <ToastItem key={toast.id} toast={toast} label={label} onDismiss={onDismiss} />
+      ))}
+    </div>
+  );
+};
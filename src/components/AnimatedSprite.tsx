@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from "react";
+import { cn } from "~/utils";
+import type { SpriteAnimation, SpriteSheet } from "~/utils/sprite";
+
+interface AnimatedSpriteProps {
+  url: string;
+  // Frame metadata; sprites without it (from before sprite sheets) are shown as a still image
+  sheet: SpriteSheet | null;
+  animation: SpriteAnimation;
+  // Mirror the sprite, e.g. when moving left (sheets are drawn facing right)
+  flipped?: boolean;
+  alt: string;
+  className?: string;
+}
+
+export const AnimatedSprite: React.FC<AnimatedSpriteProps> = ({ url, sheet, animation, flipped, alt, className }) => {
+  const [frame, setFrame] = useState(0);
+  const current = sheet?.animations[animation];
+
+  // Restart from the first frame whenever the animation changes
+  useEffect(() => {
+    setFrame(0);
+    if (!current || current.frames <= 1) return;
+
+    const timer = setInterval(() => {
+      setFrame((previous) => (previous + 1) % current.frames);
+    }, 1000 / current.fps);
+    return () => clearInterval(timer);
+  }, [current]);
+
+  if (!sheet || !current) {
+    return (
+      // eslint-disable-next-line @next/next/no-img-element
+      <img
+        src={url}
+        alt={alt}
+        className={cn("h-full w-full object-contain", className)}
+        style={flipped ? { transform: "scaleX(-1)" } : undefined}
+      />
+    );
+  }
+
+  // Show one cell of the sheet by scaling the whole image and shifting it to that cell
+  const column = frame % sheet.columns;
+  const x = sheet.columns > 1 ? (column / (sheet.columns - 1)) * 100 : 0;
+  const y = sheet.rows > 1 ? (current.row / (sheet.rows - 1)) * 100 : 0;
+
+  return (
+    <div className={cn("flex h-full w-full justify-center", className)}>
+      <div
+        role="img"
+        aria-label={alt}
+        className="h-full max-w-full bg-no-repeat"
+        style={{
+          aspectRatio: `${sheet.frameWidth} / ${sheet.frameHeight}`,
+          backgroundImage: `url(${url})`,
+          backgroundSize: `${sheet.columns * 100}% ${sheet.rows * 100}%`,
+          backgroundPosition: `${x}% ${y}%`,
+          imageRendering: "pixelated",
+          transform: flipped ? "scaleX(-1)" : undefined,
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import React from "react";
+import { cn } from "~/utils";
+import { ATTRIBUTES, type CharacterSheet } from "~/utils/character";
+
+interface CharacterHudProps {
+  character: CharacterSheet;
+  className?: string;
+}
+
+const ATTRIBUTE_LABELS: Record<(typeof ATTRIBUTES)[number], string> = {
+  strength: "STR",
+  agility: "AGI",
+  wits: "WIT",
+};
+
+export const CharacterHud: React.FC<CharacterHudProps> = ({ character, className }) => {
+  const hpPercent = Math.round((character.hp / character.maxHp) * 100);
+
+  return (
+    <div className={cn("rounded-lg bg-black/70 p-3 text-left text-xs text-white", className)}>
+      <div className="mb-2">
+        <div className="mb-1 flex justify-between font-semibold">
+          <span>HP</span>
+          <span>{character.hp}/{character.maxHp}</span>
+        </div>
+        <div className="h-2 w-full rounded bg-gray-600">
+          <div
+            className={cn("h-2 rounded", hpPercent > 50 ? "bg-green-500" : hpPercent > 20 ? "bg-yellow-400" : "bg-red-500")}
+            style={{ width: `${hpPercent}%` }}
+          />
+        </div>
+      </div>
+
+      <div className="mb-2 flex gap-3">
+        <span className="text-yellow-300">Gold {character.gold}</span>
+        {ATTRIBUTES.map((attribute) => (
+          <span key={attribute}>{ATTRIBUTE_LABELS[attribute]} {character.attributes[attribute]}</span>
+        ))}
+      </div>
+
+      <div>
+        <span className="font-semibold">Inventory: </span>
+        {character.inventory.length > 0
+          ? character.inventory.map((item) => (item.quantity > 1 ? `${item.name} x${item.quantity}` : item.name)).join(", ")
+          : <span className="text-gray-400">empty</span>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React from "react";
+import { cn } from "~/utils";
+import { GROUND_LEVEL, enemyPosition, type HazardType, type LevelLayout } from "~/utils/level";
+
+interface LevelLayerProps {
+  level: LevelLayout;
+  // Seconds since the scene started, which is where the enemies are on their patrols
+  time: number;
+  // Highlight the exit once the player has reached it
+  exitReached?: boolean;
+  className?: string;
+}
+
+const HAZARD_STYLES: Record<HazardType, string> = {
+  spikes: "bg-gray-300 [clip-path:polygon(0_100%,12.5%_0,25%_100%,37.5%_0,50%_100%,62.5%_0,75%_100%,87.5%_0,100%_100%)]",
+  fire: "bg-gradient-to-t from-red-600 to-yellow-300 animate-pulse",
+  water: "bg-blue-500/80",
+};
+
+// Platforms, pits, hazards, enemies and the exit of a scene, drawn over its background. Positions
+// are percentages of the play area (see ~/utils/level).
+export const LevelLayer: React.FC<LevelLayerProps> = ({ level, time, exitReached, className }) => {
+  return (
+    <div className={cn("pointer-events-none absolute inset-0", className)}>
+      {level.platforms.map((platform, index) => (
+        <div
+          key={`platform-${index}`}
+          className="absolute h-[3%] rounded-sm border-t-4 border-green-600 bg-amber-800/90"
+          style={{ left: `${platform.x}%`, top: `${platform.y}%`, width: `${platform.width}%` }}
+        />
+      ))}
+
+      {level.gaps.map((gap, index) => (
+        <div
+          key={`gap-${index}`}
+          className="absolute bottom-0 h-[5%] bg-black"
+          style={{ left: `${gap.x}%`, width: `${gap.width}%` }}
+        />
+      ))}
+
+      {level.hazards.map((hazard, index) => (
+        <div
+          key={`hazard-${index}`}
+          title={hazard.name ?? hazard.type}
+          className={cn("absolute bottom-0 h-[5%]", HAZARD_STYLES[hazard.type])}
+          style={{ left: `${hazard.x}%`, width: `${hazard.width}%` }}
+        />
+      ))}
+
+      {level.enemies.map((enemy, index) => (
+        <div
+          key={`enemy-${index}`}
+          title={enemy.name}
+          className="absolute h-[6%] w-[5%] rounded-t-full border-2 border-red-900 bg-red-600"
+          style={{
+            left: `${enemyPosition(enemy, time)}%`,
+            top: `${GROUND_LEVEL}%`,
+            transform: "translate(-50%, -100%)",
+          }}
+        />
+      ))}
+
+      {/* Exit: where the choice cloud appears */}
+      <div
+        className={cn(
+          "absolute h-[16%] w-[5%] rounded-t-lg border-2 border-yellow-300",
+          exitReached ? "bg-yellow-200/60" : "bg-yellow-200/20 animate-pulse"
+        )}
+        style={{
+          left: `${level.exit.x}%`,
+          top: `${Math.min(level.exit.y, GROUND_LEVEL)}%`,
+          transform: "translate(-50%, -100%)",
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React from "react";
+import { cn } from "~/utils";
+
+export interface SceneNode {
+  id: number;
+  parentId: number | null;
+  choiceText: string | null;
+  story: string;
+  isGameOver: boolean;
+  isOnActivePath: boolean;
+}
+
+interface SceneTreeProps {
+  scenes: SceneNode[];
+  activeSceneId: number | null;
+  onRewind: (sceneId: number) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export const SceneTree: React.FC<SceneTreeProps> = ({ scenes, activeSceneId, onRewind, disabled, className }) => {
+  // Group scenes by parent so each branch can be rendered under the scene it came from
+  const childrenByParent = new Map<number | null, SceneNode[]>();
+  for (const scene of scenes) {
+    const siblings = childrenByParent.get(scene.parentId) ?? [];
+    siblings.push(scene);
+    childrenByParent.set(scene.parentId, siblings);
+  }
+
+  const renderBranch = (parentId: number | null): React.ReactNode => {
+    const children = childrenByParent.get(parentId);
+    if (!children?.length) return null;
+
+    return (
+      <ul className={cn("space-y-1", parentId !== null && "ml-4 border-l border-gray-300 pl-2")}>
+        {children.map((scene) => (
+          <li key={scene.id}>
+            <div
+              className={cn(
+                "flex items-start justify-between gap-2 rounded p-1 text-xs",
+                scene.id === activeSceneId && "bg-purple-100 font-semibold",
+                !scene.isOnActivePath && "text-gray-500"
+              )}
+            >
+              <span>
+                {scene.choiceText ? <span className="italic">&ldquo;{scene.choiceText}&rdquo; &rarr; </span> : null}
+                {scene.story.substring(0, 80)}{scene.story.length > 80 ? "..." : ""}
+                {scene.isGameOver && <span className="ml-1 text-red-600">(Game Over)</span>}
+              </span>
+              {scene.id !== activeSceneId && !scene.isGameOver && (
+                <button
+                  type="button"
+                  className="shrink-0 text-blue-600 hover:underline disabled:opacity-50"
+                  onClick={() => onRewind(scene.id)}
+                  disabled={disabled}
+                >
+                  Rewind here
+                </button>
+              )}
+            </div>
+            {renderBranch(scene.id)}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <div className={cn("w-full max-w-xl rounded-lg border border-gray-300 p-3 text-left", className)}>
+      {scenes.length > 0 ? renderBranch(null) : <p className="text-xs text-gray-500">No scenes yet.</p>}
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from "react";
+import { cn } from "~/utils";
+import { Button } from "~/components/Button";
+import { DIFFICULTIES, DIFFICULTY_SETTINGS, parseDifficulty } from "~/utils/difficulty";
+import { INPUT_ACTIONS, bindKey, describeKey, type InputAction } from "~/utils/input";
+import { DEFAULT_SETTINGS, TEXT_SPEEDS, TEXT_SPEED_LABELS, type GameSettings } from "~/utils/settings";
+
+interface SettingsFormProps {
+  settings: GameSettings;
+  // Called with the changed fields whenever the player changes a setting
+  onChange: (changes: Partial<GameSettings>) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const ACTION_LABELS: Record<InputAction, string> = {
+  left: "Move left",
+  right: "Move right",
+  jump: "Jump",
+  choose1: "Choice 1",
+  choose2: "Choice 2",
+  choose3: "Choice 3",
+  choose4: "Choice 4",
+  pause: "Pause",
+};
+
+// Editor for the player's game settings. Keys are rebound by clicking "Add key" and pressing the new key.
+export const SettingsForm: React.FC<SettingsFormProps> = ({ settings, onChange, disabled, className }) => {
+  // Action waiting for the player to press the key to bind to it
+  const [listeningFor, setListeningFor] = useState<InputAction | null>(null);
+
+  useEffect(() => {
+    if (!listeningFor) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      onChange({ keyBindings: bindKey(settings.keyBindings, listeningFor, event.key) });
+      setListeningFor(null);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [listeningFor, settings.keyBindings, onChange]);
+
+  // Helper function to unbind a key, keeping at least one key on every action
+  const removeKey = (action: InputAction, key: string) => {
+    const keys = settings.keyBindings[action];
+    if (keys.length <= 1) return;
+    onChange({ keyBindings: { ...settings.keyBindings, [action]: keys.filter((bound) => bound !== key) } });
+  };
+
+  return (
+    <div className={cn("flex w-full max-w-md flex-col gap-4 text-left", className)}>
+      <div>
+        <label htmlFor="textSpeed" className="mb-1 block font-semibold text-purple-300">Text speed</label>
+        <select
+          id="textSpeed"
+          value={settings.textSpeed}
+          onChange={(e) => onChange({ textSpeed: TEXT_SPEEDS.find((speed) => speed === e.target.value) ?? DEFAULT_SETTINGS.textSpeed })}
+          className="w-full rounded bg-white/20 p-2 text-black"
+          disabled={disabled}
+        >
+          {TEXT_SPEEDS.map((speed) => (
+            <option key={speed} value={speed}>{TEXT_SPEED_LABELS[speed]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="defaultDifficulty" className="mb-1 block font-semibold text-purple-300">Default difficulty</label>
+        <select
+          id="defaultDifficulty"
+          value={settings.defaultDifficulty}
+          onChange={(e) => onChange({ defaultDifficulty: parseDifficulty(e.target.value) })}
+          className="w-full rounded bg-white/20 p-2 text-black"
+          disabled={disabled}
+        >
+          {DIFFICULTIES.map((difficulty) => (
+            <option key={difficulty} value={difficulty}>{DIFFICULTY_SETTINGS[difficulty].label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="volume" className="mb-1 block font-semibold text-purple-300">Volume: {settings.volume}%</label>
+        <input
+          id="volume"
+          type="range"
+          min={0}
+          max={100}
+          step={5}
+          value={settings.volume}
+          onChange={(e) => onChange({ volume: Number(e.target.value) })}
+          className="w-full"
+          disabled={disabled}
+        />
+      </div>
+
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={settings.reducedMotion}
+          onChange={(e) => onChange({ reducedMotion: e.target.checked })}
+          disabled={disabled}
+        />
+        <span>Reduce motion (no floating, pulsing or fading)</span>
+      </label>
+
+      <div>
+        <h4 className="mb-2 font-semibold text-purple-300">Controls</h4>
+        <ul className="flex flex-col gap-2">
+          {INPUT_ACTIONS.map((action) => (
+            <li key={action} className="flex items-center justify-between gap-2">
+              <span>{ACTION_LABELS[action]}</span>
+              <div className="flex flex-wrap items-center justify-end gap-1">
+                {settings.keyBindings[action].map((key) => (
+                  <button
+                    key={key}
+                    type="button"
+                    title="Remove key"
+                    onClick={() => removeKey(action, key)}
+                    disabled={disabled || settings.keyBindings[action].length <= 1}
+                    className="rounded bg-white/20 px-2 py-0.5 text-sm disabled:cursor-default"
+                  >
+                    {describeKey(key)}
+                  </button>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setListeningFor(listeningFor === action ? null : action)}
+                  disabled={disabled}
+                  className={cn("rounded px-2 py-0.5 text-sm", listeningFor === action ? "bg-yellow-400 text-black" : "text-purple-300 hover:text-purple-100")}
+                >
+                  {listeningFor === action ? "Press a key…" : "+ Add key"}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <Button
+        variant="secondary"
+        size="sm"
+        onClick={() => onChange({ keyBindings: DEFAULT_SETTINGS.keyBindings })}
+        disabled={disabled}
+        className="self-start"
+      >
+        Reset controls
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React from "react";
+import { cn } from "~/utils";
+import { choiceAction, type InputAction } from "~/utils/input";
+
+interface TouchControlsProps {
+  // Called when a button is pressed (down) and released
+  onAction: (action: InputAction, down: boolean) => void;
+  // Numbers of the choices that can be picked; their buttons only show while choosing
+  choiceIds: number[];
+  labels: { left: string; right: string; jump: string; pause: string };
+  className?: string;
+}
+
+// Helper function to wire a button to an action with pointer events, which work for touch and mouse alike
+const bindAction = (action: InputAction, onAction: TouchControlsProps["onAction"]) => ({
+  onPointerDown: (event: React.PointerEvent<HTMLButtonElement>) => {
+    event.preventDefault();
+    // Keep getting this pointer's events (and its release) even if the finger slides off the button
+    event.currentTarget.setPointerCapture(event.pointerId);
+    onAction(action, true);
+  },
+  onPointerUp: () => onAction(action, false),
+  onPointerCancel: () => onAction(action, false),
+  onContextMenu: (event: React.MouseEvent) => event.preventDefault(),
+});
+
+const BUTTON_CLASSES = "flex h-14 w-14 select-none items-center justify-center rounded-full bg-white/20 text-2xl text-white active:bg-white/40 touch-none";
+
+// On-screen buttons for playing on phones and tablets, only shown on touch screens
+export const TouchControls: React.FC<TouchControlsProps> = ({ onAction, choiceIds, labels, className }) => {
+  return (
+    <div className={cn("hidden w-full max-w-xl flex-col gap-3 [@media(pointer:coarse)]:flex", className)}>
+      {choiceIds.length > 0 && (
+        <div className="flex justify-center gap-3">
+          {choiceIds.map((choiceId) => {
+            const action = choiceAction(choiceId);
+            if (!action) return null;
+            return (
+              <button key={choiceId} type="button" className={BUTTON_CLASSES} {...bindAction(action, onAction)}>
+                {choiceId}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <div className="flex gap-3">
+          <button type="button" aria-label={labels.left} className={BUTTON_CLASSES} {...bindAction("left", onAction)}>
+            ◀
+          </button>
+          <button type="button" aria-label={labels.right} className={BUTTON_CLASSES} {...bindAction("right", onAction)}>
+            ▶
+          </button>
+        </div>
+        <button type="button" aria-label={labels.pause} className={cn(BUTTON_CLASSES, "h-10 w-10 text-base")} {...bindAction("pause", onAction)}>
+          ❚❚
+        </button>
+        <button type="button" aria-label={labels.jump} className={BUTTON_CLASSES} {...bindAction("jump", onAction)}>
+          ▲
+        </button>
+      </div>
+    </div>
+  );
+};
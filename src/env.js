@@ -19,6 +19,37 @@ export const env = createEnv({
       .enum(["development", "test", "production"])
       .default("development"),
     OPENAI_API_KEY: z.string().optional(),
+    // AI provider selection ("openai" or "offline"); defaults to OpenAI when a key is set
+    AI_PROVIDER: z.enum(["openai", "offline"]).optional(),
+    AI_OFFLINE_SEED: z.string().optional(),
+    // Moderation classifier ("openai", "keywords" or "off"); defaults to OpenAI when a key is set
+    MODERATION_PROVIDER: z.enum(["openai", "keywords", "off"]).optional(),
+    // What to do with flagged player input and generated scenes ("block", "soften" or "flag")
+    MODERATION_INPUT_ACTION: z.enum(["block", "soften", "flag"]).default("block"),
+    MODERATION_OUTPUT_ACTION: z.enum(["block", "soften", "flag"]).default("soften"),
+    // Quotas for the AI procedures (0 disables a quota); guests are limited per IP address, and
+    // every address has an overall quota too
+    RATE_LIMIT_STORE: z.enum(["db", "memory"]).default("db"),
+    RATE_LIMIT_USER_REQUESTS_PER_MINUTE: z.coerce.number().int().min(0).default(20),
+    RATE_LIMIT_USER_IMAGES_PER_DAY: z.coerce.number().int().min(0).default(100),
+    RATE_LIMIT_GUEST_REQUESTS_PER_MINUTE: z.coerce.number().int().min(0).default(10),
+    RATE_LIMIT_GUEST_IMAGES_PER_DAY: z.coerce.number().int().min(0).default(20),
+    // Shared by everyone (signed in or not) calling from the same IP address
+    RATE_LIMIT_IP_REQUESTS_PER_MINUTE: z.coerce.number().int().min(0).default(60),
+    RATE_LIMIT_IP_IMAGES_PER_DAY: z.coerce.number().int().min(0).default(300),
+    // Reverse proxies in front of the app that append to X-Forwarded-For (0 when it's reached directly)
+    TRUSTED_PROXY_HOPS: z.coerce.number().int().min(0).default(1),
+    // Comma-separated user ids allowed to use admin procedures (e.g. global AI usage)
+    ADMIN_USER_IDS: z.string().optional(),
+    // Where generated images are stored ("local" filesystem or an S3-compatible bucket)
+    ASSET_STORE: z.enum(["local", "s3"]).default("local"),
+    ASSET_LOCAL_DIR: z.string().optional(),
+    S3_BUCKET: z.string().optional(),
+    S3_REGION: z.string().optional(),
+    S3_ENDPOINT: z.string().url().optional(),
+    S3_ACCESS_KEY_ID: z.string().optional(),
+    S3_SECRET_ACCESS_KEY: z.string().optional(),
+    S3_PREFIX: z.string().optional(),
     // SingleStore database configuration
     DB_HOST: z.string(),
     DB_USER: z.string(),
@@ -48,6 +79,28 @@ export const env = createEnv({
     DATABASE_URL: process.env.DATABASE_URL,
     NODE_ENV: process.env.NODE_ENV,
     OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+    AI_PROVIDER: process.env.AI_PROVIDER,
+    AI_OFFLINE_SEED: process.env.AI_OFFLINE_SEED,
+    MODERATION_PROVIDER: process.env.MODERATION_PROVIDER,
+    MODERATION_INPUT_ACTION: process.env.MODERATION_INPUT_ACTION,
+    MODERATION_OUTPUT_ACTION: process.env.MODERATION_OUTPUT_ACTION,
+    RATE_LIMIT_STORE: process.env.RATE_LIMIT_STORE,
+    RATE_LIMIT_USER_REQUESTS_PER_MINUTE: process.env.RATE_LIMIT_USER_REQUESTS_PER_MINUTE,
+    RATE_LIMIT_USER_IMAGES_PER_DAY: process.env.RATE_LIMIT_USER_IMAGES_PER_DAY,
+    RATE_LIMIT_GUEST_REQUESTS_PER_MINUTE: process.env.RATE_LIMIT_GUEST_REQUESTS_PER_MINUTE,
+    RATE_LIMIT_GUEST_IMAGES_PER_DAY: process.env.RATE_LIMIT_GUEST_IMAGES_PER_DAY,
+    RATE_LIMIT_IP_REQUESTS_PER_MINUTE: process.env.RATE_LIMIT_IP_REQUESTS_PER_MINUTE,
+    RATE_LIMIT_IP_IMAGES_PER_DAY: process.env.RATE_LIMIT_IP_IMAGES_PER_DAY,
+    TRUSTED_PROXY_HOPS: process.env.TRUSTED_PROXY_HOPS,
+    ADMIN_USER_IDS: process.env.ADMIN_USER_IDS,
+    ASSET_STORE: process.env.ASSET_STORE,
+    ASSET_LOCAL_DIR: process.env.ASSET_LOCAL_DIR,
+    S3_BUCKET: process.env.S3_BUCKET,
+    S3_REGION: process.env.S3_REGION,
+    S3_ENDPOINT: process.env.S3_ENDPOINT,
+    S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID,
+    S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY,
+    S3_PREFIX: process.env.S3_PREFIX,
     // SingleStore database configuration
     DB_HOST: process.env.DB_HOST,
     DB_USER: process.env.DB_USER, 
@@ -0,0 +1,61 @@
+import OpenAI from "openai";
+import { env } from "~/env";
+import { OfflineImageProvider, OfflineStoryProvider, hashString } from "./offline";
+import { OpenAIImageProvider, OpenAIStoryProvider } from "./openai";
+import type { ImageProvider, StoryProvider } from "./types";
+
+export type * from "./types";
+export { checkIfGameOver, generateValidScene } from "./scene";
+
+/**
+ * Which provider backs story and image generation.
+ *
+ * `AI_PROVIDER` picks one explicitly; otherwise we use OpenAI when an API key is configured and
+ * fall back to the deterministic offline provider when it isn't.
+ */
+function resolveProviderName(): "openai" | "offline" {
+  if (env.AI_PROVIDER) return env.AI_PROVIDER;
+  return env.OPENAI_API_KEY ? "openai" : "offline";
+}
+
+let storyProvider: StoryProvider | undefined;
+let imageProvider: ImageProvider | undefined;
+let openaiClient: OpenAI | undefined;
+
+// Shared with the moderation layer, which uses the same API key
+export const getOpenAIClient = () =>
+  (openaiClient ??= new OpenAI({ apiKey: env.OPENAI_API_KEY }));
+
+const getOfflineSeed = () => hashString(env.AI_OFFLINE_SEED ?? "threads-of-destiny");
+
+export function getStoryProvider(): StoryProvider {
+  if (!storyProvider) {
+    const name = resolveProviderName();
+    storyProvider = name === "openai"
+      ? new OpenAIStoryProvider(getOpenAIClient())
+      : new OfflineStoryProvider(getOfflineSeed());
+    console.log(`[AI] Using ${storyProvider.name} story provider`);
+  }
+  return storyProvider;
+}
+
+export function getImageProvider(): ImageProvider {
+  if (!imageProvider) {
+    const name = resolveProviderName();
+    imageProvider = name === "openai"
+      ? new OpenAIImageProvider(getOpenAIClient())
+      : new OfflineImageProvider(getOfflineSeed());
+    console.log(`[AI] Using ${imageProvider.name} image provider`);
+  }
+  return imageProvider;
+}
+
+let fallbackStoryProvider: StoryProvider | undefined;
+let fallbackImageProvider: ImageProvider | undefined;
+
+// Offline providers used when the configured provider fails, so the player still gets a playable scene
+export const getFallbackStoryProvider = (): StoryProvider =>
+  (fallbackStoryProvider ??= new OfflineStoryProvider(getOfflineSeed()));
+
+export const getFallbackImageProvider = (): ImageProvider =>
+  (fallbackImageProvider ??= new OfflineImageProvider(getOfflineSeed()));
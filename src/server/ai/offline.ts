@@ -0,0 +1,265 @@
+import { getLanguageSettings } from "~/utils/language";
+import { createLevelLayout } from "~/utils/level";
+import { SPRITE_ANIMATIONS, SPRITE_SHEET_COLUMNS, type SpriteAnimation } from "~/utils/sprite";
+import type {
+  AIStoryResponse,
+  ImageProvider,
+  ImageRequest,
+  ImageResult,
+  StateChanges,
+  StoryCompletion,
+  StoryProvider,
+  StoryRequest,
+} from "./types";
+
+// Offline providers used for development and demos without API keys. Output
+// is a pure function of the configured seed and the request, so the same
+// adventure can be replayed (and bugs reproduced) run after run.
+
+const OFFLINE_MODEL = "offline";
+
+// Size of and delay between streamed chunks, roughly imitating a real model
+const STREAM_CHUNK_SIZE = 8;
+const STREAM_CHUNK_DELAY_MS = 15;
+
+// Default odds that a generated scene kills the player, so game-over flows can be tested offline
+const DEATH_CHANCE = 0.08;
+const DEFAULT_CHOICE_COUNT = 3;
+// Odds of a victorious ending once the player has survived VICTORY_MIN_SCENES scenes
+const VICTORY_CHANCE = 0.1;
+const VICTORY_MIN_SCENES = 6;
+// Odds that a scene after a choice also changes the character sheet
+const OUTCOME_CHANCE = 0.5;
+// Size of one frame of the offline sprite sheet
+const SPRITE_FRAME_SIZE = 128;
+
+// cyrb53 string hash - small, fast and good enough for seeding
+export function hashString(value: string, seed = 0): number {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+// mulberry32 PRNG - returns a function yielding floats in [0, 1)
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(random: () => number, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)]!;
+}
+
+const PLACES = [
+  "a crumbling watchtower",
+  "a mist-covered bridge",
+  "a bustling market square",
+  "an abandoned mine shaft",
+  "a moonlit forest clearing",
+  "a flooded underground hall",
+  "a windswept cliff path",
+  "a forgotten library",
+] as const;
+
+const EVENTS = [
+  "A low rumble shakes the ground beneath your feet.",
+  "A hooded stranger watches you from the shadows.",
+  "You spot a glint of something valuable half-buried nearby.",
+  "A distant bell starts ringing, then stops abruptly.",
+  "The air grows cold and you hear footsteps behind you.",
+  "A narrow path splits off, marked with strange symbols.",
+] as const;
+
+const ACTIONS = [
+  "Investigate the noise",
+  "Follow the hidden path",
+  "Talk to the stranger",
+  "Search for supplies",
+  "Climb to higher ground",
+  "Hide and wait",
+  "Press on quickly",
+  "Set up camp for the night",
+  "Examine the strange symbols",
+  "Turn back the way you came",
+] as const;
+
+const OUTCOMES: ReadonlyArray<{ text: string; stateChanges: StateChanges }> = [
+  { text: "You find a few coins on the ground.", stateChanges: { gold: 5 } },
+  { text: "You scrape your arm on a jagged rock.", stateChanges: { hp: -1 } },
+  { text: "Something lashes out of the dark and wounds you badly.", stateChanges: { hp: -3 } },
+  { text: "You find a healing herb and feel much better.", stateChanges: { hp: 2 } },
+  { text: "You pick up a rusty key.", stateChanges: { addItems: [{ name: "Rusty key", quantity: 1 }] } },
+  { text: "You pack a torch for the road ahead.", stateChanges: { addItems: [{ name: "Torch", quantity: 1 }] } },
+  { text: "Solving the riddle sharpens your mind.", stateChanges: { attributes: { wits: 1 } } },
+];
+
+const DEATHS = [
+  "The floor gives way and you tumble into the darkness below.",
+  "You step on a pressure plate and the ceiling comes crashing down.",
+  "The stranger was a trap all along, and your journey ends here.",
+] as const;
+
+export class OfflineStoryProvider implements StoryProvider {
+  readonly name = "offline";
+
+  constructor(private readonly seed: number) {}
+
+  async generateStory(request: StoryRequest): Promise<StoryCompletion> {
+    const sceneNumber = request.messages.filter(m => m.role === "assistant").length + 1;
+    const random = createRandom(
+      hashString(
+        request.messages.map(m => `${m.role}:${m.content}`).join("\n") + (request.choice ?? ""),
+        this.seed
+      )
+    );
+    const theme = request.theme ?? "adventure";
+    const hero = request.spriteDescription ?? "a brave adventurer";
+    const place = pick(random, PLACES);
+
+    // Never kill the player in the opening scene
+    const dies = !!request.choice && random() < (request.deathChance ?? DEATH_CHANCE);
+    const wins = !dies && sceneNumber >= VICTORY_MIN_SCENES && random() < VICTORY_CHANCE;
+
+    let response: AIStoryResponse;
+    if (dies) {
+      const death = pick(random, DEATHS);
+      // Stories are always English, but the game-over choices follow the player's language
+      const { gameOverChoice } = getLanguageSettings(request.language).text;
+      response = {
+        story: `${request.choice ? `You decide to ${request.choice.toLowerCase()}. ` : ""}${death}`,
+        choices: [1, 2, 3].map((id) => ({ id, text: `${gameOverChoice}!` })),
+        backgroundDescription: `A dark and gloomy ${theme} scene at ${place}.`,
+        ending: { type: "death", reason: death },
+        isGameOver: true,
+      };
+    } else if (wins) {
+      response = {
+        story: `At ${place} you finally find what you were searching for. Your ${theme} adventure ends in triumph.`,
+        choices: [
+          { id: 1, text: "Celebrate your victory" },
+          { id: 2, text: "Head home a hero" },
+        ],
+        backgroundDescription: `${place} in a ${theme} world, bathed in golden light`,
+        ending: { type: "victory", reason: "You completed your quest." },
+        isGameOver: true,
+      };
+    } else {
+      const opening = request.choice
+        ? `You decide to ${request.choice.toLowerCase()}. Your path leads you to ${place}.`
+        : `Your ${theme} adventure begins at ${place}, where you arrive as ${hero}.`;
+
+      // Pick distinct actions
+      const actions = [...ACTIONS];
+      const choiceCount = Math.min(request.choiceCount ?? DEFAULT_CHOICE_COUNT, actions.length);
+      const choices = Array.from({ length: choiceCount }, (_, index) => {
+        const [text] = actions.splice(Math.floor(random() * actions.length), 1);
+        return { id: index + 1, text: text! };
+      });
+
+      // Scenes after a choice sometimes hurt, heal or reward the character
+      const outcome = request.choice && random() < OUTCOME_CHANCE ? pick(random, OUTCOMES) : undefined;
+
+      response = {
+        story: `${opening} ${pick(random, EVENTS)}${outcome ? ` ${outcome.text}` : ""}`,
+        choices,
+        backgroundDescription: `${place} in a ${theme} world, scene ${sceneNumber}`,
+        stateChanges: outcome?.stateChanges,
+        level: createLevelLayout(random),
+        isGameOver: false,
+      };
+    }
+
+    return {
+      content: JSON.stringify({
+        story: response.story,
+        choices: response.choices,
+        backgroundDescription: response.backgroundDescription,
+        ending: response.ending,
+        stateChanges: response.stateChanges,
+        level: response.level,
+      }),
+      model: OFFLINE_MODEL,
+    };
+  }
+
+  async *streamStory(request: StoryRequest): AsyncGenerator<string, StoryCompletion> {
+    const completion = await this.generateStory(request);
+    for (let i = 0; i < completion.content.length; i += STREAM_CHUNK_SIZE) {
+      await new Promise((resolve) => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+      yield completion.content.substring(i, i + STREAM_CHUNK_SIZE);
+    }
+    return completion;
+  }
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+}
+
+function toDataUrl(svg: string): string {
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`;
+}
+
+// Helper function to draw one frame of the offline sprite: a simple figure that bobs when idle,
+// swings its legs when walking and rises when jumping
+function spriteFrame(animation: SpriteAnimation, frame: number, hue: number): string {
+  const lift = animation === "jump" ? [4, 16, 16, 4][frame]! : animation === "idle" ? frame % 2 : 0;
+  const stride = animation === "walk" ? [-8, 0, 8, 0][frame]! : 0;
+  const legLength = animation === "jump" ? 18 : 26;
+  return `<g transform="translate(${frame * SPRITE_FRAME_SIZE},${SPRITE_ANIMATIONS.indexOf(animation) * SPRITE_FRAME_SIZE - lift})">` +
+    `<circle cx="64" cy="30" r="18" fill="hsl(${hue},60%,70%)"/>` +
+    `<rect x="44" y="50" width="40" height="46" rx="6" fill="hsl(${hue},60%,45%)"/>` +
+    `<rect x="${46 + stride}" y="96" width="14" height="${legLength}" fill="hsl(${hue},40%,30%)"/>` +
+    `<rect x="${68 - stride}" y="96" width="14" height="${legLength}" fill="hsl(${hue},40%,30%)"/>` +
+    `</g>`;
+}
+
+export class OfflineImageProvider implements ImageProvider {
+  readonly name = "offline";
+
+  constructor(private readonly seed: number) {}
+
+  async generateImage(request: ImageRequest): Promise<ImageResult> {
+    const random = createRandom(hashString(`${request.kind}:${request.prompt}`, this.seed));
+    const hue = Math.floor(random() * 360);
+    const label = escapeXml(request.prompt.substring(0, 60));
+
+    const sheetWidth = SPRITE_SHEET_COLUMNS * SPRITE_FRAME_SIZE;
+    const sheetHeight = SPRITE_ANIMATIONS.length * SPRITE_FRAME_SIZE;
+    const svg = request.kind === "sprite"
+      ? // Sprite sheet (a row per animation) on a transparent background
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${sheetWidth}" height="${sheetHeight}" viewBox="0 0 ${sheetWidth} ${sheetHeight}">` +
+        SPRITE_ANIMATIONS.flatMap((animation) =>
+          Array.from({ length: SPRITE_SHEET_COLUMNS }, (_, frame) => spriteFrame(animation, frame, hue))
+        ).join("") +
+        `<title>${label}</title></svg>`
+      : // Sky gradient with a path running left to right
+        `<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="576" viewBox="0 0 1024 576">` +
+        `<defs><linearGradient id="sky" x1="0" y1="0" x2="0" y2="1">` +
+        `<stop offset="0" stop-color="hsl(${hue},55%,35%)"/><stop offset="1" stop-color="hsl(${(hue + 40) % 360},60%,75%)"/>` +
+        `</linearGradient></defs>` +
+        `<rect width="1024" height="576" fill="url(#sky)"/>` +
+        `<rect y="460" width="1024" height="116" fill="hsl(${(hue + 180) % 360},30%,30%)"/>` +
+        `<text x="24" y="48" font-family="monospace" font-size="22" fill="white" opacity="0.7">${label}</text>` +
+        `</svg>`;
+
+    return {
+      url: toDataUrl(svg),
+      model: OFFLINE_MODEL,
+      size: request.kind === "sprite" ? `${sheetWidth}x${sheetHeight}` : "1024x576",
+    };
+  }
+}
@@ -0,0 +1,113 @@
+import OpenAI from "openai";
+import type {
+  ImageProvider,
+  ImageRequest,
+  ImageResult,
+  StoryCompletion,
+  StoryProvider,
+  StoryRequest,
+} from "./types";
+
+const STORY_MODEL = "gpt-3.5-turbo";
+const IMAGE_MODEL = "dall-e-3";
+const IMAGE_SIZE = "1024x1024";
+
+export class OpenAIStoryProvider implements StoryProvider {
+  readonly name = "openai";
+
+  constructor(private readonly client: OpenAI) {}
+
+  async generateStory(request: StoryRequest): Promise<StoryCompletion> {
+    console.log(`About to call OpenAI API with model: ${STORY_MODEL}`);
+    console.log("Messages structure:", JSON.stringify(request.messages.map(m => ({
+      role: m.role,
+      contentLength: m.content.length
+    }))));
+
+    const response = await this.client.chat.completions.create({
+      model: STORY_MODEL,
+      messages: request.messages,
+      response_format: { type: "json_object" }, // Request JSON response
+    });
+
+    console.log("OpenAI API response received:", {
+      id: response.id,
+      model: response.model,
+      choicesCount: response.choices.length,
+      firstChoiceContent: response.choices[0]?.message?.content?.substring(0, 100) + "..."
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error("AI response content is missing or empty.");
+    }
+
+    return {
+      content,
+      model: response.model,
+      usage: response.usage
+        ? {
+            promptTokens: response.usage.prompt_tokens,
+            completionTokens: response.usage.completion_tokens,
+          }
+        : undefined,
+    };
+  }
+
+  async *streamStory(request: StoryRequest): AsyncGenerator<string, StoryCompletion> {
+    console.log(`About to stream from OpenAI API with model: ${STORY_MODEL}`);
+
+    const stream = await this.client.chat.completions.create({
+      model: STORY_MODEL,
+      messages: request.messages,
+      response_format: { type: "json_object" },
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+
+    let content = "";
+    let model: string = STORY_MODEL;
+    let usage: StoryCompletion["usage"];
+    for await (const chunk of stream) {
+      model = chunk.model;
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+        };
+      }
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        yield delta;
+      }
+    }
+
+    if (!content) {
+      throw new Error("AI response content is missing or empty.");
+    }
+    return { content, model, usage };
+  }
+}
+
+export class OpenAIImageProvider implements ImageProvider {
+  readonly name = "openai";
+
+  constructor(private readonly client: OpenAI) {}
+
+  async generateImage(request: ImageRequest): Promise<ImageResult> {
+    const response = await this.client.images.generate({
+      model: IMAGE_MODEL,
+      prompt: request.prompt,
+      n: 1,
+      size: IMAGE_SIZE,
+    });
+
+    const imageUrl = response.data?.[0]?.url;
+    if (!imageUrl) {
+      throw new Error("Failed to generate image");
+    }
+
+    return { url: imageUrl, model: IMAGE_MODEL, size: IMAGE_SIZE };
+  }
+}
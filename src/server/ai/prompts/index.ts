@@ -0,0 +1,37 @@
+import { PROMPT_OVERRIDES } from "./overrides";
+import { DEFAULT_TEMPLATES } from "./templates";
+import type { PromptContext, PromptId, PromptTemplate, PromptVariables, RenderedPrompt } from "./types";
+
+export type * from "./types";
+
+// How specific an override is for a context, or -1 if it doesn't apply
+function overrideScore(override: { theme?: RegExp; difficulty?: string }, context: PromptContext): number {
+  if (override.theme && !(context.theme && override.theme.test(context.theme))) return -1;
+  if (override.difficulty && override.difficulty !== context.difficulty) return -1;
+  return (override.theme ? 1 : 0) + (override.difficulty ? 1 : 0);
+}
+
+// The template to use for a prompt in a game with this theme and difficulty
+export function getPromptTemplate<Id extends PromptId>(id: Id, context: PromptContext = {}): PromptTemplate<Id> {
+  let best: { template: PromptTemplate<Id>; score: number } | undefined;
+  for (const override of PROMPT_OVERRIDES[id] ?? []) {
+    const score = overrideScore(override, context);
+    if (score >= 0 && (!best || score > best.score)) {
+      best = { template: override.template, score };
+    }
+  }
+  return best?.template ?? DEFAULT_TEMPLATES[id];
+}
+
+// Identifies the exact wording a template produces, e.g. "next-scene@2" or "narrator@1:sci-fi"
+export const templateVersion = (template: Pick<PromptTemplate<PromptId>, "id" | "version" | "variant">): string =>
+  `${template.id}@${template.version}${template.variant ? `:${template.variant}` : ""}`;
+
+export function renderPrompt<Id extends PromptId>(
+  id: Id,
+  variables: PromptVariables[Id],
+  context: PromptContext = {}
+): RenderedPrompt {
+  const template = getPromptTemplate(id, context);
+  return { text: template.render(variables), version: templateVersion(template) };
+}
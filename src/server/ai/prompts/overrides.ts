@@ -0,0 +1,45 @@
+import { DEFAULT_TEMPLATES } from "./templates";
+import type { PromptOverrides } from "./types";
+
+const SCI_FI_THEME = /\b(space|sci-?fi|science fiction|galax\w*|robots?|cyberpunk|aliens?|starships?)\b/i;
+
+/**
+ * Templates used instead of the defaults for some themes or difficulties. When several match, the
+ * most specific one (theme and difficulty) wins, then the first in its list.
+ */
+export const PROMPT_OVERRIDES: PromptOverrides = {
+  narrator: [
+    {
+      theme: SCI_FI_THEME,
+      template: {
+        id: "narrator",
+        version: 2,
+        variant: "sci-fi",
+        render: (variables) =>
+          `${DEFAULT_TEMPLATES.narrator.render(variables)} Narrate like a starship's log: technology, strange planets and alien life should feel plausible, and avoid magic unless the player brings it in.`,
+      },
+    },
+    {
+      difficulty: "story",
+      template: {
+        id: "narrator",
+        version: 2,
+        variant: "story",
+        render: (variables) =>
+          `${DEFAULT_TEMPLATES.narrator.render(variables)} Keep the tone warm and encouraging, suitable for younger players.`,
+      },
+    },
+  ],
+  background: [
+    {
+      theme: SCI_FI_THEME,
+      template: {
+        id: "background",
+        version: 2,
+        variant: "sci-fi",
+        render: ({ description, layout }) =>
+          `${description}, retro 16-bit science fiction style as if it was the background of a video game, with a path going from left to right with ${layout}`,
+      },
+    },
+  ],
+};
@@ -0,0 +1,79 @@
+import type { PromptId, PromptTemplate } from "./types";
+
+// Default wording of every prompt. Change a template's text only together with its version.
+export const DEFAULT_TEMPLATES: { [Id in PromptId]: PromptTemplate<Id> } = {
+  narrator: {
+    id: "narrator",
+    version: 2,
+    render: ({ choiceCount, lethality, languageName, gameOverChoice }) =>
+      `You are a choose-your-own-adventure game master. Generate engaging story segments with ${choiceCount} choices for the player. For each response, provide a JSON object with three fields: 'story' (the current narrative), 'choices' (an array of options each with 'id' and 'text'), and 'backgroundDescription' (a detailed description for image generation). If the player dies, all of the choices in the json object should be '${gameOverChoice}!'. The player has a character sheet with health (HP), gold, strength, agility, wits and an inventory: injuries should cost HP, found items and gold should be added, and choices can make use of what the character carries. ${lethality} Write the story and the choices in ${languageName}, but always write 'backgroundDescription' in English.`,
+  },
+
+  "opening-scene": {
+    id: "opening-scene",
+    version: 1,
+    render: ({ theme, spriteDescription }) =>
+      `I want to play a ${theme} adventure with a character described as: ${spriteDescription}.`,
+  },
+
+  "next-scene": {
+    id: "next-scene",
+    version: 4,
+    render: ({ choiceCount, languageName, previousStory, character }) =>
+      `Generate the next part of the story${previousStory ? " following from: " + previousStory : ""}.${character ? ` My character: ${character}` : ""} Include a vivid scene description, what happens next, and ${choiceCount} choices for me. Return your response as a valid JSON object with these fields: "story" (the narrative text), "choices" (array of ${choiceCount} options with unique numeric "id" and "text" fields), "backgroundDescription" (a detailed visual description of the current scene for image generation), "stateChanges" (only if this scene changes the character: an object with optional "hp" and "gold" as relative changes such as -2, "attributes" with relative "strength", "agility" or "wits" changes of at most 2, and "addItems"/"removeItems" arrays of objects with "name" and "quantity"), "level" (a short platforming layout that matches the scene, on a grid where x goes from 0 on the left to 100 on the right and y is measured down from the top with the ground at 100: "platforms" as an array of objects with "x", "y" and "width", "gaps" (pits in the ground) as an array of objects with "x", "width" and "name", "hazards" on the ground as an array of objects with "x", "width", "type" set to "spikes", "fire" or "water" and "name", "enemies" patrolling the ground as an array of objects with "x", "range" (how far they walk to the right and back) and "name", and "exit" (an object with "x" and "y") where the path continues; make the dangers of the scene its pits, hazards and enemies, each "name" saying what it is in the story, such as "the lava moat"), and, only if the adventure ends in this scene, "ending" (an object with "type" set to "death" or "victory" and a short "reason"). Write "story", the choice texts, the level names and the ending "reason" in ${languageName}.`,
+  },
+
+  "scene-repair": {
+    id: "scene-repair",
+    version: 1,
+    render: ({ error, choiceCount }) =>
+      `Your previous response was invalid: ${error}. Reply again with only a valid JSON object with the fields "story", "choices" (${choiceCount} options, each with a unique numeric "id" and a "text") and "backgroundDescription".`,
+  },
+
+  "game-recap": {
+    id: "game-recap",
+    version: 2,
+    render: ({ theme, spriteDescription, difficultyLabel, reason, journey, decisiveChoice, tipCount, languageName }) =>
+      `You are the narrator of a choose-your-own-adventure game that has just ended. The player went on a ${theme} adventure as "${spriteDescription}" on ${difficultyLabel} difficulty. Their journey, scene by scene:
+
+${journey}
+
+The adventure ended because: ${reason}
+The last choice they made was: ${decisiveChoice}
+
+Return your response as a valid JSON object with these fields: "recap" (a narrative recap of the journey addressed to the player, at most 120 words), "decisiveChoice" (one or two sentences on how that choice led to the ending) and "tips" (an array of ${tipCount} short tips for doing better next time, based on what actually happened). Write all of them in ${languageName}.`,
+  },
+
+  "game-report": {
+    id: "game-report",
+    version: 2,
+    render: ({ finalScore, difficultyLabel, scoreMultiplier, theme, spriteDescription, reason, tip, text }) => `# ${text.title}
+
+${text.finalScore}: ${finalScore}
+${text.difficulty}: ${difficultyLabel} (${text.scoreMultiplier(scoreMultiplier)})
+
+${text.playedAs(spriteDescription, theme)}
+
+${text.endedBecause}: ${reason}
+
+${finalScore > 10 ? text.goodScore : text.badScore}
+
+${tip}
+`,
+  },
+
+  // Row order must match SPRITE_ANIMATIONS in ~/utils/sprite
+  sprite: {
+    id: "sprite",
+    version: 2,
+    render: ({ description, columns, rows }) =>
+      `Retro sprite sheet for a 2D platformer character: ${description}. A grid of ${columns} columns and ${rows} rows of equally sized frames of the same character seen from the side, facing right: the first row standing idle, the second row walking, the third row jumping. Plain solid white background, no text, no shadows, no grid lines, retro style`,
+  },
+
+  background: {
+    id: "background",
+    version: 2,
+    render: ({ description, layout }) =>
+      `${description}, retro style as if it was the background of a video game, with a path going from left to right with ${layout}`,
+  },
+};
@@ -0,0 +1,78 @@
+import type { Difficulty } from "~/utils/difficulty";
+import type { ReportText } from "~/utils/language";
+
+// Variables each prompt template is rendered with
+export interface PromptVariables {
+  // System prompt for the narrator, sent once at the start of every conversation
+  narrator: { choiceCount: number; lethality: string; languageName: string; gameOverChoice: string };
+  // The player's setup, sent after the narrator prompt
+  "opening-scene": { theme: string; spriteDescription: string };
+  // Request for the next scene, sent after the player's choice (if any)
+  "next-scene": { choiceCount: number; languageName: string; previousStory?: string; character?: string };
+  // Sent back to the model when its scene failed validation
+  "scene-repair": { error: string; choiceCount: number };
+  // Request for an AI-written recap of a finished adventure, built from its scene history
+  "game-recap": {
+    theme: string;
+    spriteDescription: string;
+    difficultyLabel: string;
+    reason: string;
+    journey: string;
+    decisiveChoice: string;
+    tipCount: number;
+    languageName: string;
+  };
+  // End-of-game report shown to the player when no recap can be written (offline fallback)
+  "game-report": {
+    finalScore: number;
+    difficultyLabel: string;
+    scoreMultiplier: number;
+    theme: string;
+    spriteDescription: string;
+    reason: string;
+    tip: string;
+    // Headings and sentences in the player's language
+    text: ReportText;
+  };
+  // Image prompts
+  sprite: { description: string; columns: number; rows: number };
+  background: {
+    description: string;
+    // Where the platforms, pits and hazards are, see describeLevelLayout in ~/utils/level
+    layout: string;
+  };
+}
+
+export type PromptId = keyof PromptVariables;
+
+export interface PromptTemplate<Id extends PromptId> {
+  id: Id;
+  // Bump whenever the wording changes, so scenes can be traced back to the prompt that made them
+  version: number;
+  // Name of the override this template belongs to, if it isn't the default
+  variant?: string;
+  render: (variables: PromptVariables[Id]) => string;
+}
+
+// What a template can be overridden for
+export interface PromptContext {
+  theme?: string;
+  difficulty?: Difficulty;
+}
+
+export interface PromptOverride<Id extends PromptId> {
+  template: PromptTemplate<Id>;
+  // Applies to themes matching this pattern
+  theme?: RegExp;
+  // Applies to games on this difficulty
+  difficulty?: Difficulty;
+}
+
+// Overrides of each template, by prompt id
+export type PromptOverrides = { [Id in PromptId]?: PromptOverride<Id>[] };
+
+export interface RenderedPrompt {
+  text: string;
+  // e.g. "next-scene@2" or "narrator@1:sci-fi"
+  version: string;
+}
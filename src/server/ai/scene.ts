@@ -0,0 +1,215 @@
+import { z } from "zod";
+import { stateChangesSchema } from "~/utils/character";
+import { getLanguageSettings, isGameOverText, type Language } from "~/utils/language";
+import { createLevelLayout, levelLayoutSchema, normalizeLevelLayout } from "~/utils/level";
+import { createRandom, hashString } from "./offline";
+import { renderPrompt } from "./prompts";
+import type { AIStoryResponse, StoryCompletion, StoryMessage, StoryProvider, StoryRequest } from "./types";
+
+// Number of choices the game UI shows; longer lists from the model are trimmed to this
+const DEFAULT_MAX_CHOICES = 3;
+
+// How many times the model is re-prompted with the validation error before giving up
+const MAX_REPAIR_ATTEMPTS = 2;
+
+export const sceneChoiceSchema = z.object({
+  id: z.number().int().positive(),
+  text: z.string().trim().min(1),
+});
+
+export const sceneEndingSchema = z.object({
+  type: z.enum(["death", "victory"]),
+  reason: z.string().optional(),
+});
+
+/** Shape every generated scene must have, whichever provider produced it. */
+export const sceneResponseSchema = z.object({
+  story: z.string().trim().min(1),
+  choices: z
+    .array(sceneChoiceSchema)
+    .min(2)
+    .max(4)
+    .refine(
+      (choices) => new Set(choices.map((choice) => choice.id)).size === choices.length,
+      { message: "Choice ids must be unique" }
+    ),
+  backgroundDescription: z.string().trim().min(1),
+  ending: sceneEndingSchema.optional(),
+  stateChanges: stateChangesSchema.optional(),
+  level: levelLayoutSchema.optional(),
+});
+
+export type SceneResponse = z.infer<typeof sceneResponseSchema>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Fix the defects models commonly produce before validating: choices given as plain strings or with
+ * the text under another key, ids given as strings, missing or duplicate ids, and more choices than
+ * the game can show. Anything it can't make sense of is left for the schema to reject.
+ */
+export function repairSceneResponse(raw: unknown, maxChoices = DEFAULT_MAX_CHOICES): unknown {
+  if (!isRecord(raw)) return raw;
+  const repaired: Record<string, unknown> = { ...raw };
+
+  if (Array.isArray(raw.choices)) {
+    const choices = raw.choices
+      .map((choice: unknown) => {
+        if (typeof choice === "string") return { id: undefined, text: choice };
+        if (!isRecord(choice)) return choice;
+        const text = choice.text ?? choice.label ?? choice.option ?? choice.description;
+        const id = typeof choice.id === "string" && /^\d+$/.test(choice.id.trim())
+          ? Number(choice.id.trim())
+          : choice.id;
+        return { ...choice, id, text };
+      })
+      .slice(0, maxChoices);
+
+    // Renumber 1..n when ids are missing, non-numeric or repeated
+    const ids = choices.map((choice) => (isRecord(choice) ? choice.id : undefined));
+    const idsValid = ids.every((id) => typeof id === "number" && Number.isInteger(id) && id > 0) &&
+      new Set(ids).size === ids.length;
+    repaired.choices = idsValid
+      ? choices
+      : choices.map((choice, index) => (isRecord(choice) ? { ...choice, id: index + 1 } : choice));
+  }
+
+  if (typeof raw.ending === "string") {
+    repaired.ending = raw.ending === "death" || raw.ending === "victory" ? { type: raw.ending } : undefined;
+  } else if (raw.ending === null) {
+    repaired.ending = undefined;
+  }
+
+  // State changes are a bonus: drop ones that don't validate rather than rejecting the whole scene
+  if (raw.stateChanges !== undefined && !stateChangesSchema.safeParse(raw.stateChanges).success) {
+    if (raw.stateChanges !== null) console.warn("Dropping invalid stateChanges:", raw.stateChanges);
+    repaired.stateChanges = undefined;
+  }
+
+  // Same for the level layout; toStoryResponse lays out scenes without one
+  if (raw.level !== undefined && !levelLayoutSchema.safeParse(raw.level).success) {
+    if (raw.level !== null) console.warn("Dropping invalid level layout:", raw.level);
+    repaired.level = undefined;
+  }
+
+  return repaired;
+}
+
+export type SceneParseResult =
+  | { success: true; data: SceneResponse }
+  | { success: false; error: string };
+
+// Parse, repair and validate the raw JSON text a provider returned for a scene
+export function parseSceneResponse(content: string, maxChoices = DEFAULT_MAX_CHOICES): SceneParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    return { success: false, error: `Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  const result = sceneResponseSchema.safeParse(repairSceneResponse(raw, maxChoices));
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".") || "response"}: ${issue.message}`)
+      .join("; ");
+    return { success: false, error: issues };
+  }
+  return { success: true, data: result.data };
+}
+
+// Helper function to check if all choices indicate a game over (in the story's language or English)
+export function checkIfGameOver(choices: Array<{ id: number; text: string }>, language?: Language): boolean {
+  return choices.length > 0 &&
+    choices.every(choice =>
+      isGameOverText(choice.text, language)
+    );
+}
+
+/**
+ * Top up a scene with fewer choices than the game shows using the language's generic choices, with
+ * ids the scene doesn't use yet. The padded choices are stored with the scene like the model's own,
+ * so picking one is a valid choice.
+ */
+export function padChoices(
+  choices: Array<{ id: number; text: string }>,
+  count: number,
+  language?: Language
+): Array<{ id: number; text: string }> {
+  const { text } = getLanguageSettings(language);
+  const result = [...choices];
+  const usedIds = new Set(result.map((choice) => choice.id));
+  let fallbackIndex = 0;
+
+  while (result.length < count) {
+    let id = 1;
+    while (usedIds.has(id)) id++;
+    const fallbackText = text.defaultChoices[fallbackIndex++] ?? text.option(id);
+    result.push({ id, text: fallbackText });
+    usedIds.add(id);
+  }
+  return result;
+}
+
+export function toStoryResponse(scene: SceneResponse, language?: Language, choiceCount?: number): AIStoryResponse {
+  const isGameOver = scene.ending !== undefined || checkIfGameOver(scene.choices, language);
+  return {
+    ...scene,
+    // Game over scenes keep their choices as they are; they can't be picked anyway
+    choices: choiceCount && !isGameOver ? padChoices(scene.choices, choiceCount, language) : scene.choices,
+    // Make the narrator's layout playable, or lay the scene out from its story when there is none
+    level: scene.level
+      ? normalizeLevelLayout(scene.level)
+      : createLevelLayout(createRandom(hashString(scene.story))),
+    // Any ending (death or victory) finishes the adventure
+    isGameOver,
+  };
+}
+
+const repairMessage = (error: string, choiceCount: number): StoryMessage => ({
+  role: "user",
+  content: renderPrompt("scene-repair", { error, choiceCount }).text,
+});
+
+/**
+ * Request a scene from a provider and validate it, re-prompting the model with the validation error
+ * up to MAX_REPAIR_ATTEMPTS times. Throws when no valid scene could be produced.
+ *
+ * `firstContent` lets callers that already have a response (e.g. from a stream) start by
+ * validating it instead of making a new request. `onCompletion` is called with every completion
+ * this function requests, e.g. to record token usage.
+ */
+export async function generateValidScene(
+  provider: StoryProvider,
+  request: StoryRequest,
+  options: {
+    firstContent?: string;
+    maxChoices?: number;
+    onCompletion?: (completion: StoryCompletion) => Promise<void>;
+  } = {}
+): Promise<AIStoryResponse> {
+  const messages = [...request.messages];
+  const choiceCount = request.choiceCount ?? options.maxChoices ?? DEFAULT_MAX_CHOICES;
+  const complete = async (storyRequest: StoryRequest) => {
+    const completion = await provider.generateStory(storyRequest);
+    await options.onCompletion?.(completion);
+    return completion.content;
+  };
+  let content = options.firstContent ?? (await complete(request));
+
+  for (let attempt = 0; ; attempt++) {
+    const result = parseSceneResponse(content, options.maxChoices);
+    if (result.success) {
+      return toStoryResponse(result.data, request.language, choiceCount);
+    }
+
+    console.warn(`Invalid scene from ${provider.name} (attempt ${attempt + 1}): ${result.error}`);
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      throw new Error(`Invalid response format from AI: ${result.error}`);
+    }
+
+    messages.push({ role: "assistant", content }, repairMessage(result.error, choiceCount));
+    content = await complete({ ...request, messages });
+  }
+}
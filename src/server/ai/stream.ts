@@ -0,0 +1,68 @@
+/**
+ * Incrementally pulls the value of the top-level "story" string out of a JSON object that is still
+ * being streamed, so story text can be shown while the rest of the scene (choices, background) is
+ * being generated.
+ *
+ * Call `push` with each new chunk; it returns the newly decoded story text (possibly empty).
+ */
+export function createStoryFieldExtractor() {
+  let buffer = "";
+  // Index in `buffer` where the story string's contents start, once found
+  let valueStart = -1;
+  // Index of the next unread character of the story string
+  let cursor = -1;
+  let done = false;
+
+  const ESCAPES: Record<string, string> = {
+    '"': '"',
+    "\\": "\\",
+    "/": "/",
+    b: "\b",
+    f: "\f",
+    n: "\n",
+    r: "\r",
+    t: "\t",
+  };
+
+  return {
+    push(chunk: string): string {
+      buffer += chunk;
+      if (done) return "";
+
+      if (valueStart === -1) {
+        const match = /"story"\s*:\s*"/.exec(buffer);
+        if (!match) return "";
+        valueStart = match.index + match[0].length;
+        cursor = valueStart;
+      }
+
+      let output = "";
+      while (cursor < buffer.length) {
+        const ch = buffer[cursor]!;
+        if (ch === '"') {
+          done = true;
+          break;
+        }
+        if (ch !== "\\") {
+          output += ch;
+          cursor++;
+          continue;
+        }
+
+        // Escape sequence - wait for the rest of it if it's split across chunks
+        const next = buffer[cursor + 1];
+        if (next === undefined) break;
+        if (next === "u") {
+          const hex = buffer.substring(cursor + 2, cursor + 6);
+          if (hex.length < 4) break;
+          output += String.fromCharCode(parseInt(hex, 16));
+          cursor += 6;
+        } else {
+          output += ESCAPES[next] ?? next;
+          cursor += 2;
+        }
+      }
+      return output;
+    },
+  };
+}
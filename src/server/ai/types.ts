@@ -0,0 +1,87 @@
+// Shared types for the story and image providers used by the game router
+
+import type { StateChanges } from "~/utils/character";
+import type { Language } from "~/utils/language";
+import type { LevelLayout } from "~/utils/level";
+
+export type { StateChanges };
+
+// A single message in a chat-style prompt. Kept provider-agnostic so the
+// offline provider (and anything stored in the database) doesn't depend on
+// the OpenAI SDK types.
+export interface StoryMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface StoryChoice {
+  id: number;
+  text: string;
+}
+
+// Define a stricter type for AI story response
+export interface AIStoryResponse {
+  story: string;
+  choices: StoryChoice[];
+  backgroundDescription: string;
+  // Set by the model when the adventure ends in this scene
+  ending?: {
+    type: "death" | "victory";
+    reason?: string;
+  };
+  // Changes to the character sheet (health, gold, attributes, items) caused by this scene
+  stateChanges?: StateChanges;
+  // Platforming layout of the scene; fallback scenes (errors, blunders) have none and play on flat ground
+  level?: LevelLayout;
+  isGameOver: boolean;
+  // Prompt templates the scene was generated from (see ~/server/ai/prompts); set by the game router
+  promptVersion?: string;
+}
+
+export interface StoryRequest {
+  messages: StoryMessage[];
+  // Plain hints for providers that don't read the prompt text (offline provider)
+  theme?: string;
+  spriteDescription?: string;
+  choice?: string;
+  choiceCount?: number;
+  // Language the story is told in, also used to recognize game-over choices
+  language?: Language;
+  // Odds that the player's choice is fatal
+  deathChance?: number;
+}
+
+export interface StoryCompletion {
+  // Raw JSON text returned by the model, parsed by the caller
+  content: string;
+  model: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+export interface StoryProvider {
+  readonly name: string;
+  generateStory(request: StoryRequest): Promise<StoryCompletion>;
+  // Yields raw content deltas as they arrive, then returns the complete response
+  streamStory(request: StoryRequest): AsyncGenerator<string, StoryCompletion>;
+}
+
+export type ImageKind = "sprite" | "background";
+
+export interface ImageRequest {
+  prompt: string;
+  kind: ImageKind;
+}
+
+export interface ImageResult {
+  url: string;
+  model: string;
+  size: string;
+}
+
+export interface ImageProvider {
+  readonly name: string;
+  generateImage(request: ImageRequest): Promise<ImageResult>;
+}
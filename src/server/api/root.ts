@@ -2,6 +2,7 @@ import { postRouter } from "~/server/api/routers/post";
 import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
 import { gameRouter } from "~/server/api/routers/game";
 import { userRouter } from "~/server/api/routers/user";
+import { usageRouter } from "~/server/api/routers/usage";
 
 /**
  * This is the primary router for your server.
@@ -12,6 +13,7 @@ export const appRouter = createTRPCRouter({
   post: postRouter,
   game: gameRouter,
   user: userRouter,
+  usage: usageRouter,
 });
 
 // export type definition of API
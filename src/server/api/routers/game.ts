@@ -3,217 +3,704 @@ import {
   createTRPCRouter,
   protectedProcedure,
   publicProcedure,
+  rateLimitedProcedure,
 } from "~/server/api/trpc";
+import { TRPCError } from "@trpc/server";
 import { db } from "~/server/db"; // Import db instance
-import { gameSaves } from "~/server/db/schema"; // Import gameSaves schema
+import { gameSaves, users } from "~/server/db/schema"; // Import gameSaves schema
 import { eq, and } from "drizzle-orm";
-import OpenAI from "openai"; // Import OpenAI client
-import { env } from "~/env"; // For API keys
-import type { ChatCompletionMessageParam } from "openai/resources/chat/completions"; // Import message type
+import {
+  appendConversation,
+  clearConversation,
+  loadConversation,
+  trimConversation,
+} from "~/server/game/history";
+import {
+  clearScenes,
+  createScene,
+  getScene,
+  getScenePath,
+  listScenes,
+  parseChoices,
+} from "~/server/game/scenes";
+import { createStoryFieldExtractor } from "~/server/ai/stream";
+import { assetUrl, resolveImageUrl, storeSpriteSheetFromUrl } from "~/server/assets";
+import {
+  createGameSession,
+  deleteSessionsForSave,
+  endSessionForSave,
+  getGameSession,
+  getSessionCharacter,
+  getSessionChoices,
+  getSessionForSave,
+  scenesSurvivedAt,
+  updateSessionScene,
+  type GameSessionRow,
+} from "~/server/game/sessions";
+import { RECAP_TIP_COUNT, formatGameReport, parseGameRecap, summarizeAdventure } from "~/server/game/report";
+import { countScenesSurvived, findGameEnding, recordGameEnding, refreshSaveScore } from "~/server/game/scoring";
+import { getSaveLives, parseDeaths, recordDeath } from "~/server/game/deaths";
+import { checkAchievements } from "~/server/game/achievements";
+import {
+  appendReplayEvents,
+  discardUnfinishedReplays,
+  finishReplay,
+  getReplay,
+  loadReplay,
+  startReplay,
+} from "~/server/game/replays";
+import { enqueueImageJob, getImageJob, toImageJobStatus } from "~/server/jobs/images";
+import { createStreamModerator, moderateInput, moderateScene, type ModerationContext } from "~/server/moderation";
+import { recordChatUsage, recordImageUsage, type UsageOwner } from "~/server/usage";
+import {
+  applyStateChanges,
+  createCharacterSheet,
+  describeCharacterSheet,
+  parseCharacterSheet,
+  type CharacterSheet,
+} from "~/utils/character";
+import {
+  createFlatLevel,
+  deathCauseSchema,
+  describeDeathCause,
+  describeLevelLayout,
+  parseLevelLayout,
+  type DeathCause,
+  type LevelLayout,
+} from "~/utils/level";
+import { MAX_REPLAY_UPLOAD, replayEventSchema } from "~/utils/replay";
+import {
+  SPRITE_SHEET_COLUMNS,
+  SPRITE_SHEET_ROWS,
+  parseSpriteSheet,
+  type SpriteSheet,
+} from "~/utils/sprite";
+import {
+  DEFAULT_DIFFICULTY,
+  DIFFICULTIES,
+  applyScoreMultiplier,
+  getDifficultySettings,
+  parseDifficulty,
+  type Difficulty,
+} from "~/utils/difficulty";
+import {
+  DEFAULT_LANGUAGE,
+  LANGUAGES,
+  getLanguageSettings,
+  parseLanguage,
+  type Language,
+} from "~/utils/language";
+import {
+  getFallbackImageProvider,
+  getFallbackStoryProvider,
+  getImageProvider,
+  generateValidScene,
+  getStoryProvider,
+  type AIStoryResponse,
+  type ImageKind,
+  type StoryChoice,
+  type StoryMessage,
+  type StoryProvider,
+  type StoryRequest,
+} from "~/server/ai";
+import { renderPrompt, type PromptContext } from "~/server/ai/prompts";
+
+// Generate the player's sprite sheet from its description, remove its background and keep it in
+// the asset store. Returns the stored asset and the URL it is served from, and its frame metadata.
+// When the sheet couldn't be stored, the asset id and metadata are null and the provider's image is
+// shown as a single frame instead.
+async function generateSpriteWithAI(
+  description: string,
+  userId?: string
+): Promise<{ assetId: string | null, imageUrl: string, spriteSheet: SpriteSheet | null }> {
+  const prompt = renderPrompt("sprite", { description, columns: SPRITE_SHEET_COLUMNS, rows: SPRITE_SHEET_ROWS });
+  console.log(`Generating sprite sheet for prompt (${prompt.version}): "${prompt.text}"`);
+  const request = { prompt: prompt.text, kind: "sprite" as const };
+
+  let url: string;
+  try {
+    const provider = getImageProvider();
+    const result = await provider.generateImage(request);
+    await recordImageUsage(provider.name, result, { userId });
+    url = result.url;
+  } catch (error) {
+    console.error("Error generating image:", error);
+    // Use an offline placeholder on error
+    const provider = getFallbackImageProvider();
+    const result = await provider.generateImage(request);
+    await recordImageUsage(provider.name, result, { userId });
+    url = result.url;
+  }
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: env.OPENAI_API_KEY,
-});
+  // Provider URLs (DALL·E) expire within hours, so download the image while it's still available
+  try {
+    const { assetId, sheet } = await storeSpriteSheetFromUrl(url, userId);
+    return { assetId, imageUrl: assetUrl(assetId), spriteSheet: sheet };
+  } catch (error) {
+    console.error("Error storing sprite sheet, using the provider URL for this session:", error);
+    return { assetId: null, imageUrl: url, spriteSheet: null };
+  }
+}
 
-// Define a stricter type for AI story response
-interface AIStoryResponse {
-  story: string;
-  choices: Array<{ id: number; text: string }>;
-  backgroundDescription: string;
-  isGameOver: boolean;
+// Queue a scene's background image instead of waiting for it. If every attempt fails the job falls
+// back to the background of the scene the player came from. Returns the job id to poll.
+async function queueBackgroundImage(scene: Pick<AIStoryResponse, "backgroundDescription" | "level">, target: {
+  userId?: string,
+  saveId: number | null,
+  sceneId: number | null,
+  previousSceneId?: number | null,
+}, promptContext: PromptContext = {}): Promise<number> {
+  const previousScene = target.previousSceneId ? await getScene(target.previousSceneId) : null;
+  return enqueueImageJob({
+    kind: "background",
+    prompt: renderPrompt(
+      "background",
+      { description: scene.backgroundDescription, layout: describeLevelLayout(scene.level ?? createFlatLevel()) },
+      promptContext
+    ).text,
+    userId: target.userId,
+    saveId: target.saveId,
+    sceneId: target.sceneId,
+    fallbackAssetId: previousScene?.backgroundAssetId,
+  });
 }
 
-// Placeholder function - replace with actual OpenAI API call
-async function generateImageWithAI(prompt: string, isSprite: boolean): Promise<string> {
-  console.log(`Generating image for prompt: "${prompt}"`);
-  if (!env.OPENAI_API_KEY) {
-     console.warn("OPENAI_API_KEY not set. Returning placeholder.");
-     return `/placeholder-img-${prompt.substring(0, 15).replace(/[^a-z0-9]/gi, '-')}.png`;
-  }
-  
-  try {
-    // Actual OpenAI Image Generation Call
-    let response;
-    if(isSprite) {
-      response = await openai.images.generate({
-        model: "dall-e-3", // Or any available model
-        prompt: prompt+"retro style",
-        n: 1,
-        size: "1024x1024",
-      });
-    } else {
-      response = await openai.images.generate({
-        model: "dall-e-3", // Or any available model
-        prompt: prompt+"retro style as if it was the background of a video game, with a path going from left to right",
-        n: 1,
-        size: "1024x1024",
-      });
-    }
+// Ask a provider for a scene, repairing and re-prompting until it is valid. Every completion is
+// recorded in the usage ledger.
+async function requestStory(provider: StoryProvider, request: StoryRequest, owner?: UsageOwner): Promise<AIStoryResponse> {
+  return generateValidScene(provider, request, {
+    maxChoices: request.choiceCount,
+    onCompletion: (completion) => recordChatUsage(provider.name, completion, owner),
+  });
+}
 
-    const imageUrl = response.data[0]?.url;
-    if (!imageUrl) {
-      throw new Error("Failed to generate image");
-    }
-    
-    return imageUrl;
-  } catch (error) {
-    console.error("Error generating image with OpenAI:", error);
-    // Return a placeholder on error
-    return `/placeholder-ai-image.png`;
+// System prompt plus the player's setup, which start every conversation. The version lists the
+// templates they were rendered from, e.g. "narrator@1+opening-scene@1".
+function buildOpeningMessages(input: {
+  theme?: string,
+  spriteDesc?: string,
+  difficulty?: Difficulty,
+  language?: Language,
+}): {
+  messages: StoryMessage[],
+  promptVersion: string,
+} {
+  const settings = getDifficultySettings(input.difficulty);
+  const language = getLanguageSettings(input.language);
+  const promptContext = { theme: input.theme, difficulty: input.difficulty };
+  const narrator = renderPrompt(
+    "narrator",
+    {
+      choiceCount: settings.choiceCount,
+      lethality: settings.narratorLethality,
+      languageName: language.promptName,
+      gameOverChoice: language.text.gameOverChoice,
+    },
+    promptContext
+  );
+  const messages: StoryMessage[] = [{ role: "system", content: narrator.text }];
+  const versions = [narrator.version];
+  
+  // Add initial theme and character context
+  if (input.theme || input.spriteDesc) {
+    const opening = renderPrompt(
+      "opening-scene",
+      { theme: input.theme ?? "fantasy", spriteDescription: input.spriteDesc ?? "a brave adventurer" },
+      promptContext
+    );
+    messages.push({ role: "user", content: opening.text });
+    versions.push(opening.version);
   }
+  return { messages, promptVersion: versions.join("+") };
 }
 
-// Placeholder function - replace with actual OpenAI API call
-async function generateStoryWithAI(input: { 
-  theme?: string, 
-  previousStory?: string, 
-  choice?: string, 
+// Message recording the player's choice in the conversation history, along with any lives they
+// lost in the scene before choosing so the narrator can bring it up
+const choiceMessage = (choiceText: string, deaths: DeathCause[] = []): StoryMessage => ({
+  role: "user",
+  content: deaths.length > 0
+    ? `Before choosing, I lost ${deaths.length === 1 ? "a life" : `${deaths.length} lives`} in this scene: I ${deaths.map(describeDeathCause).join(", then I ")}. I choose: ${choiceText}`
+    : `I choose: ${choiceText}`
+});
+
+// Message recording a generated scene in the conversation history
+const sceneMessage = (scene: AIStoryResponse): StoryMessage => ({
+  role: "assistant",
+  content: JSON.stringify({
+    story: scene.story,
+    choices: scene.choices,
+    backgroundDescription: scene.backgroundDescription,
+    ending: scene.ending,
+    stateChanges: scene.stateChanges,
+  })
+});
+
+interface StoryInput {
+  theme?: string,
+  previousStory?: string,
+  choice?: string,
   spriteDesc?: string,
-  conversationHistory?: ChatCompletionMessageParam[] // Use imported type
-}): Promise<AIStoryResponse> {
-    console.log(`AI TEXT API CALL: Generating story part for input:`, input);
-    if (!env.OPENAI_API_KEY) {
-       console.warn("OPENAI_API_KEY not set. Returning placeholder.");
-       return {
-           story: `(Placeholder: API Key Missing) Setting the scene for the ${input.theme ?? 'adventure'}...`,
-           choices: [{id: 1, text: "Proceed"}, {id: 2, text: "Look around"}],
-           backgroundDescription: `A placeholder background for ${input.theme ?? 'adventure'}`,
-           isGameOver: false
-       }
-    }
-    
-    // Build conversation history if provided, otherwise create a basic history
-    const messages: ChatCompletionMessageParam[] = input.conversationHistory ?? []; // Use imported type and initialize with ??
-    
-    // If no history provided, add system message and initial context
-    if (messages.length === 0) {
-      messages.push({ 
-        role: "system", 
-        content: "You are a choose-your-own-adventure game master. Generate engaging story segments with 3 choices for the player. For each response, provide a JSON object with three fields: 'story' (the current narrative), 'choices' (an array of options each with 'id' and 'text'), and 'backgroundDescription' (a detailed description for image generation).  If the user blunders, they should die and all three of the choices in the json object should be 'game over!'. The game should be easy to die in."
-      });
-      
-      // Add initial theme and character context
-      if (input.theme || input.spriteDesc) {
-        messages.push({
-          role: "user",
-          content: `I want to play a ${input.theme ?? "fantasy"} adventure with a character described as: ${input.spriteDesc ?? "a brave adventurer"}.`
-        });
-      }
-    }
+  difficulty?: Difficulty,
+  language?: Language,
+  conversationHistory?: StoryMessage[],
+  // Version of the opening messages when they are sent as the conversation history of this request
+  openingPromptVersion?: string,
+  // The character as it is before this scene
+  character?: CharacterSheet,
+  // Lives lost in the scene the choice was made in
+  deaths?: DeathCause[],
+  // Who the generated scene is for, recorded with its usage and anything moderation catches
+  owner?: ModerationContext & UsageOwner
+}
+
+// Build the provider request for the next scene, along with the version of the prompts it uses
+function buildStoryRequest(input: StoryInput): { request: StoryRequest, promptVersion: string } {
+    // Build conversation history if provided, otherwise start from the opening messages
+    const opening = input.conversationHistory?.length
+      ? { messages: [...input.conversationHistory], promptVersion: input.openingPromptVersion }
+      : buildOpeningMessages(input);
+    const messages: StoryMessage[] = opening.messages;
     
     // Add the current choice/request to the conversation
     if (input.choice) {
-      messages.push({
-        role: "user",
-        content: `I choose: ${input.choice}`
-      });
+      messages.push(choiceMessage(input.choice, input.deaths));
     }
     
     // Add a structured prompt for the response format
-    messages.push({
-      role: "user",
-      content: `Generate the next part of the story${input.previousStory ? " following from: " + input.previousStory : ""}. Include a vivid scene description, what happens next, and 2-4 choices for me. Return your response as a valid JSON object with these fields: "story" (the narrative text), "choices" (array of options with "id" and "text" fields), and "backgroundDescription" (a detailed visual description of the current scene for image generation).`
-    });
+    const settings = getDifficultySettings(input.difficulty);
+    const nextScene = renderPrompt(
+      "next-scene",
+      {
+        choiceCount: settings.choiceCount,
+        languageName: getLanguageSettings(input.language).promptName,
+        previousStory: input.previousStory,
+        character: input.character ? describeCharacterSheet(input.character) : undefined,
+      },
+      { theme: input.theme, difficulty: input.difficulty }
+    );
+    messages.push({ role: "user", content: nextScene.text });
+
+    return {
+      request: {
+        messages,
+        theme: input.theme,
+        spriteDescription: input.spriteDesc,
+        choice: input.choice,
+        choiceCount: settings.choiceCount,
+        language: input.language,
+        deathChance: settings.offlineDeathChance,
+      },
+      promptVersion: [opening.promptVersion, nextScene.version].filter(Boolean).join("+"),
+    };
+}
+
+function logStoryError(error: unknown) {
+  console.error("Error calling story provider or parsing response:", error);
+  // Log more detailed error information
+  if (error instanceof Error) {
+    console.error(`Error details - Name: ${error.name}, Message: ${error.message}`);
+    console.error(`Stack trace: ${error.stack}`);
+  }
+}
+
+async function generateStoryWithAI(input: StoryInput): Promise<AIStoryResponse> {
+    console.log(`AI TEXT API CALL: Generating story part for input:`, input);
+    const { request, promptVersion } = buildStoryRequest(input);
     
+    let scene: AIStoryResponse;
     try {
-      // Call OpenAI API
-      console.log("About to call OpenAI API with model: gpt-3.5-turbo");
-      console.log("Messages structure:", JSON.stringify(messages.map(m => ({ 
-        role: m.role, 
-        contentLength: m.content ? m.content.length : 0 
-      }))));
-      
-      const response = await openai.chat.completions.create({
-        model: "gpt-3.5-turbo", // Change to gpt-3.5-turbo as a test
-        messages: messages,
-        response_format: { type: "json_object" }, // Request JSON response
+      scene = await requestStory(getStoryProvider(), request, input.owner);
+    } catch (error) {
+      logStoryError(error);
+      // Fall back to the offline provider so the player still gets a coherent scene
+      scene = await requestStory(getFallbackStoryProvider(), request, input.owner);
+    }
+    return { ...(await moderateGeneratedScene(scene, request, input.owner)), promptVersion };
+}
+
+// Streaming variant of generateStoryWithAI: yields story text as it passes moderation, a sentence
+// at a time, then returns the parsed scene
+async function* streamStoryWithAI(input: StoryInput): AsyncGenerator<string, AIStoryResponse> {
+    console.log(`AI TEXT API CALL: Streaming story part for input:`, input);
+    const { request, promptVersion } = buildStoryRequest(input);
+    const extractor = createStoryFieldExtractor();
+    const moderator = createStreamModerator();
+
+    let scene: AIStoryResponse;
+    try {
+      const provider = getStoryProvider();
+      const stream = provider.streamStory(request);
+      let result = await stream.next();
+      while (!result.done) {
+        const text = await moderator.push(extractor.push(result.value));
+        if (text) yield text;
+        result = await stream.next();
+      }
+      const rest = await moderator.flush();
+      if (rest) yield rest;
+      await recordChatUsage(provider.name, result.value, input.owner);
+      scene = await generateValidScene(provider, request, {
+        firstContent: result.value.content,
+        maxChoices: request.choiceCount,
+        onCompletion: (completion) => recordChatUsage(provider.name, completion, input.owner),
       });
-      
-      console.log("OpenAI API response received:", {
-        id: response.id,
-        model: response.model,
-        choicesCount: response.choices.length,
-        firstChoiceContent: response.choices[0]?.message?.content?.substring(0, 100) + "..."
+    } catch (error) {
+      logStoryError(error);
+      // Fall back to the offline provider so the player still gets a coherent scene
+      scene = await requestStory(getFallbackStoryProvider(), request, input.owner);
+    }
+    // The scene as a whole is checked too; if that changes the story, the client shows the final
+    // scene's story instead of the streamed text
+    return { ...(await moderateGeneratedScene(scene, request, input.owner)), promptVersion };
+}
+
+// Check a generated scene before it is shown or saved, replacing it with an offline scene when
+// moderation blocks it
+async function moderateGeneratedScene(
+  scene: AIStoryResponse,
+  request: StoryRequest,
+  context: ModerationContext = {}
+): Promise<AIStoryResponse> {
+  const moderated = await moderateScene(scene, context);
+  if (!moderated.blocked) return moderated.scene;
+
+  console.warn("Generated scene was blocked by moderation, using the offline provider instead");
+  return requestStory(getFallbackStoryProvider(), request, context);
+}
+
+// Run the player's theme and character description through moderation before they go into any
+// prompt. Throws when either is blocked; otherwise returns the (possibly softened) text to use.
+async function moderatePlayerSetup(
+  input: { theme: string, spriteDescription: string },
+  context: ModerationContext
+): Promise<{ theme: string, spriteDescription: string }> {
+  const theme = await moderateInput(input.theme, "theme", context);
+  const spriteDescription = await moderateInput(input.spriteDescription, "sprite_description", context);
+  if (theme.blocked || spriteDescription.blocked) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "That theme or character description isn't allowed. Please try something else.",
+    });
+  }
+  return { theme: theme.text, spriteDescription: spriteDescription.text };
+}
+
+// Apply a scene's state changes to the character. A character whose health runs out dies, whatever
+// the narrator wrote.
+function applySceneToCharacter(scene: AIStoryResponse, character: CharacterSheet): {
+  scene: AIStoryResponse,
+  character: CharacterSheet,
+} {
+  const nextCharacter = applyStateChanges(character, scene.stateChanges);
+  if (nextCharacter.hp > 0 || scene.isGameOver) {
+    return { scene, character: nextCharacter };
+  }
+  return {
+    scene: {
+      ...scene,
+      isGameOver: true,
+      ending: { type: "death", reason: "Your wounds were too much, and you collapse with no strength left." },
+    },
+    character: nextCharacter,
+  };
+}
+
+// Record a generated scene for a save: adds it to the scene tree, appends the exchange that produced
+// it to the conversation history, moves the save's active pointer (and current scene snapshot) to it
+// and updates the score. Scenes that end the adventure also record the ending (and high score).
+async function recordScene(saveId: number, input: {
+  parentId: number | null,
+  choice?: StoryChoice,
+  // Lives lost in the parent scene before the choice
+  deaths?: DeathCause[],
+  scene: AIStoryResponse,
+  character: CharacterSheet,
+  backgroundImageUrl: string | null,
+}): Promise<number> {
+  const sceneId = await createScene({ saveId, ...input });
+  await appendConversation(
+    saveId,
+    input.choice ? [choiceMessage(input.choice.text, input.deaths), sceneMessage(input.scene)] : [sceneMessage(input.scene)],
+    sceneId
+  );
+  await db
+    .update(gameSaves)
+    .set({
+      activeSceneId: sceneId,
+      gamePhase: "playing",
+      currentStory: input.scene.story,
+      currentChoices: JSON.stringify(input.scene.choices),
+      currentBackgroundDescription: input.scene.backgroundDescription,
+      currentLevel: input.scene.level ? JSON.stringify(input.scene.level) : null,
+      characterSheet: JSON.stringify(input.character),
+      updatedAt: Math.floor(Date.now() / 1000),
+    })
+    .where(eq(gameSaves.id, saveId));
+  await refreshSaveScore(saveId);
+  await checkAchievements(saveId);
+
+  if (input.scene.isGameOver) {
+    await recordGameEnding({
+      saveId,
+      endingType: input.scene.ending?.type ?? "death",
+      reason: input.scene.ending?.reason ?? input.scene.story,
+    });
+  }
+  return sceneId;
+}
+
+// Find the logged-in user's save for a slot
+async function getSaveForSlot(userId: string, slotNumber: number) {
+  const [save] = await db
+    .select()
+    .from(gameSaves)
+    .where(
+      and(
+        eq(gameSaves.userId, userId),
+        eq(gameSaves.slotNumber, slotNumber)
+      )
+    )
+    .limit(1);
+  return save ?? null;
+}
+
+// Keep a newly generated sprite on the slot's save, creating the save if needed. This is the only
+// place a save's sprite is set; saves never take it from the client.
+async function recordSaveSprite(userId: string, slotNumber: number, sprite: {
+  description: string,
+  assetId: string | null,
+  imageUrl: string,
+  spriteSheet: SpriteSheet | null,
+}): Promise<void> {
+  const currentTimestamp = Math.floor(Date.now() / 1000);
+  const values = {
+    spriteDescription: sprite.description,
+    spriteAssetId: sprite.assetId,
+    // A sprite that couldn't be stored keeps the provider's URL, like saves from before assets existed
+    spriteUrl: sprite.assetId ? null : sprite.imageUrl,
+    spriteSheet: sprite.spriteSheet ? JSON.stringify(sprite.spriteSheet) : null,
+    updatedAt: currentTimestamp,
+  };
+
+  const save = await getSaveForSlot(userId, slotNumber);
+  if (save) {
+    await db
+      .update(gameSaves)
+      .set(values)
+      .where(eq(gameSaves.id, save.id));
+  } else {
+    await db
+      .insert(gameSaves)
+      .values({
+        ...values,
+        userId,
+        slotNumber,
+        slotName: `Save Slot ${slotNumber}`,
+        gamePhase: "sprite",
+        difficulty: DEFAULT_DIFFICULTY,
+        createdAt: currentTimestamp,
       });
-      
-      // Parse the response
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error("AI response content is missing or empty.");
-      }
-      const result = JSON.parse(content) as unknown;
-      
-      // Add AI's response to conversation history for next time
-      messages.push({
-        role: "assistant",
-        content: content,
+  }
+}
+
+// Helper function to pick the language of a new adventure: the one chosen for it, else the player's
+// preferred language
+async function resolveLanguage(userId: string | undefined, requested: Language | undefined): Promise<Language> {
+  if (requested) return requested;
+  if (!userId) return DEFAULT_LANGUAGE;
+  const [user] = await db
+    .select({ language: users.language })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  return parseLanguage(user?.language);
+}
+
+// Start a fresh scene tree and conversation for a slot's save, creating the save if needed.
+// Returns the save id.
+async function resetSaveForNewGame(userId: string, input: {
+  slotNumber: number,
+  theme: string,
+  spriteDescription: string,
+  difficulty: Difficulty,
+  language: Language,
+}, openingMessages: StoryMessage[]): Promise<number | null> {
+  let save = await getSaveForSlot(userId, input.slotNumber);
+  if (!save) {
+    const currentTimestamp = Math.floor(Date.now() / 1000);
+    await db
+      .insert(gameSaves)
+      .values({
+        userId,
+        slotNumber: input.slotNumber,
+        slotName: `Save Slot ${input.slotNumber}`,
+        gamePhase: "theme",
+        spriteDescription: input.spriteDescription,
+        gameTheme: input.theme,
+        difficulty: input.difficulty,
+        language: input.language,
+        createdAt: currentTimestamp,
+        updatedAt: currentTimestamp,
       });
-      
-      // Validate that the response has the expected structure using type guards
-      if (
-        typeof result === 'object' && 
-        result !== null &&
-        'story' in result && typeof result.story === 'string' &&
-        'choices' in result && Array.isArray(result.choices) &&
-        /* eslint-disable @typescript-eslint/no-unsafe-member-access */
-        result.choices.every((c): c is {id: number; text: string} => 
-          typeof c === 'object' && 
-          c !== null && 
-          'id' in c && 
-          typeof c.id === 'number' && 
-          'text' in c && 
-          typeof c.text === 'string'
-        ) &&
-        /* eslint-enable @typescript-eslint/no-unsafe-member-access */
-        'backgroundDescription' in result && typeof result.backgroundDescription === 'string'
-      ) {
-         // Check if this is a game over response (all choices are "Game Over")
-         const parsedResult = result as AIStoryResponse;
-         const isGameOverResponse = checkIfGameOver(parsedResult.choices);
-         
-         // Return the result with an indicator if it's a game over
-         parsedResult.isGameOver = isGameOverResponse;
-         return parsedResult;
-      } else {
-         throw new Error("Invalid response format from AI after parsing.");
-      }
+    save = await getSaveForSlot(userId, input.slotNumber);
+  }
+  if (!save) return null;
+
+  // A new game starts with the difficulty's full lives
+  await db
+    .update(gameSaves)
+    .set({ difficulty: input.difficulty, language: input.language, livesRemaining: null })
+    .where(eq(gameSaves.id, save.id));
+
+  await clearConversation(save.id);
+  await clearScenes(save.id);
+  await appendConversation(save.id, openingMessages);
+  await startReplay(userId, save.id);
+  return save.id;
+}
 
-    } catch (error) {
-      console.error("Error calling OpenAI or parsing response:", error);
-      // Log more detailed error information
-      if (error instanceof Error) {
-        console.error(`Error details - Name: ${error.name}, Message: ${error.message}`);
-        console.error(`Stack trace: ${error.stack}`);
-      }
-      
-      // Fallback to mock data
-      const baseStory = input.choice
-        ? `Following choice '${input.choice}', something else happens in the ${input.theme ?? 'adventure'} setting.`
-        : `Starting the adventure in a ${input.theme ?? 'adventure'} world with a character like ${input.spriteDesc ?? 'a brave adventurer'}.`;
+// Load a session for a choice and check the choice is one of the session's current choices
+async function loadSessionChoice(userId: string | undefined, input: { sessionId: string, choiceId: number }): Promise<{
+  session: GameSessionRow,
+  selectedChoice: StoryChoice,
+}> {
+  const session = await getGameSession(input.sessionId);
+  // Sessions of signed-in players are only usable by them; guest sessions by whoever holds the id
+  if (!session || (session.userId !== null && session.userId !== userId)) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Game session not found." });
+  }
+  if (session.isGameOver === 1) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "This adventure has already ended." });
+  }
 
-      const choiceNum = Math.floor(Math.random() * 3) + 1;
-      return {
-        story: `${baseStory} What is the next move? (Random choice: ${choiceNum})`,
-        choices: [
-          { id: 1, text: `Option A (${choiceNum}) for ${input.theme ?? 'adventure'}` },
-          { id: 2, text: `Option B (${choiceNum}) for ${input.theme ?? 'adventure'}` },
-          { id: 3, text: `Option C (${choiceNum}) for ${input.theme ?? 'adventure'}` }
-        ],
-        backgroundDescription: `A dynamic background representing the current state (${choiceNum}) in the ${input.theme ?? 'adventure'} adventure.`,
-        isGameOver: false
-      };
-    }
+  const selectedChoice = getSessionChoices(session).find((c) => c.id === input.choiceId);
+  if (!selectedChoice) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Invalid choice selected." });
+  }
+  return { session, selectedChoice };
 }
 
-// Helper function to check if all choices indicate a game over
-function checkIfGameOver(choices: Array<{id: number; text: string}>): boolean {
-  return choices.length > 0 && 
-    choices.every(choice => 
-      choice.text.toLowerCase().includes("game over")
+// Load the save behind a session (if any) and the conversation along its active branch, so the
+// narrator remembers the whole adventure
+async function loadChoiceContext(session: GameSessionRow): Promise<{
+  saveId: number | null,
+  parentSceneId: number | null,
+  difficulty: Difficulty,
+  language: Language,
+  conversationHistory?: StoryMessage[],
+}> {
+  const difficulty = parseDifficulty(session.difficulty);
+  const language = parseLanguage(session.language);
+  const [save] = session.saveId !== null
+    ? await db.select().from(gameSaves).where(eq(gameSaves.id, session.saveId)).limit(1)
+    : [];
+  if (!save) {
+    return { saveId: null, parentSceneId: null, difficulty, language };
+  }
+
+  let parentSceneId = session.currentSceneId ?? save.activeSceneId;
+  if (parentSceneId === null) {
+    // Saves from before scenes were stored: seed the tree from the session's current scene
+    await clearConversation(save.id);
+    await appendConversation(
+      save.id,
+      buildOpeningMessages({ theme: session.gameTheme, spriteDesc: session.spriteDescription, difficulty, language }).messages
     );
+    parentSceneId = await recordScene(save.id, {
+      parentId: null,
+      scene: {
+        story: session.currentStory,
+        choices: getSessionChoices(session),
+        backgroundDescription: session.currentBackgroundDescription ?? "",
+        level: parseLevelLayout(session.currentLevel) ?? undefined,
+        isGameOver: false,
+      },
+      character: getSessionCharacter(session),
+      backgroundImageUrl: resolveImageUrl(save.currentBackgroundAssetId, save.currentBackgroundImageUrl),
+    });
+  }
+
+  const path = getScenePath(await listScenes(save.id), parentSceneId);
+  const conversationHistory = await loadConversation(save.id, path.map((scene) => scene.id));
+  return { saveId: save.id, parentSceneId, difficulty, language, conversationHistory };
+}
+
+// Open (or reopen) the session for a saved game at its current scene, returning the session id.
+// Returns null for saves that aren't being played yet.
+async function openSessionForSave(save: typeof gameSaves.$inferSelect): Promise<string | null> {
+  if (save.gamePhase !== "playing" || !save.currentStory) return null;
+
+  const existing = await getSessionForSave(save.id);
+  if (existing && existing.userId === save.userId && existing.currentSceneId === save.activeSceneId) {
+    return existing.id;
+  }
+
+  return createGameSession({
+    userId: save.userId,
+    saveId: save.id,
+    gameTheme: save.gameTheme ?? "",
+    spriteDescription: save.spriteDescription ?? "",
+    difficulty: parseDifficulty(save.difficulty),
+    language: parseLanguage(save.language),
+    livesRemaining: getSaveLives(save),
+    sceneId: save.activeSceneId,
+    scene: {
+      story: save.currentStory,
+      choices: parseChoices(save.currentChoices),
+      backgroundDescription: save.currentBackgroundDescription ?? "",
+      level: parseLevelLayout(save.currentLevel) ?? undefined,
+      // A save that lost its last life can be looked at, but not played on
+      isGameOver: getSaveLives(save) <= 0,
+    },
+    character: parseCharacterSheet(save.characterSheet),
+    scenesSurvived: save.score ?? 0,
+  });
 }
 
+// Scene returned when a random blunder kills the player
+const blunderState = (language: Language) => {
+  const { text } = getLanguageSettings(language);
+  return {
+    story: text.blunderStory,
+    backgroundDescription: "A dark and gloomy scene.",
+    choices: [
+      { id: 1, text: text.gameOverChoice },
+      { id: 2, text: text.gameOverChoice },
+      { id: 3, text: text.gameOverChoice }
+    ]
+  };
+};
+
+const startGameInput = z.object({
+  theme: z.string().min(1, "Theme cannot be empty"),
+  // Ensure spriteDescription is required if needed by AI function
+  spriteDescription: z.string().min(1, "Sprite description is required to start"),
+  // Slot whose save should own the conversation history (logged-in players only)
+  slotNumber: z.number().int().min(1).max(3).optional(),
+  difficulty: z.enum(DIFFICULTIES).default(DEFAULT_DIFFICULTY),
+  // Defaults to the player's preferred language
+  language: z.enum(LANGUAGES).optional(),
+});
+
+// The story, choices and settings come from the server-held session, never from the client
+const makeChoiceInput = z.object({
+  sessionId: z.string().uuid(),
+  choiceId: z.number().int(),
+});
+
+// Events emitted by the streamScene subscription, in order
+export type SceneStreamEvent =
+  | { type: "token", text: string }
+  | {
+      type: "scene",
+      state: { story: string, choices: StoryChoice[], backgroundDescription: string, level?: LevelLayout | null },
+      gameOver?: boolean,
+      gameOverReason?: string,
+      character: CharacterSheet,
+    }
+  // The scene has been recorded; its background is generated by the image job (if any)
+  | { type: "done", sessionId: string, sceneId: number | null, imageJobId: number | null, score: number };
+
 export const gameRouter = createTRPCRouter({
   // Get all save slots for a user
   getSaveSlots: publicProcedure
@@ -278,11 +765,12 @@ export const gameRouter = createTRPCRouter({
           }
 
           // Check if this is actually a complete save
-          const slotIsEmpty = !slot.gamePhase || !slot.spriteUrl;
+          const spriteUrl = resolveImageUrl(slot.spriteAssetId, slot.spriteUrl);
+          const slotIsEmpty = !slot.gamePhase || !spriteUrl;
           console.log(`getSaveSlots: Slot ${i} isEmpty check:`, { 
             slotIsEmpty,
             hasGamePhase: !!slot.gamePhase,
-            hasSpriteUrl: !!slot.spriteUrl
+            hasSpriteUrl: !!spriteUrl
           });
 
           processedSlots.push({
@@ -291,12 +779,14 @@ export const gameRouter = createTRPCRouter({
             isEmpty: slotIsEmpty, // Only mark as non-empty if it has required fields
             gamePhase: slot.gamePhase,
             spriteDescription: slot.spriteDescription,
-            spriteUrl: slot.spriteUrl,
+            spriteUrl,
+            spriteSheet: parseSpriteSheet(slot.spriteSheet),
             gameTheme: slot.gameTheme,
             currentStory: slot.currentStory,
             currentChoices: parsedChoices,
-            currentBackgroundImageUrl: slot.currentBackgroundImageUrl,
+            currentBackgroundImageUrl: resolveImageUrl(slot.currentBackgroundAssetId, slot.currentBackgroundImageUrl),
             score: slot.score || 0,
+            difficulty: parseDifficulty(slot.difficulty),
             updatedAt: slot.updatedAt,
           });
         } else {
@@ -382,8 +872,15 @@ export const gameRouter = createTRPCRouter({
           status: "loaded",
           saveData: {
             ...save,
+            spriteUrl: resolveImageUrl(save?.spriteAssetId, save?.spriteUrl),
+            spriteSheet: parseSpriteSheet(save?.spriteSheet),
+            currentBackgroundImageUrl: resolveImageUrl(save?.currentBackgroundAssetId, save?.currentBackgroundImageUrl),
             currentChoices: parsedChoices,
+            currentLevel: parseLevelLayout(save?.currentLevel),
+            character: parseCharacterSheet(save?.characterSheet),
+            livesRemaining: save ? getSaveLives(save) : null,
           },
+          sessionId: save ? await openSessionForSave(save) : null,
         } as const;
       } else {
         // No save found for this slot
@@ -450,8 +947,14 @@ export const gameRouter = createTRPCRouter({
           status: "loaded",
           saveData: {
             ...mostRecentSave,
+            spriteUrl: resolveImageUrl(mostRecentSave?.spriteAssetId, mostRecentSave?.spriteUrl),
+            currentBackgroundImageUrl: resolveImageUrl(
+              mostRecentSave?.currentBackgroundAssetId,
+              mostRecentSave?.currentBackgroundImageUrl
+            ),
             currentChoices: parsedChoices,
           },
+          sessionId: mostRecentSave ? await openSessionForSave(mostRecentSave) : null,
         } as const;
       } else {
         // No save found, signal frontend to start new game flow
@@ -467,21 +970,14 @@ export const gameRouter = createTRPCRouter({
         gamePhase: z.enum(["sprite", "theme", "playing"]),
         slotName: z.string().optional(),
         spriteDescription: z.string().nullable().optional(),
-        spriteUrl: z.string().nullable().optional(),
         gameTheme: z.string().nullable().optional(),
-        currentStory: z.string().nullable().optional(),
-        currentChoices: z.array(z.object({ id: z.number(), text: z.string() })).optional(),
-        currentBackgroundDescription: z.string().nullable().optional(),
-        currentBackgroundImageUrl: z.string().nullable().optional(),
-        score: z.number().optional(),
         spritePosition: z.any().optional(), // Keep as any for compatibility with different position formats
       })
     )
     .mutation(async ({ ctx, input }) => {
       console.log("saveGameSlot: Starting save operation with input:", { 
         slotNumber: input.slotNumber,
-        gamePhase: input.gamePhase,
-        hasChoices: !!input.currentChoices?.length
+        gamePhase: input.gamePhase
       });
       
       // Check raw session data to debug authentication
@@ -505,8 +1001,8 @@ export const gameRouter = createTRPCRouter({
       const userId = ctx.session.user.id;
       console.log("saveGameSlot: Saving for user ID:", userId);
 
-      // For SQLite, we need to stringify JSON data since SQLite doesn't have JSONB
-      const choicesString = input.currentChoices ? JSON.stringify(input.currentChoices) : '[]';
+      // The sprite, current story, choices and background aren't taken from the client;
+      // generateSprite, recordScene, the image job and rewindToScene keep them up to date
       
       // Get current timestamp as seconds since epoch
       const currentTimestamp = Math.floor(Date.now() / 1000);
@@ -525,9 +1021,8 @@ export const gameRouter = createTRPCRouter({
       
       console.log("saveGameSlot: Existing save found:", existingSave.length > 0);
 
-      // Calculate score increment - each save increments score by 1 for screens seen
-      const currentScore = existingSave.length > 0 && existingSave[0] ? (existingSave[0].score || 0) : 0;
-      const newScore = input.score !== undefined ? input.score : currentScore + 1;
+      // The score is computed from the scenes the server generated for this save, never taken from the client
+      const newScore = existingSave[0] ? await countScenesSurvived(existingSave[0]) : 0;
 
       try {
         if (existingSave.length > 0) {
@@ -543,12 +1038,7 @@ export const gameRouter = createTRPCRouter({
               gamePhase: input.gamePhase,
               slotName: input.slotName,
               spriteDescription: input.spriteDescription ?? null,
-              spriteUrl: input.spriteUrl ?? null,
               gameTheme: input.gameTheme ?? null,
-              currentStory: input.currentStory ?? null,
-              currentChoices: choicesString,
-              currentBackgroundDescription: input.currentBackgroundDescription ?? null,
-              currentBackgroundImageUrl: input.currentBackgroundImageUrl ?? null,
               score: newScore,
               updatedAt: currentTimestamp,
             })
@@ -574,12 +1064,9 @@ export const gameRouter = createTRPCRouter({
               gamePhase: input.gamePhase,
               slotName: input.slotName || `Save Slot ${input.slotNumber}`,
               spriteDescription: input.spriteDescription ?? null,
-              spriteUrl: input.spriteUrl ?? null,
               gameTheme: input.gameTheme ?? null,
-              currentStory: input.currentStory ?? null,
-              currentChoices: choicesString,
-              currentBackgroundDescription: input.currentBackgroundDescription ?? null,
-              currentBackgroundImageUrl: input.currentBackgroundImageUrl ?? null,
+              // The difficulty is picked when the adventure starts, see resetSaveForNewGame
+              difficulty: DEFAULT_DIFFICULTY,
               score: newScore,
               createdAt: currentTimestamp,
               updatedAt: currentTimestamp,
@@ -604,12 +1091,7 @@ export const gameRouter = createTRPCRouter({
       z.object({
         gamePhase: z.enum(["sprite", "theme", "playing"]),
         spriteDescription: z.string().nullish(),
-        spriteUrl: z.string().nullish(),
         gameTheme: z.string().nullish(),
-        currentStory: z.string().nullish(),
-        currentChoices: z.array(z.object({ id: z.number(), text: z.string() })).nullish(),
-        currentBackgroundDescription: z.string().nullish(),
-        currentBackgroundImageUrl: z.string().nullish(),
         spritePosition: z.any().nullish(), // Keep for compatibility
       })
     )
@@ -623,9 +1105,6 @@ export const gameRouter = createTRPCRouter({
       }
 
       const userId = ctx.session.user.id;
-
-      // For SQLite, we need to stringify JSON data since SQLite doesn't have JSONB
-      const choicesString = input.currentChoices ? JSON.stringify(input.currentChoices) : '[]';
       
       // Get current timestamp as seconds since epoch
       const currentTimestamp = Math.floor(Date.now() / 1000);
@@ -639,8 +1118,7 @@ export const gameRouter = createTRPCRouter({
 
       // Use slot 1 by default for legacy saves
       const slotNumber = 1;
-      const currentScore = existingSaves.length > 0 && existingSaves[0] ? (existingSaves[0].score || 0) : 0;
-      const newScore = currentScore + 1;
+      const newScore = existingSaves[0] ? await countScenesSurvived(existingSaves[0]) : 0;
 
       if (existingSaves.length > 0 && existingSaves[0]) {
         // Update most recent save
@@ -649,12 +1127,7 @@ export const gameRouter = createTRPCRouter({
           .set({
             gamePhase: input.gamePhase,
             spriteDescription: input.spriteDescription ?? null,
-            spriteUrl: input.spriteUrl ?? null,
             gameTheme: input.gameTheme ?? null,
-            currentStory: input.currentStory ?? null,
-            currentChoices: choicesString,
-            currentBackgroundDescription: input.currentBackgroundDescription ?? null,
-            currentBackgroundImageUrl: input.currentBackgroundImageUrl ?? null,
             score: newScore,
             updatedAt: currentTimestamp,
           })
@@ -669,12 +1142,7 @@ export const gameRouter = createTRPCRouter({
             slotName: "Save Slot 1",
             gamePhase: input.gamePhase,
             spriteDescription: input.spriteDescription ?? null,
-            spriteUrl: input.spriteUrl ?? null,
             gameTheme: input.gameTheme ?? null,
-            currentStory: input.currentStory ?? null,
-            currentChoices: choicesString,
-            currentBackgroundDescription: input.currentBackgroundDescription ?? null,
-            currentBackgroundImageUrl: input.currentBackgroundImageUrl ?? null,
             score: newScore,
             createdAt: currentTimestamp,
             updatedAt: currentTimestamp,
@@ -685,42 +1153,113 @@ export const gameRouter = createTRPCRouter({
     }),
 
   // Generate Sprite - becomes public, saves URL after generation
-  generateSprite: publicProcedure // Changed from protectedProcedure to publicProcedure
-    .input(z.object({ description: z.string().min(1, "Description cannot be empty") })) // Added error message
+  generateSprite: rateLimitedProcedure({ images: 1 }) // Public, but counted against the caller's AI quotas
+    .input(z.object({
+      description: z.string().min(1, "Description cannot be empty"), // Added error message
+      // Slot whose save keeps the sprite (logged-in players only)
+      slotNumber: z.number().int().min(1).max(3).optional(),
+    }))
     .mutation(async ({ ctx, input }) => { 
-      // No database operations here, so we just add a warning if not logged in
       const isLoggedIn = !!(ctx.session && ctx.session.user);
+
+      const description = await moderateInput(input.description, "sprite_description", { userId: ctx.session?.user?.id });
+      if (description.blocked) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "That character description isn't allowed. Please try something else.",
+        });
+      }
       
-      const imageUrl = await generateImageWithAI(
-        `Retro character sprite (front view): ${input.description}`,
-        true // This is a sprite
+      const { assetId, imageUrl, spriteSheet } = await generateSpriteWithAI(
+        description.text,
+        ctx.session?.user?.id
       );
+      if (ctx.session?.user && input.slotNumber !== undefined) {
+        await recordSaveSprite(ctx.session.user.id, input.slotNumber, {
+          description: description.text,
+          assetId,
+          imageUrl,
+          spriteSheet,
+        });
+      }
       
       return { 
         imageUrl,
+        spriteSheet,
         warning: isLoggedIn ? undefined : "You are not logged in. Your game progress won't be saved."
       };
     }),
 
   // Start Game - becomes public, generates initial state, frontend saves
-  startGame: publicProcedure // Changed from protectedProcedure to publicProcedure
-    .input(z.object({
-        theme: z.string().min(1, "Theme cannot be empty"),
-        // Ensure spriteDescription is required if needed by AI function
-        spriteDescription: z.string().min(1, "Sprite description is required to start"),
-    }))
+  startGame: rateLimitedProcedure({ images: 1 }) // Public, but counted against the caller's AI quotas
+    .input(startGameInput)
     .mutation(async ({ ctx, input }) => {
-      // No database operations here, so we just add a warning if not logged in
       const isLoggedIn = !!(ctx.session && ctx.session.user);
+      // Only the moderated theme and description are used from here on
+      const setup = {
+        ...input,
+        ...(await moderatePlayerSetup(input, { userId: ctx.session?.user?.id })),
+        language: await resolveLanguage(ctx.session?.user?.id, input.language),
+      };
       
-      const initialState = await generateStoryWithAI({
-        theme: input.theme,
-        spriteDesc: input.spriteDescription,
+      const opening = buildOpeningMessages({
+        theme: setup.theme,
+        spriteDesc: setup.spriteDescription,
+        difficulty: input.difficulty,
+        language: setup.language,
+      });
+      const openingScene = await generateStoryWithAI({
+        theme: setup.theme,
+        spriteDesc: setup.spriteDescription,
+        difficulty: input.difficulty,
+        language: setup.language,
+        conversationHistory: opening.messages,
+        openingPromptVersion: opening.promptVersion,
+        owner: { userId: ctx.session?.user?.id },
+      });
+      // The opening scene may hand out starting gear
+      const { scene: initialState, character } = applySceneToCharacter(openingScene, createCharacterSheet());
+      // Start a fresh scene tree and conversation history for the slot's save
+      let saveId: number | null = null;
+      let sceneId: number | null = null;
+      if (ctx.session?.user && input.slotNumber !== undefined) {
+        saveId = await resetSaveForNewGame(
+          ctx.session.user.id,
+          { ...setup, slotNumber: input.slotNumber },
+          opening.messages
+        );
+        if (saveId !== null) {
+          sceneId = await recordScene(saveId, {
+            parentId: null,
+            scene: initialState,
+            character,
+            backgroundImageUrl: null,
+          });
+        }
+      }
+
+      // The background is generated in the background; the client polls getImageJob for it
+      const imageJobId = await queueBackgroundImage(initialState, {
+        userId: ctx.session?.user?.id,
+        saveId,
+        sceneId,
+      }, { theme: setup.theme, difficulty: input.difficulty });
+
+      // The session holds the authoritative scene that choices are checked against, and the score
+      const score = scenesSurvivedAt(null, initialState);
+      const sessionId = await createGameSession({
+        userId: ctx.session?.user?.id ?? null,
+        saveId,
+        gameTheme: setup.theme,
+        spriteDescription: setup.spriteDescription,
+        difficulty: input.difficulty,
+        language: setup.language,
+        livesRemaining: getDifficultySettings(input.difficulty).lives,
+        sceneId,
+        scene: initialState,
+        character,
+        scenesSurvived: score,
       });
-      const backgroundImageUrl = await generateImageWithAI(
-        initialState.backgroundDescription,
-        false // This is a background
-      );
 
       // Check if this is a game over state (shouldn't happen at start, but just in case)
       if (initialState.isGameOver) {
@@ -729,11 +1268,17 @@ export const gameRouter = createTRPCRouter({
             story: initialState.story,
             choices: initialState.choices,
             backgroundDescription: initialState.backgroundDescription,
+            level: initialState.level ?? null,
           },
-          backgroundImageUrl,
+          backgroundImageUrl: "",
+          imageJobId,
+          sceneId,
+          sessionId,
+          score,
+          character,
           warning: isLoggedIn ? undefined : "You are not logged in. Your game progress won't be saved.",
           gameOver: true,
-          gameOverReason: "Your adventure ended before it could begin!"
+          gameOverReason: getLanguageSettings(setup.language).text.openingEnding
         };
       }
 
@@ -743,90 +1288,104 @@ export const gameRouter = createTRPCRouter({
           story: initialState.story,
           choices: initialState.choices,
           backgroundDescription: initialState.backgroundDescription,
+          level: initialState.level ?? null,
         },
-        backgroundImageUrl,
+        backgroundImageUrl: "",
+        imageJobId,
+        sceneId,
+        sessionId,
+        score,
+        character,
         warning: isLoggedIn ? undefined : "You are not logged in. Your game progress won't be saved."
       };
     }),
 
   // Make Choice - becomes public, generates next state, frontend saves
-  makeChoice: publicProcedure
-    .input(
-      z.object({
-        choiceId: z.number(),
-        currentStory: z.string(),
-        currentChoices: z.array(
-          z.object({ id: z.number(), text: z.string() })
-        ),
-        gameTheme: z.string(),
-        spriteDescription: z.string(),
-      })
-    )
+  makeChoice: rateLimitedProcedure({ images: 1 })
+    .input(makeChoiceInput)
     .mutation(async ({ ctx, input }) => {
+      // Known once the session is loaded; used for the error scene too
+      let language: Language = DEFAULT_LANGUAGE;
       try {
         const isLoggedIn = !!(ctx.session && ctx.session.user);
         
-        // Find the selected choice text
-        const selectedChoice = input.currentChoices.find(
-          (c) => c.id === input.choiceId
-        );
-
-        if (!selectedChoice) {
-          throw new Error("Invalid choice selected.");
-        }
+        // Find the selected choice among the session's current choices
+        const { session, selectedChoice } = await loadSessionChoice(ctx.session?.user?.id, input);
+        const context = await loadChoiceContext(session);
+        const { saveId, parentSceneId, difficulty, conversationHistory } = context;
+        language = context.language;
+        const currentCharacter = getSessionCharacter(session);
+        const deaths = parseDeaths(session.deaths);
 
-        // Determine if this choice is a blunder (10% chance randomly)
-        const isBlunder = Math.random() < 0.1;
+        // Determine if this choice is a random blunder (odds depend on the difficulty)
+        const isBlunder = Math.random() < getDifficultySettings(difficulty).blunderChance;
 
         if (isBlunder) {
+          const character = { ...currentCharacter, hp: 0 };
+          const blunder = blunderState(language);
+          const sceneId = saveId !== null
+            ? await recordScene(saveId, {
+                parentId: parentSceneId,
+                choice: selectedChoice,
+                deaths,
+                scene: { ...blunder, isGameOver: true },
+                character,
+                backgroundImageUrl: null,
+              })
+            : null;
+          const score = session.scenesSurvived;
+          await updateSessionScene(session.id, { sceneId, scene: { ...blunder, isGameOver: true }, character, scenesSurvived: score });
+
           // Return game over state
           return {
-            nextState: {
-              story: "Game Over! You made a fatal mistake.",
-              backgroundDescription: "A dark and gloomy scene.",
-              choices: [
-                { id: 1, text: "Game Over" },
-                { id: 2, text: "Game Over" },
-                { id: 3, text: "Game Over" }
-              ]
-            },
+            nextState: blunder,
             backgroundImageUrl: "", // Empty to keep current
+            imageJobId: null,
+            sceneId,
+            score,
+            character,
             warning: isLoggedIn ? undefined : "You are not logged in. Your game progress won't be saved.",
             gameOver: true,
-            gameOverReason: "You made a wrong choice and your adventure ended!"
+            gameOverReason: getLanguageSettings(language).text.blunderEnding
           };
         }
 
         // Regular game continuation
-        const response = await openai.chat.completions.create({
-          model: "gpt-3.5-turbo",
-          messages: [
-            {
-              role: "system",
-              content: "You are a choose-your-own-adventure game master. Generate engaging story segments with 2-4 choices for the player. For each response, provide a JSON object with three fields: 'story' (the current narrative), 'choices' (an array of options each with 'id' and 'text'), and 'backgroundDescription' (a detailed description for image generation).  If the user blunders, they should die and all three of the choices in the json object should be 'game over!'"
-            },
-            {
-              role: "user",
-              content: `Generate the next part of the story following from: ${input.currentStory}. Include a vivid scene description, what happens next, and 2-4 choices for me. Return your response as a valid JSON object with these fields: "story" (the narrative text), "choices" (array of options with "id" and "text" fields), and "backgroundDescription" (a detailed visual description of the current scene for image generation).`
-            }
-          ],
-          response_format: { type: "json_object" },
+        const generatedScene = await generateStoryWithAI({
+          theme: session.gameTheme,
+          spriteDesc: session.spriteDescription,
+          choice: selectedChoice.text,
+          difficulty,
+          language,
+          // Without a stored history, fall back to continuing from the current scene
+          previousStory: conversationHistory ? undefined : session.currentStory,
+          conversationHistory: conversationHistory ? trimConversation(conversationHistory) : undefined,
+          character: currentCharacter,
+          deaths,
+          owner: { userId: ctx.session?.user?.id, saveId },
         });
-
-        const content = response.choices[0]?.message?.content;
-        if (!content) {
-          throw new Error("AI response content is missing or empty.");
-        }
-        const nextState = JSON.parse(content) as AIStoryResponse;
-
-        // Check if all choices are "Game Over" to trigger game over sequence
-        const allChoicesAreGameOver = nextState.choices.length > 0 && 
-          nextState.choices.every(choice => 
-            choice.text.toLowerCase().includes("game over")
-          );
-
-        // Mark as game over if all choices are game over
-        nextState.isGameOver = allChoicesAreGameOver;
+        const { scene: nextState, character } = applySceneToCharacter(generatedScene, currentCharacter);
+
+        const sceneId = saveId !== null
+          ? await recordScene(saveId, {
+              parentId: parentSceneId,
+              choice: selectedChoice,
+              deaths,
+              scene: nextState,
+              character,
+              backgroundImageUrl: null,
+            })
+          : null;
+        const score = scenesSurvivedAt(session, nextState);
+        await updateSessionScene(session.id, { sceneId, scene: nextState, character, scenesSurvived: score });
+
+        // Return the story straight away; the background is generated by an image job
+        const imageJobId = await queueBackgroundImage(nextState, {
+          userId: ctx.session?.user?.id,
+          saveId,
+          sceneId,
+          previousSceneId: parentSceneId,
+        }, { theme: session.gameTheme, difficulty });
 
         // Handle game over state
         if (nextState.isGameOver) {
@@ -835,82 +1394,434 @@ export const gameRouter = createTRPCRouter({
               story: nextState.story,
               choices: nextState.choices,
               backgroundDescription: nextState.backgroundDescription,
+              level: nextState.level ?? null,
             },
-            backgroundImageUrl: await generateImageWithAI(
-              nextState.backgroundDescription,
-              false
-            ),
+            backgroundImageUrl: "", // Empty to keep current until the image job finishes
+            imageJobId,
+            sceneId,
+            score,
+            character,
             warning: isLoggedIn ? undefined : "You are not logged in. Your game progress won't be saved.",
             gameOver: true,
-            gameOverReason: "Your adventure has come to an end!"
+            gameOverReason: nextState.ending?.reason ?? getLanguageSettings(language).text.adventureOver
           };
         }
 
-        const backgroundImageUrl = await generateImageWithAI(
-          nextState.backgroundDescription,
-          false // This is a background
-        );
-
         return {
           nextState: {
             story: nextState.story,
             choices: nextState.choices,
             backgroundDescription: nextState.backgroundDescription,
+            level: nextState.level ?? null,
           },
-          backgroundImageUrl,
+          backgroundImageUrl: "", // Empty to keep current until the image job finishes
+          imageJobId,
+          sceneId,
+          score,
+          character,
           warning: isLoggedIn ? undefined : "You are not logged in. Your game progress won't be saved."
         };
       } catch (error) {
+        // Bad sessions and choices are the client's fault, not a reason to end the game
+        if (error instanceof TRPCError) throw error;
         console.error("Error generating next state:", error);
+        const { text } = getLanguageSettings(language);
         return {
           nextState: {
-            story: "Game Over! An error occurred.",
+            story: text.errorStory,
             backgroundDescription: "A dark and gloomy scene.",
             choices: [
-              { id: 1, text: "Game Over" },
-              { id: 2, text: "Game Over" },
-              { id: 3, text: "Game Over" }
+              { id: 1, text: text.gameOverChoice },
+              { id: 2, text: text.gameOverChoice },
+              { id: 3, text: text.gameOverChoice }
             ]
           },
           backgroundImageUrl: "",
+          imageJobId: null,
+          sceneId: null,
+          score: null,
+          character: null,
           warning: "An error occurred. Your game progress won't be saved.",
           gameOver: true,
-          gameOverReason: "An error occurred. Please try again later."
+          gameOverReason: text.errorEnding
         };
       }
     }),
 
+  // Streaming variant of startGame/makeChoice: emits story text as it is generated, then the
+  // parsed scene, then "done" with the image job generating its background
+  streamScene: rateLimitedProcedure({ images: 1 })
+    .input(z.discriminatedUnion("mode", [
+      startGameInput.extend({ mode: z.literal("start") }),
+      makeChoiceInput.extend({ mode: z.literal("choice") }),
+    ]))
+    .subscription(async function* ({ ctx, input }): AsyncGenerator<SceneStreamEvent> {
+      const userId = ctx.session?.user?.id;
+
+      if (input.mode === "start") {
+        const setup = {
+          ...input,
+          ...(await moderatePlayerSetup(input, { userId })),
+          language: await resolveLanguage(userId, input.language),
+        };
+        const opening = buildOpeningMessages({
+          theme: setup.theme,
+          spriteDesc: setup.spriteDescription,
+          difficulty: input.difficulty,
+          language: setup.language,
+        });
+        const stream = streamStoryWithAI({
+          theme: setup.theme,
+          spriteDesc: setup.spriteDescription,
+          difficulty: input.difficulty,
+          language: setup.language,
+          conversationHistory: opening.messages,
+          openingPromptVersion: opening.promptVersion,
+          owner: { userId },
+        });
+        let result = await stream.next();
+        while (!result.done) {
+          yield { type: "token", text: result.value };
+          result = await stream.next();
+        }
+        // The opening scene may hand out starting gear
+        const { scene: initialState, character } = applySceneToCharacter(result.value, createCharacterSheet());
+
+        yield {
+          type: "scene",
+          state: {
+            story: initialState.story,
+            choices: initialState.choices,
+            backgroundDescription: initialState.backgroundDescription,
+            level: initialState.level ?? null,
+          },
+          gameOver: initialState.isGameOver || undefined,
+          gameOverReason: initialState.isGameOver ? getLanguageSettings(setup.language).text.openingEnding : undefined,
+          character,
+        };
+
+        let saveId: number | null = null;
+        let sceneId: number | null = null;
+        if (userId && input.slotNumber !== undefined) {
+          saveId = await resetSaveForNewGame(
+            userId,
+            { ...setup, slotNumber: input.slotNumber },
+            opening.messages
+          );
+          if (saveId !== null) {
+            sceneId = await recordScene(saveId, { parentId: null, scene: initialState, character, backgroundImageUrl: null });
+          }
+        }
+
+        const imageJobId = await queueBackgroundImage(initialState, { userId, saveId, sceneId }, {
+          theme: setup.theme,
+          difficulty: input.difficulty,
+        });
+        const score = scenesSurvivedAt(null, initialState);
+        const sessionId = await createGameSession({
+          userId: userId ?? null,
+          saveId,
+          gameTheme: setup.theme,
+          spriteDescription: setup.spriteDescription,
+          difficulty: input.difficulty,
+          language: setup.language,
+          livesRemaining: getDifficultySettings(input.difficulty).lives,
+          sceneId,
+          scene: initialState,
+          character,
+          scenesSurvived: score,
+        });
+        yield { type: "done", sessionId, sceneId, imageJobId, score };
+        return;
+      }
+
+      const { session, selectedChoice } = await loadSessionChoice(userId, input);
+      const { saveId, parentSceneId, difficulty, language, conversationHistory } = await loadChoiceContext(session);
+      const currentCharacter = getSessionCharacter(session);
+      const deaths = parseDeaths(session.deaths);
+
+      // Determine if this choice is a random blunder (odds depend on the difficulty)
+      if (Math.random() < getDifficultySettings(difficulty).blunderChance) {
+        const character = { ...currentCharacter, hp: 0 };
+        const blunder = blunderState(language);
+        yield {
+          type: "scene",
+          state: blunder,
+          gameOver: true,
+          gameOverReason: getLanguageSettings(language).text.blunderEnding,
+          character,
+        };
+        const sceneId = saveId !== null
+          ? await recordScene(saveId, {
+              parentId: parentSceneId,
+              choice: selectedChoice,
+              deaths,
+              scene: { ...blunder, isGameOver: true },
+              character,
+              backgroundImageUrl: null,
+            })
+          : null;
+        const score = session.scenesSurvived;
+        await updateSessionScene(session.id, { sceneId, scene: { ...blunder, isGameOver: true }, character, scenesSurvived: score });
+        yield { type: "done", sessionId: session.id, sceneId, imageJobId: null, score };
+        return;
+      }
+
+      const stream = streamStoryWithAI({
+        theme: session.gameTheme,
+        spriteDesc: session.spriteDescription,
+        choice: selectedChoice.text,
+        difficulty,
+        language,
+        previousStory: conversationHistory ? undefined : session.currentStory,
+        conversationHistory: conversationHistory ? trimConversation(conversationHistory) : undefined,
+        character: currentCharacter,
+        deaths,
+        owner: { userId, saveId },
+      });
+      let result = await stream.next();
+      while (!result.done) {
+        yield { type: "token", text: result.value };
+        result = await stream.next();
+      }
+      const { scene: nextState, character } = applySceneToCharacter(result.value, currentCharacter);
+
+      yield {
+        type: "scene",
+        state: {
+          story: nextState.story,
+          choices: nextState.choices,
+          backgroundDescription: nextState.backgroundDescription,
+          level: nextState.level ?? null,
+        },
+        gameOver: nextState.isGameOver || undefined,
+        gameOverReason: nextState.isGameOver
+          ? nextState.ending?.reason ?? getLanguageSettings(language).text.adventureOver
+          : undefined,
+        character,
+      };
+
+      const sceneId = saveId !== null
+        ? await recordScene(saveId, {
+            parentId: parentSceneId,
+            choice: selectedChoice,
+            deaths,
+            scene: nextState,
+            character,
+            backgroundImageUrl: null,
+          })
+        : null;
+      const score = scenesSurvivedAt(session, nextState);
+      await updateSessionScene(session.id, { sceneId, scene: nextState, character, scenesSurvived: score });
+
+      const imageJobId = await queueBackgroundImage(nextState, {
+        userId,
+        saveId,
+        sceneId,
+        previousSceneId: parentSceneId,
+      }, { theme: session.gameTheme, difficulty });
+      yield { type: "done", sessionId: session.id, sceneId, imageJobId, score };
+    }),
+
+  // Poll a queued background image
+  getImageJob: publicProcedure
+    .input(z.object({ jobId: z.number().int() }))
+    .query(async ({ ctx, input }) => {
+      const job = await getImageJob(input.jobId);
+      // Jobs created for a signed-in player are only visible to them
+      if (!job || (job.userId !== null && job.userId !== ctx.session?.user?.id)) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Image job not found." });
+      }
+      return toImageJobStatus(job);
+    }),
+
+  // List every scene generated for a save as a tree (flat list with parent pointers)
+  getSceneTree: publicProcedure
+    .input(z.object({
+      slotNumber: z.number().int().min(1).max(3)
+    }))
+    .query(async ({ ctx, input }) => {
+      if (!ctx.session || !ctx.session.user) {
+        return { status: "unauthenticated", scenes: [], activeSceneId: null } as const;
+      }
+
+      const save = await getSaveForSlot(ctx.session.user.id, input.slotNumber);
+      if (!save) {
+        return { status: "empty", scenes: [], activeSceneId: null } as const;
+      }
+
+      const allScenes = await listScenes(save.id);
+      const activePath = new Set(
+        save.activeSceneId !== null
+          ? getScenePath(allScenes, save.activeSceneId).map((scene) => scene.id)
+          : []
+      );
+
+      return {
+        status: "success",
+        activeSceneId: save.activeSceneId,
+        scenes: allScenes.map((scene) => ({
+          id: scene.id,
+          parentId: scene.parentId,
+          choiceText: scene.choiceText,
+          story: scene.story,
+          isGameOver: scene.isGameOver === 1,
+          isOnActivePath: activePath.has(scene.id),
+          createdAt: scene.createdAt,
+        })),
+      } as const;
+    }),
+
+  // Move the save's active pointer back to an earlier scene so the player can take another branch
+  rewindToScene: publicProcedure
+    .input(z.object({
+      slotNumber: z.number().int().min(1).max(3),
+      sceneId: z.number().int(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.session || !ctx.session.user) {
+        throw new TRPCError({ code: "UNAUTHORIZED", message: "Log in to rewind your adventure." });
+      }
+
+      const save = await getSaveForSlot(ctx.session.user.id, input.slotNumber);
+      const scene = await getScene(input.sceneId);
+      if (!save || !scene || scene.saveId !== save.id) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Scene not found for this save." });
+      }
+      if (scene.isGameOver === 1) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "You can't rewind to a game over scene." });
+      }
+      // Lives aren't given back by rewinding, so a run that lost its last one stays over
+      if (getSaveLives(save) <= 0) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "You've run out of lives, so this adventure can't be rewound." });
+      }
+
+      const choices = parseChoices(scene.choices);
+      const level = parseLevelLayout(scene.level);
+      // Scenes from before character sheets were stored start the character afresh
+      const character = parseCharacterSheet(scene.characterSheet);
+      await db
+        .update(gameSaves)
+        .set({
+          activeSceneId: scene.id,
+          gamePhase: "playing",
+          currentStory: scene.story,
+          currentChoices: JSON.stringify(choices),
+          currentBackgroundDescription: scene.backgroundDescription,
+          currentBackgroundAssetId: scene.backgroundAssetId,
+          currentLevel: scene.level,
+          characterSheet: JSON.stringify(character),
+          updatedAt: Math.floor(Date.now() / 1000),
+        })
+        .where(eq(gameSaves.id, save.id));
+      const score = await refreshSaveScore(save.id);
+
+      // Move the save's session to the rewound scene so choices are validated against it
+      const existingSession = await getSessionForSave(save.id);
+      const rewoundScene = {
+        story: scene.story,
+        choices,
+        backgroundDescription: scene.backgroundDescription ?? "",
+        level: level ?? undefined,
+        isGameOver: false,
+      };
+      let sessionId: string;
+      if (existingSession && existingSession.userId === save.userId) {
+        await updateSessionScene(existingSession.id, { sceneId: scene.id, scene: rewoundScene, character, scenesSurvived: score });
+        sessionId = existingSession.id;
+      } else {
+        sessionId = await createGameSession({
+          userId: save.userId,
+          saveId: save.id,
+          gameTheme: save.gameTheme ?? "",
+          spriteDescription: save.spriteDescription ?? "",
+          difficulty: parseDifficulty(save.difficulty),
+          language: parseLanguage(save.language),
+          livesRemaining: getSaveLives(save),
+          sceneId: scene.id,
+          scene: rewoundScene,
+          character,
+          scenesSurvived: score,
+        });
+      }
+
+      return {
+        sessionId,
+        sceneId: scene.id,
+        nextState: {
+          story: scene.story,
+          choices,
+          backgroundDescription: scene.backgroundDescription ?? "",
+          level,
+        },
+        backgroundImageUrl: resolveImageUrl(scene.backgroundAssetId, scene.backgroundImageUrl) ?? "",
+        score,
+        character,
+      };
+    }),
+
   // WASD Movement - handle directional movement in the game
   handleMovement: publicProcedure
     .input(
       z.object({
         direction: z.enum(["w", "a", "s", "d"]),
-        currentStory: z.string(),
-        currentChoices: z.array(
-          z.object({ id: z.number(), text: z.string() })
-        ),
-        gameTheme: z.string(),
-        spriteDescription: z.string(),
+        sessionId: z.string().uuid(),
       })
     )
     .mutation(async ({ ctx, input }) => {
       // For our platformer mechanics, we don't generate new content for WASD movement
       // The movements are handled client-side with physics
-      // This endpoint now just returns the current state unchanged
+      // This endpoint now just returns the session's current state unchanged
       
       const isLoggedIn = !!(ctx.session && ctx.session.user);
+      const session = await getGameSession(input.sessionId);
+      if (!session || (session.userId !== null && session.userId !== ctx.session?.user?.id)) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Game session not found." });
+      }
       
       return {
         nextState: {
-          story: input.currentStory,
-          choices: input.currentChoices,
+          story: session.currentStory,
+          choices: getSessionChoices(session),
           backgroundDescription: "", // Empty since we're not changing the background
+          level: parseLevelLayout(session.currentLevel),
         },
         backgroundImageUrl: "", // Return empty to keep current background
         warning: isLoggedIn ? undefined : "You are not logged in. Your game progress won't be saved."
       };
     }),
 
+  // Record a platformer death (pit, hazard or enemy) in a session. The player loses a life and
+  // restarts the scene; losing the last one ends the adventure, with the cause as the reason.
+  reportDeath: publicProcedure
+    .input(
+      z.object({
+        sessionId: z.string().uuid(),
+        cause: deathCauseSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const session = await getGameSession(input.sessionId);
+      if (!session || (session.userId !== null && session.userId !== ctx.session?.user?.id)) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Game session not found." });
+      }
+      if (session.isGameOver === 1) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "This adventure has already ended." });
+      }
+
+      const { cause, livesRemaining } = await recordDeath(session, input.cause);
+      if (livesRemaining > 0) {
+        return { livesRemaining, gameOver: false } as const;
+      }
+
+      // Out of lives: the ending is recorded here, so endGame returns it as already recorded
+      const reason = getLanguageSettings(parseLanguage(session.language)).text.deathCauses[cause.type](cause.name);
+      if (session.saveId !== null) {
+        await recordGameEnding({ saveId: session.saveId, endingType: "death", reason });
+      }
+      return { livesRemaining, gameOver: true, gameOverReason: reason } as const;
+    }),
+
   // Delete a game save
   deleteGameSave: publicProcedure
     .input(
@@ -929,6 +1840,15 @@ export const gameRouter = createTRPCRouter({
 
       const userId = ctx.session.user.id;
 
+      // Delete the save's scene tree, conversation history and unfinished run along with the save
+      const save = await getSaveForSlot(userId, input.slotNumber);
+      if (save) {
+        await clearConversation(save.id);
+        await clearScenes(save.id);
+        await deleteSessionsForSave(save.id);
+        await discardUnfinishedReplays(save.id);
+      }
+
       // Delete the game save
       await db
         .delete(gameSaves)
@@ -945,25 +1865,118 @@ export const gameRouter = createTRPCRouter({
       };
     }),
 
-  // Generate a game report
-  generateGameReport: publicProcedure
+  // End the adventure in a slot and record the server-computed score. Endings the server already saw
+  // (deaths in generated scenes, the last life lost) are returned as recorded; otherwise the player
+  // stopped the adventure, which is recorded as a quit.
+  endGame: publicProcedure
     .input(
       z.object({
-        score: z.number(),
+        slotNumber: z.number().int().min(1).max(3),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.session || !ctx.session.user) {
+        return { status: "unauthenticated" } as const;
+      }
+
+      const save = await getSaveForSlot(ctx.session.user.id, input.slotNumber);
+      if (!save) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "No save found for this slot." });
+      }
+
+      const reason = getLanguageSettings(parseLanguage(save.language)).text.stoppedAdventure;
+      const result = await recordGameEnding({ saveId: save.id, endingType: "quit", reason });
+      if (!result) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "No save found for this slot." });
+      }
+      await endSessionForSave(save.id);
+      const replayId = await finishReplay(save.id, result.ending.id);
+
+      return {
+        status: "recorded",
+        endingType: result.ending.endingType,
+        scenesSurvived: result.ending.scenesSurvived,
+        score: result.ending.score,
+        isNewHighScore: result.isNewHighScore,
+        replayId,
+      } as const;
+    }),
+
+  // Add inputs, scenes and choices recorded by the game page to the replay of a saved run.
+  // Guests' runs aren't recorded.
+  recordReplay: publicProcedure
+    .input(
+      z.object({
+        sessionId: z.string().uuid(),
+        startedAt: z.number().int().min(0), // When the page started recording, in epoch milliseconds
+        events: z.array(replayEventSchema).max(MAX_REPLAY_UPLOAD),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const session = await getGameSession(input.sessionId);
+      if (!session || (session.userId !== null && session.userId !== ctx.session?.user?.id)) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Game session not found." });
+      }
+      if (session.userId === null || session.saveId === null) {
+        return { recorded: false };
+      }
+
+      await appendReplayEvents({
+        userId: session.userId,
+        saveId: session.saveId,
+        startedAt: input.startedAt,
+        events: input.events,
+      });
+      return { recorded: true };
+    }),
+
+  // A recorded run for the replay viewer; players can only watch their own
+  getReplay: publicProcedure
+    .input(z.object({ replayId: z.number().int() }))
+    .query(async ({ ctx, input }) => {
+      if (!ctx.session || !ctx.session.user) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "You must be logged in to watch replays",
+        });
+      }
+
+      const replay = await getReplay(input.replayId);
+      if (!replay || replay.userId !== ctx.session.user.id) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Replay not found." });
+      }
+      return loadReplay(replay);
+    }),
+
+  // Generate a game report. For a logged-in player's slot the report is written from the save's
+  // scene history, so the client should only delete the save once the report is back.
+  generateGameReport: rateLimitedProcedure() // Public, but counted against the caller's AI quotas
+    .input(
+      z.object({
+        // Only used for guests; a save's report uses the save and its recorded ending
         theme: z.string(),
         spriteDescription: z.string(),
         reason: z.string(),
+        // Defaults to the language of the slot's adventure
+        language: z.enum(LANGUAGES).optional(),
+        slotNumber: z.number().int().min(1).max(3).optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      let finalScore = 0;
+      let details: ReportDetails | null = null;
       try {
+        const save = ctx.session?.user && input.slotNumber !== undefined
+          ? await getSaveForSlot(ctx.session.user.id, input.slotNumber)
+          : null;
+
+        // The score and difficulty shown are the server's, never the client's
+        const { score, difficulty } = await getReportScore(save);
+        finalScore = score;
+        details = await getReportDetails(save, input, { userId: ctx.session?.user?.id });
+
         // Generate report content using AI helper function
-        const reportContent = await generateAIGameReport(
-          input.score,
-          input.theme,
-          input.spriteDescription,
-          input.reason
-        );
+        const reportContent = await generateAIGameReport({ ...details, finalScore, difficulty, language: input.language }, save);
 
         return {
           success: true,
@@ -971,9 +1984,12 @@ export const gameRouter = createTRPCRouter({
         };
       } catch (error) {
         console.error("Error generating game report:", error);
+        const adventure = details
+          ? `\n\nYour adventure as "${details.spriteDescription}" in the world of "${details.theme}" has come to an end.\n\nReason: ${details.reason}`
+          : "";
         return {
           success: false,
-          report: `Game Over! You achieved a score of ${input.score}.\n\nYour adventure as "${input.spriteDescription}" in the world of "${input.theme}" has come to an end.\n\nReason: ${input.reason}`
+          report: `Game Over! You achieved a score of ${finalScore}.${adventure}`
         };
       }
     }),
@@ -991,41 +2007,147 @@ export const gameRouter = createTRPCRouter({
 //   })
 // ); 
 
-// Helper function to generate a game report using AI
+// Helper function to find the final score and difficulty a report shows: the score of the save's
+// recorded ending, or of the scenes survived so far if the ending couldn't be recorded. Guests have
+// no save to score.
+async function getReportScore(save: typeof gameSaves.$inferSelect | null): Promise<{ score: number, difficulty: Difficulty }> {
+  if (!save) return { score: 0, difficulty: DEFAULT_DIFFICULTY };
+
+  const difficulty = parseDifficulty(save.difficulty);
+  const ending = await findGameEnding(save);
+  if (ending) return { score: ending.score, difficulty };
+  return { score: applyScoreMultiplier(await countScenesSurvived(save), difficulty), difficulty };
+}
+
+interface ReportDetails {
+  theme: string;
+  spriteDescription: string;
+  reason: string;
+}
+
+// Helper function to find the theme, character and ending reason a report is written about. A save's
+// come from the save and its recorded ending; guests have nothing on the server, so theirs come from
+// the client and go through moderation like anything else the player typed.
+async function getReportDetails(
+  save: typeof gameSaves.$inferSelect | null,
+  input: ReportDetails & { language?: Language },
+  context: ModerationContext
+): Promise<ReportDetails> {
+  const { text } = getLanguageSettings(input.language ?? save?.language);
+  if (save) {
+    const ending = await findGameEnding(save);
+    return {
+      theme: save.gameTheme ?? "unknown",
+      spriteDescription: save.spriteDescription ?? "unknown character",
+      reason: ending?.reason ?? text.adventureOver,
+    };
+  }
+
+  const theme = await moderateInput(input.theme, "theme", context);
+  const spriteDescription = await moderateInput(input.spriteDescription, "sprite_description", context);
+  const reason = await moderateInput(input.reason, "report", context);
+  return {
+    theme: theme.blocked ? "unknown" : theme.text,
+    spriteDescription: spriteDescription.blocked ? "unknown character" : spriteDescription.text,
+    reason: reason.blocked ? text.adventureOver : reason.text,
+  };
+}
+
+// Helper function to generate a game report using AI. The recap is written from the save's scene
+// history; guests, the offline provider and any failure get the static report instead.
 async function generateAIGameReport(
-  score: number,
-  theme: string,
-  spriteDescription: string,
-  reason: string
+  input: {
+    finalScore: number,
+    theme: string,
+    spriteDescription: string,
+    reason: string,
+    difficulty: Difficulty,
+    language?: Language,
+  },
+  save: typeof gameSaves.$inferSelect | null
 ): Promise<string> {
-  // For now, we'll just generate a simple report without AI
-  // In a real implementation, you would call an AI service here
-  
-  const report = `# GAME OVER
-
-Final Score: ${score}
+  const settings = getDifficultySettings(input.difficulty);
+  const language = getLanguageSettings(input.language ?? save?.language);
+  const { text } = language;
+  const difficultyLabel = text.difficulties[input.difficulty].label;
+  const { finalScore } = input;
+  const promptContext = { theme: input.theme, difficulty: input.difficulty };
+
+  const staticReport = () => renderPrompt(
+    "game-report",
+    {
+      finalScore,
+      difficultyLabel,
+      scoreMultiplier: settings.scoreMultiplier,
+      theme: input.theme,
+      spriteDescription: input.spriteDescription,
+      reason: input.reason,
+      tip: generateRandomTip(text.report.randomTips),
+      text: text.report,
+    },
+    promptContext
+  ).text;
+
+  const provider = getStoryProvider();
+  // The offline provider can only write scenes
+  if (!save || save.activeSceneId === null || provider.name === "offline") {
+    return staticReport();
+  }
 
-You played as "${spriteDescription}" in the world of "${theme}".
+  const path = getScenePath(await listScenes(save.id), save.activeSceneId);
+  const summary = summarizeAdventure(path, Math.floor(Date.now() / 1000));
+  if (!summary) {
+    return staticReport();
+  }
 
-Your adventure came to an end because: ${reason}
+  const owner = { userId: save.userId, saveId: save.id };
+  try {
+    const prompt = renderPrompt(
+      "game-recap",
+      {
+        theme: input.theme,
+        spriteDescription: input.spriteDescription,
+        difficultyLabel,
+        reason: input.reason,
+        journey: summary.journey,
+        decisiveChoice: summary.decisiveChoice ?? "none, the adventure ended in the opening scene",
+        tipCount: RECAP_TIP_COUNT,
+        languageName: language.promptName,
+      },
+      promptContext
+    );
+    console.log(`AI TEXT API CALL: Generating game recap (${prompt.version}) for save ${save.id}`);
+    const completion = await provider.generateStory({ messages: [{ role: "user", content: prompt.text }] });
+    await recordChatUsage(provider.name, completion, owner);
 
-${score > 10 ? "Impressive score! You were doing really well." : "Better luck next time!"}
+    const recap = parseGameRecap(completion.content);
+    if (!recap) {
+      return staticReport();
+    }
 
-${generateRandomTip()}
-`;
+    // Recaps are shown like scenes, so they go through moderation too; anything it changes falls back
+    const recapText = [recap.recap, recap.decisiveChoice, ...recap.tips].join("\n");
+    const moderated = await moderateInput(recapText, "report", owner);
+    if (moderated.blocked || moderated.text !== recapText) {
+      return staticReport();
+    }
 
-  return report;
+    return formatGameReport({
+      finalScore,
+      difficultyLabel,
+      scoreMultiplier: settings.scoreMultiplier,
+      reason: input.reason,
+      summary,
+      recap,
+      text: text.report,
+    });
+  } catch (error) {
+    logStoryError(error);
+    return staticReport();
+  }
 }
 
-// Generate a random gameplay tip
-function generateRandomTip(): string {
-  const tips = [
-    "Tip: Try to avoid falling off the screen!",
-    "Tip: The more choices you make, the higher your score.",
-    "Tip: Sometimes the safest path is the best path.",
-    "Tip: Pay attention to your surroundings.",
-    "Tip: Different choices lead to different adventures."
-  ];
-  
+// Generate a random gameplay tip in the report's language
+function generateRandomTip(tips: string[]): string {
   return tips[Math.floor(Math.random() * tips.length)] || "Tip: Practice makes perfect!";
 } 
\ No newline at end of file
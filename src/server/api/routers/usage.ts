@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { adminProcedure, createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { getTopUsers, getUsageByDay, sumTotals } from "~/server/usage";
+
+const periodInput = z.object({
+  days: z.number().int().min(1).max(90).default(30),
+});
+
+// AI usage and estimated cost, recorded by the server for every chat and image call
+export const usageRouter = createTRPCRouter({
+  // The signed-in player's own usage per day
+  getMyUsage: publicProcedure
+    .input(periodInput)
+    .query(async ({ ctx, input }) => {
+      if (!ctx.session || !ctx.session.user) {
+        throw new TRPCError({ code: "UNAUTHORIZED", message: "Log in to see your usage." });
+      }
+
+      const days = await getUsageByDay({ days: input.days, userId: ctx.session.user.id });
+      return { days, totals: sumTotals(days) };
+    }),
+
+  // Usage across every player per day, plus the most expensive players (admins only)
+  getGlobalUsage: adminProcedure
+    .input(periodInput.extend({
+      topUsers: z.number().int().min(1).max(100).default(10),
+    }))
+    .query(async ({ input }) => {
+      const days = await getUsageByDay({ days: input.days });
+      const topUsers = await getTopUsers({ days: input.days, limit: input.topUsers });
+      return { days, totals: sumTotals(days), topUsers };
+    }),
+
+  // One player's usage per day, e.g. to look into a suspected abuser (admins only)
+  getUserUsage: adminProcedure
+    .input(periodInput.extend({
+      userId: z.string().min(1),
+    }))
+    .query(async ({ input }) => {
+      const days = await getUsageByDay({ days: input.days, userId: input.userId });
+      return { days, totals: sumTotals(days) };
+    }),
+});
@@ -1,16 +1,49 @@
 import { z } from "zod";
 import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
 import { db } from "~/server/db";
-import { users } from "~/server/db/schema";
+import { userSettings, users } from "~/server/db/schema";
 import { eq } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { DEFAULT_LANGUAGE, LANGUAGES, parseLanguage } from "~/utils/language";
+import { DEFAULT_SETTINGS, gameSettingsSchema, parseGameSettings, type GameSettings } from "~/utils/settings";
+import { ACHIEVEMENTS } from "~/utils/achievements";
+import { listUnlockedAchievements } from "~/server/game/achievements";
 
+// Helper function to read a player's stored settings, with the defaults for anything not saved yet
+async function getUserSettings(userId: string): Promise<GameSettings> {
+  const [row] = await db
+    .select()
+    .from(userSettings)
+    .where(eq(userSettings.userId, userId))
+    .limit(1);
+  if (!row) return DEFAULT_SETTINGS;
+
+  let keyBindings: unknown = null;
+  try {
+    keyBindings = row.keyBindings ? JSON.parse(row.keyBindings) : null;
+  } catch (error) {
+    console.error("Error parsing key bindings JSON:", error);
+  }
+
+  return parseGameSettings({
+    keyBindings,
+    textSpeed: row.textSpeed,
+    reducedMotion: row.reducedMotion === 1,
+    volume: row.volume,
+    defaultDifficulty: row.defaultDifficulty,
+  });
+}
+
+// High scores are only ever raised by the server when it records a game ending
+// (see recordGameEnding in ~/server/game/scoring)
 export const userRouter = createTRPCRouter({
   getUserData: publicProcedure
     .query(async ({ ctx }) => {
       // Check if user is authenticated
       if (!ctx.session || !ctx.session.user) {
         return { 
-          highScore: 0
+          highScore: 0,
+          language: DEFAULT_LANGUAGE
         };
       }
 
@@ -19,69 +52,96 @@ export const userRouter = createTRPCRouter({
       // Get user data
       const userData = await db
         .select({
-          highScore: users.highScore
+          highScore: users.highScore,
+          language: users.language
         })
         .from(users)
         .where(eq(users.id, userId))
         .limit(1);
 
       if (userData.length === 0) {
-        return { highScore: 0 };
+        return { highScore: 0, language: DEFAULT_LANGUAGE };
       }
 
       return {
-        highScore: userData[0]!.highScore ?? 0
+        highScore: userData[0]!.highScore ?? 0,
+        language: parseLanguage(userData[0]!.language)
       };
     }),
 
-  updateHighScore: publicProcedure
-    .input(
-      z.object({
-        score: z.number(),
-      })
-    )
+  // Save the language new adventures are told in
+  setLanguage: publicProcedure
+    .input(z.object({ language: z.enum(LANGUAGES) }))
     .mutation(async ({ ctx, input }) => {
-      // Check if user is authenticated
       if (!ctx.session || !ctx.session.user) {
-        return { 
-          success: false,
-          message: "User not authenticated"
-        };
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "You must be logged in to change your language",
+        });
       }
 
-      const userId = ctx.session.user.id;
+      await db
+        .update(users)
+        .set({ language: input.language })
+        .where(eq(users.id, ctx.session.user.id));
 
-      // Get current high score
-      const userData = await db
-        .select({
-          highScore: users.highScore
-        })
-        .from(users)
-        .where(eq(users.id, userId))
-        .limit(1);
+      return { success: true, language: input.language };
+    }),
 
-      const currentHighScore = userData[0]?.highScore ?? 0;
-
-      // Only update if new score is higher
-      if (input.score > currentHighScore) {
-        await db
-          .update(users)
-          .set({
-            highScore: input.score
-          })
-          .where(eq(users.id, userId));
-
-        return {
-          success: true,
-          message: "High score updated",
-          newHighScore: input.score
-        };
+  // Settings for the game page and the user page. Guests get the defaults (the pages keep theirs
+  // in localStorage instead).
+  getSettings: publicProcedure
+    .query(async ({ ctx }) => {
+      if (!ctx.session || !ctx.session.user) {
+        return DEFAULT_SETTINGS;
       }
 
-      return {
-        success: false,
-        message: "Score not high enough to update high score",
-        currentHighScore
+      return getUserSettings(ctx.session.user.id);
+    }),
+
+  // Save some of the player's settings, keeping the others as they were
+  updateSettings: publicProcedure
+    .input(gameSettingsSchema.partial())
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.session || !ctx.session.user) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "You must be logged in to save your settings",
+        });
+      }
+
+      const userId = ctx.session.user.id;
+      const settings = parseGameSettings({ ...(await getUserSettings(userId)), ...input });
+      const values = {
+        keyBindings: JSON.stringify(settings.keyBindings),
+        textSpeed: settings.textSpeed,
+        reducedMotion: settings.reducedMotion ? 1 : 0,
+        volume: settings.volume,
+        defaultDifficulty: settings.defaultDifficulty,
+        updatedAt: Math.floor(Date.now() / 1000),
       };
+
+      await db
+        .insert(userSettings)
+        .values({ userId, ...values })
+        .onDuplicateKeyUpdate({ set: values });
+
+      console.log(`[Settings] Saved settings for user ${userId}`);
+      return { success: true, settings };
+    }),
+
+  // The achievements catalog with when the player unlocked each one (null while locked). Guests
+  // don't earn achievements.
+  getAchievements: publicProcedure
+    .query(async ({ ctx }) => {
+      const unlocked = ctx.session?.user
+        ? await listUnlockedAchievements(ctx.session.user.id)
+        : new Map<string, number>();
+
+      return ACHIEVEMENTS.map((achievement) => ({
+        id: achievement.id,
+        icon: achievement.icon,
+        unlockedAt: unlocked.get(achievement.id) ?? null,
+      }));
     }),
-}); 
\ No newline at end of file
+});
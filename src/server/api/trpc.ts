@@ -11,8 +11,16 @@ import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import { ZodError } from "zod";
 
+import { env } from "~/env";
 import { auth } from "~/server/auth";
 import { db } from "~/server/db";
+import {
+  RateLimitExceededError,
+  UnidentifiedClientError,
+  checkRateLimit,
+  getClientIp,
+  type RateLimitCost,
+} from "~/server/ratelimit";
 
 /**
  * 1. CONTEXT
@@ -52,6 +60,9 @@ const t = initTRPC.context<typeof createTRPCContext>().create({
         ...shape.data,
         zodError:
           error.cause instanceof ZodError ? error.cause.flatten() : null,
+        // Seconds until the client may retry a TOO_MANY_REQUESTS error
+        retryAfter:
+          error.cause instanceof RateLimitExceededError ? error.cause.retryAfter : null,
       },
     };
   },
@@ -131,3 +142,42 @@ export const protectedProcedure = t.procedure
       },
     });
   });
+
+/**
+ * Admin procedure
+ *
+ * Like `protectedProcedure`, but only for the users listed in `ADMIN_USER_IDS`.
+ */
+export const adminProcedure = protectedProcedure.use(({ ctx, next }) => {
+  const adminIds = (env.ADMIN_USER_IDS ?? "").split(",").map((id) => id.trim()).filter(Boolean);
+  if (!adminIds.includes(ctx.session.user.id)) {
+    throw new TRPCError({ code: "FORBIDDEN" });
+  }
+  return next();
+});
+
+/**
+ * Rate limited procedure
+ *
+ * Use this for public procedures that call paid AI APIs. Each call counts against the caller's
+ * requests-per-minute quota, plus `cost.images` against their images-per-day quota. Signed-in users
+ * are limited per user and guests per IP address (see `getClientIp`), and every address has an
+ * overall quota shared by all its callers. Over-limit calls fail with TOO_MANY_REQUESTS and
+ * `error.data.retryAfter` set to the seconds until the quota resets; guests whose address can't be
+ * found fail with FORBIDDEN.
+ */
+export const rateLimitedProcedure = (cost: RateLimitCost = {}) =>
+  publicProcedure.use(async ({ ctx, next }) => {
+    try {
+      await checkRateLimit({ userId: ctx.session?.user?.id, ip: getClientIp(ctx.headers) }, cost);
+    } catch (error) {
+      if (error instanceof RateLimitExceededError) {
+        throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: error.message, cause: error });
+      }
+      if (error instanceof UnidentifiedClientError) {
+        throw new TRPCError({ code: "FORBIDDEN", message: error.message, cause: error });
+      }
+      throw error;
+    }
+    return next();
+  });
@@ -0,0 +1,170 @@
+import { randomUUID } from "node:crypto";
+import { eq } from "drizzle-orm";
+import { env } from "~/env";
+import { db } from "~/server/db";
+import { assets } from "~/server/db/schema";
+import type { SpriteSheet } from "~/utils/sprite";
+import { LocalAssetStore } from "./local";
+import { S3AssetStore } from "./s3";
+import { prepareSpriteSheet } from "./sprite";
+import type { AssetStore, StoredObject } from "./types";
+
+export type * from "./types";
+
+// Route that serves stored assets (see src/app/api/assets/[id]/route.ts)
+const ASSET_ROUTE = "/api/assets/";
+
+// Largest image we are willing to download and keep
+const MAX_ASSET_BYTES = 10 * 1024 * 1024;
+
+// How long an image download may take before it is abandoned, in ms
+const DOWNLOAD_TIMEOUT = 30_000;
+
+let assetStore: AssetStore | undefined;
+
+/**
+ * Where asset bytes are kept. `ASSET_STORE=s3` uses an S3-compatible bucket; otherwise assets are
+ * written to `ASSET_LOCAL_DIR` (default `.data/assets`) on the local filesystem.
+ */
+export function getAssetStore(): AssetStore {
+  if (!assetStore) {
+    if (env.ASSET_STORE === "s3") {
+      if (!env.S3_BUCKET) {
+        throw new Error("S3_BUCKET must be set when ASSET_STORE is \"s3\"");
+      }
+      assetStore = new S3AssetStore({
+        bucket: env.S3_BUCKET,
+        region: env.S3_REGION ?? "us-east-1",
+        endpoint: env.S3_ENDPOINT,
+        accessKeyId: env.S3_ACCESS_KEY_ID,
+        secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+        prefix: env.S3_PREFIX,
+      });
+    } else {
+      assetStore = new LocalAssetStore(env.ASSET_LOCAL_DIR ?? ".data/assets");
+    }
+    console.log(`[Assets] Using ${assetStore.name} asset store`);
+  }
+  return assetStore;
+}
+
+// Helper function to get the bytes behind an image URL, including data: URLs from the offline provider
+async function downloadImage(url: string): Promise<StoredObject> {
+  const dataUrl = /^data:([^;,]+)(;base64)?,(.*)$/s.exec(url);
+  if (dataUrl) {
+    const [, contentType = "application/octet-stream", base64, payload = ""] = dataUrl;
+    const data = base64 ? Buffer.from(payload, "base64") : Buffer.from(decodeURIComponent(payload));
+    return { data, contentType };
+  }
+
+  // The timeout covers reading the body too, so a server that stalls mid-download is abandoned as well
+  const response = await fetch(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT) });
+  if (!response.ok) {
+    throw new Error(`Failed to download image (${response.status} ${response.statusText})`);
+  }
+  const contentType = response.headers.get("content-type") ?? "application/octet-stream";
+  if (!contentType.startsWith("image/")) {
+    throw new Error(`Downloaded asset is not an image (${contentType})`);
+  }
+  const contentLength = Number(response.headers.get("content-length"));
+  if (contentLength > MAX_ASSET_BYTES) {
+    throw new Error(`Image is too large to download (${contentLength} bytes)`);
+  }
+  return { data: await readBody(response, MAX_ASSET_BYTES), contentType };
+}
+
+// Helper function to read a response body, giving up as soon as it grows past maxBytes (the
+// content-length header can be missing or wrong)
+async function readBody(response: Response, maxBytes: number): Promise<Buffer> {
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Image is too large to download (over ${maxBytes} bytes)`);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Helper function to put an image in the asset store and record it, returning the new asset's id
+async function storeImage(object: StoredObject, kind: "sprite" | "background", userId?: string): Promise<string> {
+  if (object.data.length > MAX_ASSET_BYTES) {
+    throw new Error(`Image is too large to store (${object.data.length} bytes)`);
+  }
+
+  const store = getAssetStore();
+  const id = randomUUID();
+  const storageKey = `${kind}s/${id}`;
+  await store.put(storageKey, object);
+  await db.insert(assets).values({
+    id,
+    kind,
+    store: store.name,
+    storageKey,
+    contentType: object.contentType,
+    size: object.data.length,
+    userId: userId ?? null,
+    createdAt: Math.floor(Date.now() / 1000),
+  });
+
+  console.log(`[Assets] Stored ${kind} ${id} (${object.data.length} bytes)`);
+  return id;
+}
+
+/**
+ * Download an image (e.g. a short-lived DALL·E URL) into the asset store and record it.
+ * Returns the new asset's id.
+ */
+export async function storeImageFromUrl(url: string, kind: "sprite" | "background", userId?: string): Promise<string> {
+  return storeImage(await downloadImage(url), kind, userId);
+}
+
+/**
+ * Download a generated sprite sheet, remove its background and store it as a PNG. Returns the new
+ * asset's id and the sheet's frame metadata.
+ */
+export async function storeSpriteSheetFromUrl(url: string, userId?: string): Promise<{ assetId: string; sheet: SpriteSheet }> {
+  const downloaded = await downloadImage(url);
+  if (downloaded.data.length > MAX_ASSET_BYTES) {
+    throw new Error(`Image is too large to store (${downloaded.data.length} bytes)`);
+  }
+  const { object, sheet } = await prepareSpriteSheet(downloaded);
+  return { assetId: await storeImage(object, "sprite", userId), sheet };
+}
+
+// Load an asset's bytes by id, or null if it doesn't exist
+export async function getAsset(id: string): Promise<StoredObject | null> {
+  const [asset] = await db
+    .select()
+    .from(assets)
+    .where(eq(assets.id, id))
+    .limit(1);
+  if (!asset) return null;
+
+  const object = await getAssetStore().get(asset.storageKey);
+  return object ? { data: object.data, contentType: asset.contentType } : null;
+}
+
+// URL the browser loads an asset from
+export const assetUrl = (id: string) => `${ASSET_ROUTE}${id}`;
+
+// Asset id behind one of our asset URLs, or null for any other URL
+export function assetIdFromUrl(url: string | null | undefined): string | null {
+  if (!url?.startsWith(ASSET_ROUTE)) return null;
+  const id = url.substring(ASSET_ROUTE.length);
+  return /^[0-9a-f-]{36}$/.test(id) ? id : null;
+}
+
+// URL to show for a stored image: the asset when there is one, else the URL saved before assets existed
+export function resolveImageUrl(assetId: string | null | undefined, legacyUrl?: string | null): string | null {
+  if (assetId) return assetUrl(assetId);
+  return legacyUrl ?? null;
+}
@@ -0,0 +1,52 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { AssetStore, StoredObject } from "./types";
+
+const isNotFound = (error: unknown) =>
+  error instanceof Error && "code" in error && error.code === "ENOENT";
+
+/**
+ * Keeps assets on the local filesystem under `rootDir`. The content type is stored next to the
+ * bytes in a small sidecar file so the store can be read back without the database.
+ */
+export class LocalAssetStore implements AssetStore {
+  readonly name = "local";
+
+  constructor(private readonly rootDir: string) {}
+
+  // Keys are generated by us, but never let one escape the root directory
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid asset key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, object: StoredObject): Promise<void> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, object.data);
+    await writeFile(`${filePath}.type`, object.contentType);
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    const filePath = this.resolve(key);
+    try {
+      const [data, contentType] = await Promise.all([
+        readFile(filePath),
+        readFile(`${filePath}.type`, "utf8").catch(() => "application/octet-stream"),
+      ]);
+      return { data, contentType };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await rm(filePath, { force: true });
+    await rm(`${filePath}.type`, { force: true });
+  }
+}
@@ -0,0 +1,75 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import type { AssetStore, StoredObject } from "./types";
+
+export interface S3AssetStoreOptions {
+  bucket: string;
+  region: string;
+  // Custom endpoint for S3-compatible services (MinIO, R2, ...)
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  // Prefix prepended to every key, so the bucket can be shared
+  prefix?: string;
+}
+
+// Keeps assets in an S3 (or S3-compatible) bucket
+export class S3AssetStore implements AssetStore {
+  readonly name = "s3";
+
+  private readonly client: S3Client;
+
+  constructor(private readonly options: S3AssetStoreOptions) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      // Most S3-compatible services only support path-style addressing
+      forcePathStyle: !!options.endpoint,
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  private objectKey(key: string): string {
+    return `${this.options.prefix ?? ""}${key}`;
+  }
+
+  async put(key: string, object: StoredObject): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.options.bucket,
+      Key: this.objectKey(key),
+      Body: object.data,
+      ContentType: object.contentType,
+    }));
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({
+        Bucket: this.options.bucket,
+        Key: this.objectKey(key),
+      }));
+      if (!response.Body) return null;
+      return {
+        data: Buffer.from(await response.Body.transformToByteArray()),
+        contentType: response.ContentType ?? "application/octet-stream",
+      };
+    } catch (error) {
+      if (error instanceof NoSuchKey) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.options.bucket,
+      Key: this.objectKey(key),
+    }));
+  }
+}
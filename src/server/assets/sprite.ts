@@ -0,0 +1,81 @@
+import sharp from "sharp";
+import { createSpriteSheet, type SpriteSheet } from "~/utils/sprite";
+import type { StoredObject } from "./types";
+
+// How far (RGB distance) a pixel's color may be from the backdrop and still be removed
+const BACKGROUND_TOLERANCE = 48;
+// Corners this transparent mean the image already has no backdrop
+const TRANSPARENT_ALPHA = 16;
+
+// Helper function to read a pixel's color as [r, g, b, a]
+const pixelAt = (pixels: Buffer, index: number) => [
+  pixels[index * 4]!,
+  pixels[index * 4 + 1]!,
+  pixels[index * 4 + 2]!,
+  pixels[index * 4 + 3]!,
+] as const;
+
+/**
+ * Make a sprite sheet's backdrop transparent in place. The backdrop color is taken from the
+ * corners, and only pixels connected to the border are removed, so parts of the character in the
+ * same color (e.g. white eyes on a white backdrop) are kept. Returns how many pixels were cleared.
+ */
+export function removeBackground(pixels: Buffer, width: number, height: number): number {
+  const corners = [0, width - 1, (height - 1) * width, height * width - 1].map((index) => pixelAt(pixels, index));
+  if (corners.every(([, , , alpha]) => alpha < TRANSPARENT_ALPHA)) return 0;
+
+  const backdrop = [0, 1, 2].map((channel) =>
+    corners.reduce((total, corner) => total + corner[channel]!, 0) / corners.length
+  );
+  const isBackdrop = (index: number) => {
+    const [r, g, b, alpha] = pixelAt(pixels, index);
+    if (alpha < TRANSPARENT_ALPHA) return true;
+    return Math.hypot(r - backdrop[0]!, g - backdrop[1]!, b - backdrop[2]!) <= BACKGROUND_TOLERANCE;
+  };
+
+  // Flood fill from every border pixel
+  const visited = new Uint8Array(width * height);
+  const stack: number[] = [];
+  for (let x = 0; x < width; x++) stack.push(x, (height - 1) * width + x);
+  for (let y = 0; y < height; y++) stack.push(y * width, y * width + width - 1);
+
+  let cleared = 0;
+  while (stack.length > 0) {
+    const index = stack.pop()!;
+    if (visited[index] || !isBackdrop(index)) continue;
+    visited[index] = 1;
+    pixels[index * 4 + 3] = 0;
+    cleared++;
+
+    const x = index % width;
+    if (x > 0) stack.push(index - 1);
+    if (x < width - 1) stack.push(index + 1);
+    if (index >= width) stack.push(index - width);
+    if (index < (height - 1) * width) stack.push(index + width);
+  }
+  return cleared;
+}
+
+/**
+ * Turn a generated sprite sheet into a PNG with a transparent background, along with the frame
+ * metadata the game page animates it with. Everything runs locally with sharp.
+ */
+export async function prepareSpriteSheet(object: StoredObject): Promise<{ object: StoredObject; sheet: SpriteSheet }> {
+  const { data, info } = await sharp(object.data)
+    .toColourspace("srgb")
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const cleared = removeBackground(data, info.width, info.height);
+  console.log(`[Assets] Removed ${cleared} background pixels from a ${info.width}x${info.height} sprite sheet`);
+
+  const png = await sharp(data, { raw: { width: info.width, height: info.height, channels: 4 } })
+    .png()
+    .toBuffer();
+
+  return {
+    object: { data: png, contentType: "image/png" },
+    sheet: createSpriteSheet(info.width, info.height),
+  };
+}
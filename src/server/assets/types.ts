@@ -0,0 +1,15 @@
+// Shared types for the asset stores that hold generated images
+
+export interface StoredObject {
+  data: Buffer;
+  contentType: string;
+}
+
+// Somewhere to keep asset bytes by key. Metadata (content type, size, owner) lives in the
+// assets table; stores only need to round-trip the bytes.
+export interface AssetStore {
+  readonly name: string;
+  put(key: string, object: StoredObject): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+}
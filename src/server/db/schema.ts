@@ -16,6 +16,7 @@ import { type AdapterAccount } from "next-auth/adapters";
 // Import necessary functions from singlestore-core
 import {
   int,
+  mediumtext,
   text,
   varchar,
   // index, // Assuming not available/compatible
@@ -61,14 +62,30 @@ export const users = createTable("user", {
   emailVerified: int("email_verified"),
   image: varchar("image", { length: 255 }),
   highScore: int("high_score").default(0),
+  language: varchar("language", { length: 10 }), // Preferred language for adventures, see ~/utils/language
 });
 
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
   accounts: many(accounts),
   sessions: many(sessions),
   gameSaves: many(gameSaves),
+  gameEndings: many(gameEndings),
+  settings: one(userSettings),
+  achievements: many(achievements),
 }));
 
+// A signed-in player's game settings (controls, text speed, accessibility), see ~/utils/settings.
+// Players without a row play with the defaults.
+export const userSettings = createTable("user_settings", {
+  userId: varchar("user_id", { length: 255 }).notNull().primaryKey(),
+  keyBindings: text("key_bindings"), // JSON map of action to keys
+  textSpeed: varchar("text_speed", { length: 20 }), // "slow" | "normal" | "fast" | "instant"
+  reducedMotion: int("reduced_motion").default(0).notNull(),
+  volume: int("volume"), // Percent
+  defaultDifficulty: varchar("default_difficulty", { length: 20 }), // Difficulty picked for new adventures
+  updatedAt: int("updated_at").notNull(),
+});
+
 export const accounts = createTable("account", {
   userId: varchar("user_id", { length: 255 })
     .notNull(), 
@@ -85,6 +102,10 @@ export const accounts = createTable("account", {
   session_state: varchar("session_state", { length: 255 }),
 });
 
+export const userSettingsRelations = relations(userSettings, ({ one }) => ({
+  user: one(users, { fields: [userSettings.userId], references: [users.id] }),
+}));
+
 export const accountsRelations = relations(accounts, ({ one }) => ({
   user: one(users, { fields: [accounts.userId], references: [users.id] }),
 }));
@@ -117,17 +138,204 @@ export const gameSaves = createTable("game_save", {
     .notNull(),
   gamePhase: varchar("game_phase", { length: 50 }).notNull(),
   spriteDescription: text("sprite_description"),
-  spriteUrl: text("sprite_url"),
+  spriteUrl: text("sprite_url"), // Legacy: third-party URL from before assets were stored
+  spriteAssetId: varchar("sprite_asset_id", { length: 36 }),
+  spriteSheet: text("sprite_sheet"), // JSON frame metadata for the sprite sheet, see ~/utils/sprite
   gameTheme: text("game_theme"),
   currentStory: text("current_story"),
   currentChoices: text("current_choices"),
   currentBackgroundDescription: text("current_background_description"),
-  currentBackgroundImageUrl: text("current_background_image_url"),
-  score: int("score").default(0), // Number of screens player has seen
+  currentBackgroundImageUrl: text("current_background_image_url"), // Legacy, see spriteUrl
+  currentBackgroundAssetId: varchar("current_background_asset_id", { length: 36 }),
+  currentLevel: text("current_level"), // JSON level layout of the active scene, see ~/utils/level
+  score: int("score").default(0), // Scenes survived on the active branch, kept up to date by the server
   slotName: varchar("slot_name", { length: 100 }), // Optional name for the save slot
+  activeSceneId: int("active_scene_id"), // Scene the player is currently at in the scene tree
+  difficulty: varchar("difficulty", { length: 20 }).default("normal"), // "story" | "normal" | "hardcore"
+  language: varchar("language", { length: 10 }).default("en"), // Language the adventure is told in
+  characterSheet: text("character_sheet"), // JSON character sheet at the active scene, see ~/utils/character
+  livesRemaining: int("lives_remaining"), // Null means the difficulty's full lives
 });
 
-export const gameSavesRelations = relations(gameSaves, ({ one }) => ({
+export const gameSavesRelations = relations(gameSaves, ({ one, many }) => ({
   user: one(users, { fields: [gameSaves.userId], references: [users.id] }),
+  messages: many(gameMessages),
+  scenes: many(scenes),
+}));
+
+// Ordered narrator conversation for a save, replayed to the model on every choice
+export const gameMessages = createTable("game_message", {
+  id: int("id").primaryKey().autoincrement(),
+  saveId: int("save_id").notNull(),
+  sceneId: int("scene_id"), // Scene this exchange produced; null for the opening messages
+  position: int("position").notNull(), // Order of the message within the save's conversation
+  role: varchar("role", { length: 20 }).notNull(), // "system" | "user" | "assistant"
+  content: text("content").notNull(),
+  createdAt: int("created_at").notNull(),
+});
+
+export const gameMessagesRelations = relations(gameMessages, ({ one }) => ({
+  save: one(gameSaves, { fields: [gameMessages.saveId], references: [gameSaves.id] }),
+}));
+
+
+// Every generated scene of a save, linked to the scene (and choice) it branched from
+export const scenes = createTable("scene", {
+  id: int("id").primaryKey().autoincrement(),
+  saveId: int("save_id").notNull(),
+  parentId: int("parent_id"), // Null for the opening scene
+  choiceId: int("choice_id"), // Choice in the parent scene that led here
+  choiceText: text("choice_text"),
+  story: text("story").notNull(),
+  choices: text("choices").notNull(), // JSON array of { id, text }
+  backgroundDescription: text("background_description"),
+  backgroundImageUrl: text("background_image_url"), // Legacy, see gameSaves.spriteUrl
+  backgroundAssetId: varchar("background_asset_id", { length: 36 }),
+  isGameOver: int("is_game_over").default(0).notNull(),
+  characterSheet: text("character_sheet"), // JSON character sheet after this scene, restored on rewind
+  level: text("level"), // JSON platforming layout, see ~/utils/level
+  deaths: text("deaths"), // JSON array of the lives lost in this scene, see DeathCause in ~/utils/level
+  promptVersion: varchar("prompt_version", { length: 100 }), // Prompt templates that produced it, e.g. "next-scene@1"
+  createdAt: int("created_at").notNull(),
+});
+
+export const scenesRelations = relations(scenes, ({ one }) => ({
+  save: one(gameSaves, { fields: [scenes.saveId], references: [gameSaves.id] }),
+  parent: one(scenes, { fields: [scenes.parentId], references: [scenes.id] }),
+}));
+
+// Generated images we keep in the asset store, served from /api/assets/[id]
+export const assets = createTable("asset", {
+  id: varchar("id", { length: 36 }).notNull().primaryKey(),
+  kind: varchar("kind", { length: 20 }).notNull(), // "sprite" | "background"
+  store: varchar("store", { length: 20 }).notNull(), // Asset store holding the bytes ("local" | "s3")
+  storageKey: varchar("storage_key", { length: 255 }).notNull(),
+  contentType: varchar("content_type", { length: 100 }).notNull(),
+  size: int("size").notNull(),
+  userId: varchar("user_id", { length: 255 }), // Player the image was generated for, if signed in
+  createdAt: int("created_at").notNull(),
+});
+
+// Background image generation jobs, processed by the in-process worker in src/server/jobs/images.ts
+export const imageJobs = createTable("image_job", {
+  id: int("id").primaryKey().autoincrement(),
+  kind: varchar("kind", { length: 20 }).notNull(), // "sprite" | "background"
+  prompt: text("prompt").notNull(),
+  status: varchar("status", { length: 20 }).notNull(), // "pending" | "running" | "done" | "failed"
+  attempts: int("attempts").default(0).notNull(),
+  runAt: int("run_at").notNull(), // Earliest time the job may (re)try
+  lockedAt: int("locked_at"), // When a worker claimed the job
+  userId: varchar("user_id", { length: 255 }),
+  saveId: int("save_id"), // Save whose current background should be updated
+  sceneId: int("scene_id"), // Scene the image belongs to
+  fallbackAssetId: varchar("fallback_asset_id", { length: 36 }), // Previous background, used if every attempt fails
+  assetId: varchar("asset_id", { length: 36 }), // Resulting image
+  error: text("error"),
+  createdAt: int("created_at").notNull(),
+  updatedAt: int("updated_at").notNull(),
+});
+
+// Finished adventures, recorded by the server with the score it computed from the save's scenes
+export const gameEndings = createTable("game_ending", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: varchar("user_id", { length: 255 }).notNull(),
+  saveId: int("save_id").notNull(),
+  sceneId: int("scene_id"), // Scene the adventure ended at
+  endingType: varchar("ending_type", { length: 20 }).notNull(), // "death" | "victory" | "quit"
+  reason: text("reason"),
+  gameTheme: text("game_theme"),
+  difficulty: varchar("difficulty", { length: 20 }),
+  scenesSurvived: int("scenes_survived").notNull(),
+  score: int("score").notNull(), // scenesSurvived with the difficulty's multiplier applied
+  createdAt: int("created_at").notNull(),
+});
+
+export const gameEndingsRelations = relations(gameEndings, ({ one }) => ({
+  user: one(users, { fields: [gameEndings.userId], references: [users.id] }),
 }));
 
+// Achievements players have unlocked, checked by the server as scenes and endings are recorded (see ~/utils/achievements)
+export const achievements = createTable("achievement", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: varchar("user_id", { length: 255 }).notNull(),
+  achievementId: varchar("achievement_id", { length: 50 }).notNull(), // Id in the catalog, e.g. "survivor"
+  saveId: int("save_id"), // Save of the run it was unlocked in
+  unlockedAt: int("unlocked_at").notNull(),
+});
+
+export const achievementsRelations = relations(achievements, ({ one }) => ({
+  user: one(users, { fields: [achievements.userId], references: [users.id] }),
+}));
+
+// Recorded runs, played back by /replay/[id]: the player's inputs, scenes and choices on a
+// timeline. A save's latest replay is the run in progress; a new game in the slot starts another.
+export const replays = createTable("replay", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: varchar("user_id", { length: 255 }).notNull(),
+  saveId: int("save_id").notNull(), // Save the run was played in
+  endingId: int("ending_id"), // Ending of the run, once it's over
+  timeline: mediumtext("timeline").notNull(), // JSON array of events, see ReplayEvent in ~/utils/replay
+  snapshot: mediumtext("snapshot"), // JSON copy of the save's sprite and scenes, taken when the run ends (they're deleted with the save)
+  createdAt: int("created_at").notNull(),
+  updatedAt: int("updated_at").notNull(),
+});
+
+// Server-held state of a game in progress. The client only ever sends the session id and the id of
+// the choice it picked; the current scene lives here. Guests get sessions too (with no save).
+export const gameSessions = createTable("game_session", {
+  id: varchar("id", { length: 36 }).notNull().primaryKey(), // Opaque random id
+  userId: varchar("user_id", { length: 255 }), // Null for guests
+  saveId: int("save_id"), // Save the session plays, if any
+  gameTheme: text("game_theme").notNull(),
+  spriteDescription: text("sprite_description").notNull(),
+  difficulty: varchar("difficulty", { length: 20 }).notNull(),
+  language: varchar("language", { length: 10 }).default("en").notNull(),
+  currentSceneId: int("current_scene_id"), // Only set for saved games
+  currentStory: text("current_story").notNull(),
+  currentChoices: text("current_choices").notNull(), // JSON array of { id, text }
+  currentBackgroundDescription: text("current_background_description"),
+  currentLevel: text("current_level"), // JSON level layout, see ~/utils/level
+  characterSheet: text("character_sheet"), // JSON character sheet at the current scene
+  livesRemaining: int("lives_remaining").notNull(),
+  scenesSurvived: int("scenes_survived").default(0).notNull(), // The run's score so far, shown while playing
+  deaths: text("deaths"), // JSON array of the lives lost in the current scene, told to the narrator with the next choice
+  isGameOver: int("is_game_over").default(0).notNull(),
+  createdAt: int("created_at").notNull(),
+  updatedAt: int("updated_at").notNull(),
+});
+
+// Player input or generated content caught by the moderation layer, and what was done about it
+export const moderationEvents = createTable("moderation_event", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: varchar("user_id", { length: 255 }), // Null for guests
+  saveId: int("save_id"),
+  source: varchar("source", { length: 32 }).notNull(), // "sprite_description" | "theme" | "scene" | "report"
+  classifier: varchar("classifier", { length: 20 }).notNull(), // "openai" | "keywords"
+  action: varchar("action", { length: 20 }).notNull(), // "block" | "soften" | "flag"
+  categories: text("categories").notNull(), // JSON array of category names
+  excerpt: text("excerpt").notNull(), // Start of the offending text, for review
+  createdAt: int("created_at").notNull(),
+});
+
+// Request/image counters for rate limiting, one row per identity, quota and window
+export const rateLimitBuckets = createTable("rate_limit_bucket", {
+  key: varchar("key", { length: 255 }).notNull().primaryKey(), // e.g. "images:user:<id>:<window start>"
+  count: int("count").default(0).notNull(),
+  expiresAt: int("expires_at").notNull(), // End of the window; expired rows are cleaned up lazily
+});
+
+// Ledger of every chat and image call made to an AI provider, with its estimated cost
+export const aiUsage = createTable("ai_usage", {
+  id: int("id").primaryKey().autoincrement(),
+  kind: varchar("kind", { length: 20 }).notNull(), // "chat" | "image"
+  provider: varchar("provider", { length: 20 }).notNull(), // "openai" | "offline"
+  model: varchar("model", { length: 64 }).notNull(),
+  userId: varchar("user_id", { length: 255 }), // Null for guests and unattributed calls
+  saveId: int("save_id"),
+  promptTokens: int("prompt_tokens").default(0).notNull(),
+  completionTokens: int("completion_tokens").default(0).notNull(),
+  imageSize: varchar("image_size", { length: 20 }), // e.g. "1024x1024"
+  imageCount: int("image_count").default(0).notNull(),
+  costMicros: int("cost_micros").default(0).notNull(), // Estimated cost in millionths of a US dollar
+  createdAt: int("created_at").notNull(),
+});
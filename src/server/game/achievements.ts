@@ -0,0 +1,110 @@
+import { and, asc, eq, ne } from "drizzle-orm";
+import { db } from "~/server/db";
+import { achievements, gameEndings, gameSaves } from "~/server/db/schema";
+import {
+  ACHIEVEMENTS,
+  parseAchievementId,
+  type AchievementCondition,
+  type AchievementId,
+} from "~/utils/achievements";
+import { getDifficultySettings, parseDifficulty } from "~/utils/difficulty";
+import { getSaveLives } from "./deaths";
+import type { GameEndingRow } from "./scoring";
+
+type GameSaveRow = typeof gameSaves.$inferSelect;
+
+// Achievements a player has unlocked, with when, oldest first
+export async function listUnlockedAchievements(userId: string): Promise<Map<AchievementId, number>> {
+  const rows = await db
+    .select()
+    .from(achievements)
+    .where(eq(achievements.userId, userId))
+    .orderBy(asc(achievements.unlockedAt));
+
+  const unlocked = new Map<AchievementId, number>();
+  for (const row of rows) {
+    const id = parseAchievementId(row.achievementId);
+    if (id && !unlocked.has(id)) unlocked.set(id, row.unlockedAt);
+  }
+  return unlocked;
+}
+
+// Helper function to tell whether a run (and the ending it just reached, if any) meets a condition.
+// finishedThemes loads the themes of the player's finished (not quit) adventures, only when a condition needs them.
+async function meetsCondition(
+  condition: AchievementCondition,
+  save: GameSaveRow,
+  ending: GameEndingRow | null,
+  finishedThemes: () => Promise<Array<string | null>>
+): Promise<boolean> {
+  switch (condition.type) {
+    case "scenesSurvived": {
+      const scenesSurvived = ending?.scenesSurvived ?? save.score ?? 0;
+      if (scenesSurvived < condition.count) return false;
+      if (condition.difficulty && parseDifficulty(save.difficulty) !== condition.difficulty) return false;
+      if (condition.withoutLosingALife && getSaveLives(save) < getDifficultySettings(save.difficulty).lives) return false;
+      return true;
+    }
+    case "ending":
+      return ending !== null &&
+        ending.endingType === condition.endingType &&
+        (condition.maxScenesSurvived === undefined || ending.scenesSurvived <= condition.maxScenesSurvived);
+    case "adventuresFinished": {
+      const themes = await finishedThemes();
+      const count = condition.distinctThemes
+        ? new Set(themes.map((theme) => theme?.trim().toLowerCase() ?? "")).size
+        : themes.length;
+      return count >= condition.count;
+    }
+  }
+}
+
+/**
+ * Check the catalog against a save's run after a scene or an ending was recorded for it, and unlock
+ * whatever the player has newly earned. Returns the achievements unlocked. Achievements are a
+ * side show, so a failure here is logged rather than failing the scene or ending.
+ */
+export async function checkAchievements(saveId: number, ending: GameEndingRow | null = null): Promise<AchievementId[]> {
+  try {
+    return await unlockEarnedAchievements(saveId, ending);
+  } catch (error) {
+    console.error("Error checking achievements:", error);
+    return [];
+  }
+}
+
+async function unlockEarnedAchievements(saveId: number, ending: GameEndingRow | null): Promise<AchievementId[]> {
+  const [save] = await db
+    .select()
+    .from(gameSaves)
+    .where(eq(gameSaves.id, saveId))
+    .limit(1);
+  if (!save) return [];
+
+  const unlocked = await listUnlockedAchievements(save.userId);
+  let themes: Array<string | null> | null = null;
+  const finishedThemes = async () => {
+    themes ??= (await db
+      .select({ gameTheme: gameEndings.gameTheme })
+      .from(gameEndings)
+      .where(and(eq(gameEndings.userId, save.userId), ne(gameEndings.endingType, "quit")))).map((row) => row.gameTheme);
+    return themes;
+  };
+
+  const earned: AchievementId[] = [];
+  for (const achievement of ACHIEVEMENTS) {
+    if (unlocked.has(achievement.id)) continue;
+    if (await meetsCondition(achievement.condition, save, ending, finishedThemes)) {
+      earned.push(achievement.id);
+    }
+  }
+  if (earned.length === 0) return [];
+
+  const unlockedAt = Math.floor(Date.now() / 1000);
+  await db.insert(achievements).values(
+    earned.map((achievementId) => ({ userId: save.userId, achievementId, saveId, unlockedAt }))
+  );
+
+  console.log(`[Achievements] User ${save.userId} unlocked ${earned.join(", ")}`);
+  return earned;
+}
@@ -0,0 +1,78 @@
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "~/server/db";
+import { gameSaves, gameSessions, scenes } from "~/server/db/schema";
+import { getDifficultySettings } from "~/utils/difficulty";
+import { deathCauseSchema, parseLevelLayout, type DeathCause } from "~/utils/level";
+import { getScene } from "./scenes";
+import type { GameSessionRow } from "./sessions";
+
+// Parse a JSON deaths column, returning an empty list for anything malformed
+export function parseDeaths(value: string | null | undefined): DeathCause[] {
+  if (!value?.trim()) return [];
+  try {
+    const result = z.array(deathCauseSchema).safeParse(JSON.parse(value));
+    if (result.success) return result.data;
+  } catch (error) {
+    console.error("Error parsing deaths JSON:", error);
+  }
+  return [];
+}
+
+// Lives a save has left. New games (and saves from before lives existed) have the difficulty's full lives.
+export const getSaveLives = (save: { livesRemaining: number | null; difficulty: string | null }): number =>
+  save.livesRemaining ?? getDifficultySettings(save.difficulty).lives;
+
+// The cause comes from the client, so only keep a name the session's level actually gives to a
+// pit, hazard or enemy of that type
+function checkDeathCause(session: GameSessionRow, cause: DeathCause): DeathCause {
+  const level = parseLevelLayout(session.currentLevel);
+  if (!level || !cause.name) return { type: cause.type };
+
+  const names = cause.type === "pit"
+    ? level.gaps.map((gap) => gap.name)
+    : cause.type === "enemy"
+      ? level.enemies.map((enemy) => enemy.name)
+      : level.hazards.filter((hazard) => hazard.type === cause.type).map((hazard) => hazard.name);
+  return names.includes(cause.name) ? cause : { type: cause.type };
+}
+
+/**
+ * Record a platformer death in a session: the player loses a life, and the cause is kept for the
+ * narrator (told with the next choice) and, for saved games, on the scene it happened in (for the
+ * game report). Losing the last life ends the session. Returns the cause as recorded and the lives left.
+ */
+export async function recordDeath(
+  session: GameSessionRow,
+  reported: DeathCause
+): Promise<{ cause: DeathCause; livesRemaining: number }> {
+  const cause = checkDeathCause(session, reported);
+  const livesRemaining = Math.max(0, session.livesRemaining - 1);
+  await db
+    .update(gameSessions)
+    .set({
+      livesRemaining,
+      deaths: JSON.stringify([...parseDeaths(session.deaths), cause]),
+      isGameOver: livesRemaining === 0 ? 1 : session.isGameOver,
+      updatedAt: Math.floor(Date.now() / 1000),
+    })
+    .where(eq(gameSessions.id, session.id));
+
+  if (session.saveId !== null) {
+    await db
+      .update(gameSaves)
+      .set({ livesRemaining })
+      .where(eq(gameSaves.id, session.saveId));
+  }
+
+  const scene = session.currentSceneId !== null ? await getScene(session.currentSceneId) : null;
+  if (scene) {
+    await db
+      .update(scenes)
+      .set({ deaths: JSON.stringify([...parseDeaths(scene.deaths), cause]) })
+      .where(eq(scenes.id, scene.id));
+  }
+
+  console.log(`[Lives] Session ${session.id} lost a life (${cause.type}), ${livesRemaining} left`);
+  return { cause, livesRemaining };
+}
@@ -0,0 +1,85 @@
+import { and, asc, eq, inArray, isNull, or } from "drizzle-orm";
+import { db } from "~/server/db";
+import { gameMessages } from "~/server/db/schema";
+import type { StoryMessage } from "~/server/ai";
+
+// Number of most recent choice/response exchanges replayed to the model. Older turns stay in the
+// database but are dropped from the prompt so long adventures don't overflow the context window.
+const MAX_REPLAYED_TURNS = 20;
+
+const isRole = (role: string): role is StoryMessage["role"] =>
+  role === "system" || role === "user" || role === "assistant";
+
+/**
+ * Load the ordered conversation for a save. When `sceneIds` is given, only the opening messages and
+ * the exchanges that produced those scenes are returned, i.e. the conversation along one branch of
+ * the scene tree.
+ */
+export async function loadConversation(saveId: number, sceneIds?: number[]): Promise<StoryMessage[]> {
+  const rows = await db
+    .select()
+    .from(gameMessages)
+    .where(
+      and(
+        eq(gameMessages.saveId, saveId),
+        sceneIds
+          ? sceneIds.length > 0
+            ? or(isNull(gameMessages.sceneId), inArray(gameMessages.sceneId, sceneIds))
+            : isNull(gameMessages.sceneId)
+          : undefined
+      )
+    )
+    .orderBy(asc(gameMessages.position));
+
+  return rows
+    .filter((row) => isRole(row.role))
+    .map((row) => ({ role: row.role as StoryMessage["role"], content: row.content }));
+}
+
+// Append messages to the end of a save's conversation, tagged with the scene they produced
+export async function appendConversation(
+  saveId: number,
+  messages: StoryMessage[],
+  sceneId: number | null = null
+): Promise<void> {
+  if (messages.length === 0) return;
+
+  const existing = await db
+    .select({ position: gameMessages.position })
+    .from(gameMessages)
+    .where(eq(gameMessages.saveId, saveId));
+  const nextPosition = existing.reduce((max, row) => Math.max(max, row.position + 1), 0);
+  const createdAt = Math.floor(Date.now() / 1000);
+
+  await db.insert(gameMessages).values(
+    messages.map((message, index) => ({
+      saveId,
+      sceneId,
+      position: nextPosition + index,
+      role: message.role,
+      content: message.content,
+      createdAt,
+    }))
+  );
+}
+
+// Remove a save's conversation, e.g. when a new adventure starts in the slot
+export async function clearConversation(saveId: number): Promise<void> {
+  await db.delete(gameMessages).where(eq(gameMessages.saveId, saveId));
+}
+
+/**
+ * Trim a conversation for replay: keeps the opening messages (system prompt and the player's setup)
+ * and the most recent exchanges.
+ */
+export function trimConversation(messages: StoryMessage[]): StoryMessage[] {
+  const firstAssistant = messages.findIndex((m) => m.role === "assistant");
+  if (firstAssistant === -1) return messages;
+
+  const opening = messages.slice(0, firstAssistant);
+  const turns = messages.slice(firstAssistant);
+  const maxMessages = MAX_REPLAYED_TURNS * 2 + 1;
+  return turns.length > maxMessages
+    ? [...opening, ...turns.slice(turns.length - maxMessages)]
+    : messages;
+}
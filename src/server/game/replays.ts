@@ -0,0 +1,210 @@
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "~/server/db";
+import { gameEndings, gameSaves, replays } from "~/server/db/schema";
+import type { StoryChoice } from "~/server/ai";
+import { resolveImageUrl } from "~/server/assets";
+import { parseLevelLayout, type LevelLayout } from "~/utils/level";
+import { MAX_REPLAY_EVENTS, parseReplayTimeline, type ReplayEvent } from "~/utils/replay";
+import { parseSpriteSheet } from "~/utils/sprite";
+import { listScenes, parseChoices } from "./scenes";
+
+export type ReplayRow = typeof replays.$inferSelect;
+
+// A scene as the replay viewer shows it
+export interface ReplayScene {
+  id: number;
+  story: string;
+  choices: StoryChoice[];
+  level: LevelLayout | null;
+  backgroundImageUrl: string | null;
+}
+
+// Copy of a save's sprite and scenes, stored with a finished run. Columns are kept as stored and
+// parsed the same way as the save's own.
+const replaySnapshotSchema = z.object({
+  gameTheme: z.string().nullable(),
+  spriteAssetId: z.string().nullable(),
+  spriteUrl: z.string().nullable(),
+  spriteSheet: z.string().nullable(),
+  scenes: z.array(
+    z.object({
+      id: z.number(),
+      story: z.string(),
+      choices: z.string(),
+      level: z.string().nullable(),
+      backgroundAssetId: z.string().nullable(),
+      backgroundImageUrl: z.string().nullable(),
+    })
+  ),
+});
+
+type ReplaySnapshot = z.infer<typeof replaySnapshotSchema>;
+
+function parseReplaySnapshot(value: string | null | undefined): ReplaySnapshot | null {
+  if (!value?.trim()) return null;
+  try {
+    const result = replaySnapshotSchema.safeParse(JSON.parse(value));
+    if (result.success) return result.data;
+  } catch (error) {
+    console.error("Error parsing replay snapshot JSON:", error);
+  }
+  return null;
+}
+
+// Helper function to copy what a replay shows of a save, or null once the save is gone
+async function takeSnapshot(saveId: number): Promise<ReplaySnapshot | null> {
+  const [save] = await db
+    .select()
+    .from(gameSaves)
+    .where(eq(gameSaves.id, saveId))
+    .limit(1);
+  if (!save) return null;
+
+  const saveScenes = await listScenes(saveId);
+  return {
+    gameTheme: save.gameTheme,
+    spriteAssetId: save.spriteAssetId,
+    spriteUrl: save.spriteUrl,
+    spriteSheet: save.spriteSheet,
+    scenes: saveScenes.map((scene) => ({
+      id: scene.id,
+      story: scene.story,
+      choices: scene.choices,
+      level: scene.level,
+      backgroundAssetId: scene.backgroundAssetId,
+      backgroundImageUrl: scene.backgroundImageUrl,
+    })),
+  };
+}
+
+export async function getReplay(replayId: number): Promise<ReplayRow | null> {
+  const [replay] = await db
+    .select()
+    .from(replays)
+    .where(eq(replays.id, replayId))
+    .limit(1);
+  return replay ?? null;
+}
+
+// The run a save is on (or last finished)
+async function getLatestReplay(saveId: number): Promise<ReplayRow | null> {
+  const [replay] = await db
+    .select()
+    .from(replays)
+    .where(eq(replays.saveId, saveId))
+    .orderBy(desc(replays.id))
+    .limit(1);
+  return replay ?? null;
+}
+
+// Drop a save's run that never ended. Its scenes are being replaced or deleted, so it couldn't be played back.
+export async function discardUnfinishedReplays(saveId: number): Promise<void> {
+  await db
+    .delete(replays)
+    .where(and(eq(replays.saveId, saveId), isNull(replays.endingId)));
+}
+
+// Start recording a new run in a save
+export async function startReplay(userId: string, saveId: number): Promise<number> {
+  await discardUnfinishedReplays(saveId);
+  const now = Math.floor(Date.now() / 1000);
+  const [inserted] = await db.insert(replays).values({
+    userId,
+    saveId,
+    timeline: "[]",
+    createdAt: now,
+    updatedAt: now,
+  }).$returningId();
+  if (!inserted) throw new Error("Replay not created");
+  return inserted.id;
+}
+
+/**
+ * Add events recorded by the game page to the save's current run. startedAt is when the page
+ * started recording (epoch milliseconds); the events' times are moved to count from the start of
+ * the run, so a run resumed later carries on where it left off. Events past the length limit are dropped.
+ */
+export async function appendReplayEvents(input: {
+  userId: string;
+  saveId: number;
+  startedAt: number;
+  events: ReplayEvent[];
+}): Promise<void> {
+  let replay = await getLatestReplay(input.saveId);
+  if (!replay) {
+    // Saves from before replays were recorded start one when they are next played
+    replay = await getReplay(await startReplay(input.userId, input.saveId));
+  }
+  if (!replay) return;
+
+  const timeline = parseReplayTimeline(replay.timeline);
+  if (timeline.length >= MAX_REPLAY_EVENTS) return;
+
+  const offset = input.startedAt - replay.createdAt * 1000;
+  const shifted = input.events.map((event) => {
+    const moved = [...event] as ReplayEvent;
+    moved[0] = Math.max(0, Math.round(event[0] + offset));
+    return moved;
+  });
+
+  await db
+    .update(replays)
+    .set({
+      timeline: JSON.stringify([...timeline, ...shifted].slice(0, MAX_REPLAY_EVENTS)),
+      updatedAt: Math.floor(Date.now() / 1000),
+    })
+    .where(eq(replays.id, replay.id));
+}
+
+/**
+ * Mark the save's current run as ended, keeping a copy of its scenes so it can still be played back
+ * after the save is deleted. Returns the replay's id, or null if the run wasn't recorded.
+ */
+export async function finishReplay(saveId: number, endingId: number): Promise<number | null> {
+  const replay = await getLatestReplay(saveId);
+  if (!replay) return null;
+  if (replay.endingId !== null) return replay.id;
+
+  const snapshot = await takeSnapshot(saveId);
+  await db
+    .update(replays)
+    .set({
+      endingId,
+      snapshot: snapshot ? JSON.stringify(snapshot) : null,
+      updatedAt: Math.floor(Date.now() / 1000),
+    })
+    .where(eq(replays.id, replay.id));
+
+  console.log(`[Replays] Run ${replay.id} of save ${saveId} finished`);
+  return replay.id;
+}
+
+// Everything the replay viewer needs: the timeline, the sprite and the scenes played (from the
+// snapshot, or the save itself for a run still in progress), and how the run ended
+export async function loadReplay(replay: ReplayRow) {
+  const snapshot = parseReplaySnapshot(replay.snapshot) ?? await takeSnapshot(replay.saveId);
+
+  const [ending] = replay.endingId !== null
+    ? await db.select().from(gameEndings).where(eq(gameEndings.id, replay.endingId)).limit(1)
+    : [];
+
+  const scenes: ReplayScene[] = (snapshot?.scenes ?? []).map((scene) => ({
+    id: scene.id,
+    story: scene.story,
+    choices: parseChoices(scene.choices),
+    level: parseLevelLayout(scene.level),
+    backgroundImageUrl: resolveImageUrl(scene.backgroundAssetId, scene.backgroundImageUrl),
+  }));
+
+  return {
+    id: replay.id,
+    timeline: parseReplayTimeline(replay.timeline),
+    gameTheme: snapshot?.gameTheme ?? null,
+    spriteUrl: resolveImageUrl(snapshot?.spriteAssetId, snapshot?.spriteUrl),
+    spriteSheet: parseSpriteSheet(snapshot?.spriteSheet),
+    scenes,
+    ending: ending ? { endingType: ending.endingType, reason: ending.reason, score: ending.score } : null,
+    createdAt: replay.createdAt,
+  };
+}
@@ -0,0 +1,125 @@
+import { z } from "zod";
+import type { ReportText } from "~/utils/language";
+import { describeDeathCause } from "~/utils/level";
+import { parseDeaths } from "./deaths";
+import type { SceneRow } from "./scenes";
+
+// Most recent scenes of the journey sent to the model; older ones are summarized by their count
+const MAX_JOURNEY_SCENES = 20;
+// Longest part of a scene's story included in the journey
+const MAX_SCENE_EXCERPT_LENGTH = 300;
+
+// Number of tips the model is asked for
+export const RECAP_TIP_COUNT = 3;
+
+export interface AdventureSummary {
+  scenesSeen: number;
+  choicesMade: number;
+  // Platformer deaths along the path, including the one that ended the adventure (if any)
+  livesLost: number;
+  secondsPlayed: number;
+  // Scene-by-scene account of the path through the story, for the recap prompt
+  journey: string;
+  // The choice that led to the final scene, if the player made any
+  decisiveChoice: string | null;
+}
+
+// Helper function to shorten a scene's story for the journey
+const excerpt = (story: string) =>
+  story.length > MAX_SCENE_EXCERPT_LENGTH ? `${story.substring(0, MAX_SCENE_EXCERPT_LENGTH).trimEnd()}...` : story;
+
+/**
+ * Summarize the path a player took through their save's scene tree (opening scene first).
+ * Returns null when there is nothing to summarize.
+ */
+export function summarizeAdventure(path: SceneRow[], endedAt: number): AdventureSummary | null {
+  const first = path[0];
+  const last = path[path.length - 1];
+  if (!first || !last) return null;
+
+  const deaths = path.map((scene) => parseDeaths(scene.deaths));
+  const skipped = Math.max(0, path.length - MAX_JOURNEY_SCENES);
+  const lines = path.slice(skipped).map((scene, index) => {
+    const chose = scene.choiceText ? `The player chose "${scene.choiceText}". ` : "";
+    const died = (deaths[skipped + index] ?? []).map((cause) => ` The player lost a life here: they ${describeDeathCause(cause)}.`);
+    return `${skipped + index + 1}. ${chose}${excerpt(scene.story)}${died.join("")}`;
+  });
+  if (skipped > 0) lines.unshift(`(${skipped} earlier scenes left out)`);
+
+  return {
+    scenesSeen: path.length,
+    choicesMade: path.filter((scene) => scene.choiceId !== null).length,
+    livesLost: deaths.reduce((total, causes) => total + causes.length, 0),
+    secondsPlayed: Math.max(0, endedAt - first.createdAt),
+    journey: lines.join("\n"),
+    decisiveChoice: last.choiceText,
+  };
+}
+
+export const gameRecapSchema = z.object({
+  recap: z.string().trim().min(1),
+  decisiveChoice: z.string().trim().min(1),
+  tips: z.array(z.string().trim().min(1)).min(1).max(5),
+});
+
+export type GameRecap = z.infer<typeof gameRecapSchema>;
+
+// Parse the model's recap, returning null when it isn't valid
+export function parseGameRecap(content: string): GameRecap | null {
+  try {
+    const result = gameRecapSchema.safeParse(JSON.parse(content));
+    if (result.success) return result.data;
+    console.warn("Invalid game recap:", result.error.issues);
+  } catch (error) {
+    console.error("Error parsing game recap JSON:", error);
+  }
+  return null;
+}
+
+// Helper function to format a duration like "1h 5m", "12m 30s" or "45s"
+export function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+}
+
+// Markdown report for an adventure the model recapped. Stats come from the scene history, not the model.
+export function formatGameReport(input: {
+  finalScore: number;
+  difficultyLabel: string;
+  scoreMultiplier: number;
+  reason: string;
+  summary: AdventureSummary;
+  recap: GameRecap;
+  text: ReportText;
+}): string {
+  const { summary, recap, text } = input;
+  return `# ${text.title}
+
+${text.finalScore}: ${input.finalScore}
+${text.difficulty}: ${input.difficultyLabel} (${text.scoreMultiplier(input.scoreMultiplier)})
+
+## ${text.journey}
+
+${recap.recap}
+
+${text.endedBecause}: ${input.reason}
+
+## ${text.decisiveChoice}
+
+${summary.decisiveChoice ? `"${summary.decisiveChoice}" - ` : ""}${recap.decisiveChoice}
+
+## ${text.stats}
+
+- ${text.scenesSeen}: ${summary.scenesSeen}
+- ${text.choicesMade}: ${summary.choicesMade}
+- ${text.livesLost}: ${summary.livesLost}
+- ${text.timePlayed}: ${formatDuration(summary.secondsPlayed)}
+
+## ${text.tips}
+
+${recap.tips.map((tip) => `- ${tip}`).join("\n")}
+`;
+}
@@ -0,0 +1,95 @@
+import { asc, eq } from "drizzle-orm";
+import { db } from "~/server/db";
+import { scenes } from "~/server/db/schema";
+import type { AIStoryResponse, StoryChoice } from "~/server/ai";
+import { assetIdFromUrl } from "~/server/assets";
+import type { CharacterSheet } from "~/utils/character";
+
+export type SceneRow = typeof scenes.$inferSelect;
+
+// Parse a JSON choices column, returning an empty list for anything malformed
+export function parseChoices(value: string | null | undefined): StoryChoice[] {
+  if (!value?.trim()) return [];
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    if (Array.isArray(parsed) &&
+        parsed.every((item): item is StoryChoice =>
+          typeof item === 'object' &&
+          item !== null &&
+          'id' in item &&
+          typeof item.id === 'number' &&
+          'text' in item &&
+          typeof item.text === 'string'
+        )
+    ) {
+      return parsed;
+    }
+  } catch (error) {
+    console.error("Error parsing choices JSON:", error);
+  }
+  return [];
+}
+
+// Record a generated scene as a node in the save's scene tree and return its id
+export async function createScene(input: {
+  saveId: number;
+  parentId: number | null;
+  choice?: StoryChoice;
+  scene: AIStoryResponse;
+  character: CharacterSheet;
+  backgroundImageUrl: string | null;
+}): Promise<number> {
+  const [inserted] = await db.insert(scenes).values({
+    saveId: input.saveId,
+    parentId: input.parentId,
+    choiceId: input.choice?.id ?? null,
+    choiceText: input.choice?.text ?? null,
+    story: input.scene.story,
+    choices: JSON.stringify(input.scene.choices),
+    backgroundDescription: input.scene.backgroundDescription,
+    backgroundAssetId: assetIdFromUrl(input.backgroundImageUrl),
+    isGameOver: input.scene.isGameOver ? 1 : 0,
+    characterSheet: JSON.stringify(input.character),
+    level: input.scene.level ? JSON.stringify(input.scene.level) : null,
+    promptVersion: input.scene.promptVersion ?? null,
+    createdAt: Math.floor(Date.now() / 1000),
+  }).$returningId();
+  if (!inserted) throw new Error("Scene not created");
+  return inserted.id;
+}
+
+export async function getScene(sceneId: number): Promise<SceneRow | null> {
+  const [scene] = await db
+    .select()
+    .from(scenes)
+    .where(eq(scenes.id, sceneId))
+    .limit(1);
+  return scene ?? null;
+}
+
+export async function listScenes(saveId: number): Promise<SceneRow[]> {
+  return db
+    .select()
+    .from(scenes)
+    .where(eq(scenes.saveId, saveId))
+    .orderBy(asc(scenes.id));
+}
+
+/**
+ * Walk parent pointers from a scene back to the opening scene. Returns the path in story order
+ * (opening scene first).
+ */
+export function getScenePath(allScenes: SceneRow[], sceneId: number): SceneRow[] {
+  const byId = new Map(allScenes.map((scene) => [scene.id, scene]));
+  const path: SceneRow[] = [];
+  let current = byId.get(sceneId);
+  while (current && path.length <= allScenes.length) {
+    path.unshift(current);
+    current = current.parentId !== null ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+export async function clearScenes(saveId: number): Promise<void> {
+  await db.delete(scenes).where(eq(scenes.saveId, saveId));
+}
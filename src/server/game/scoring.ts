@@ -0,0 +1,103 @@
+import { and, eq, isNull, lt, or } from "drizzle-orm";
+import { db } from "~/server/db";
+import { gameEndings, gameSaves, users } from "~/server/db/schema";
+import { applyScoreMultiplier } from "~/utils/difficulty";
+import { checkAchievements } from "./achievements";
+import { getScenePath, listScenes } from "./scenes";
+
+export type GameEndingRow = typeof gameEndings.$inferSelect;
+
+// Scenes the player survived along the save's active branch. This is the save's score; the
+// client never gets to set it.
+export async function countScenesSurvived(save: { id: number; activeSceneId: number | null }): Promise<number> {
+  if (save.activeSceneId === null) return 0;
+  const path = getScenePath(await listScenes(save.id), save.activeSceneId);
+  return path.filter((scene) => scene.isGameOver === 0).length;
+}
+
+// Recompute a save's score after its active scene changed, returning the new score
+export async function refreshSaveScore(saveId: number): Promise<number> {
+  const [save] = await db
+    .select({ id: gameSaves.id, activeSceneId: gameSaves.activeSceneId })
+    .from(gameSaves)
+    .where(eq(gameSaves.id, saveId))
+    .limit(1);
+  if (!save) return 0;
+
+  const score = await countScenesSurvived(save);
+  await db
+    .update(gameSaves)
+    .set({ score })
+    .where(eq(gameSaves.id, saveId));
+  return score;
+}
+
+// The ending recorded at a save's active scene, or null if its adventure hasn't ended there
+export async function findGameEnding(save: { id: number; activeSceneId: number | null }): Promise<GameEndingRow | null> {
+  const [ending] = await db
+    .select()
+    .from(gameEndings)
+    .where(
+      and(
+        eq(gameEndings.saveId, save.id),
+        save.activeSceneId === null ? isNull(gameEndings.sceneId) : eq(gameEndings.sceneId, save.activeSceneId)
+      )
+    )
+    .limit(1);
+  return ending ?? null;
+}
+
+/**
+ * Record the end of a save's adventure at its active scene and update the player's high score.
+ * Recording the same ending twice (e.g. the server saw the death and the client reports it too)
+ * returns the existing ending. Returns null if the save doesn't exist.
+ */
+export async function recordGameEnding(input: {
+  saveId: number;
+  endingType: "death" | "victory" | "quit";
+  reason: string;
+}): Promise<{ ending: GameEndingRow; isNewHighScore: boolean } | null> {
+  const [save] = await db
+    .select()
+    .from(gameSaves)
+    .where(eq(gameSaves.id, input.saveId))
+    .limit(1);
+  if (!save) return null;
+
+  const existing = await findGameEnding(save);
+  if (existing) return { ending: existing, isNewHighScore: false };
+
+  const scenesSurvived = await countScenesSurvived(save);
+  const score = applyScoreMultiplier(scenesSurvived, save.difficulty);
+  const values = {
+    userId: save.userId,
+    saveId: save.id,
+    sceneId: save.activeSceneId,
+    endingType: input.endingType,
+    reason: input.reason,
+    gameTheme: save.gameTheme,
+    difficulty: save.difficulty,
+    scenesSurvived,
+    score,
+    createdAt: Math.floor(Date.now() / 1000),
+  };
+  const [inserted] = await db.insert(gameEndings).values(values).$returningId();
+  if (!inserted) throw new Error("Game ending not recorded");
+
+  // Only ever raise the high score
+  const [result] = await db
+    .update(users)
+    .set({ highScore: score })
+    .where(
+      and(
+        eq(users.id, save.userId),
+        or(isNull(users.highScore), lt(users.highScore, score))
+      )
+    );
+  const isNewHighScore = result.affectedRows > 0;
+
+  console.log(`[Scoring] Save ${save.id} ended (${input.endingType}) with score ${score}${isNewHighScore ? " - new high score" : ""}`);
+  const ending = { id: inserted.id, ...values };
+  await checkAchievements(save.id, ending);
+  return { ending, isNewHighScore };
+}
@@ -0,0 +1,117 @@
+import { randomUUID } from "node:crypto";
+import { eq } from "drizzle-orm";
+import { db } from "~/server/db";
+import { gameSessions } from "~/server/db/schema";
+import type { AIStoryResponse, StoryChoice } from "~/server/ai";
+import { parseCharacterSheet, type CharacterSheet } from "~/utils/character";
+import { parseChoices } from "./scenes";
+
+export type GameSessionRow = typeof gameSessions.$inferSelect;
+
+interface SessionScene {
+  sceneId: number | null;
+  scene: Pick<AIStoryResponse, "story" | "choices" | "backgroundDescription" | "level" | "isGameOver">;
+  character: CharacterSheet;
+  // Scenes survived up to and including this one, see scenesSurvivedAt
+  scenesSurvived: number;
+}
+
+const sceneColumns = ({ sceneId, scene, character, scenesSurvived }: SessionScene) => ({
+  currentSceneId: sceneId,
+  currentStory: scene.story,
+  currentChoices: JSON.stringify(scene.choices),
+  currentBackgroundDescription: scene.backgroundDescription,
+  currentLevel: scene.level ? JSON.stringify(scene.level) : null,
+  characterSheet: JSON.stringify(character),
+  scenesSurvived,
+  // Lives lost belong to the scene they were lost in
+  deaths: null,
+  isGameOver: scene.isGameOver ? 1 : 0,
+});
+
+/**
+ * Start a session at a scene and return its id. A save only ever has one session, so any older
+ * session for the same save is replaced.
+ */
+export async function createGameSession(input: SessionScene & {
+  userId: string | null;
+  saveId: number | null;
+  gameTheme: string;
+  spriteDescription: string;
+  difficulty: string;
+  language: string;
+  livesRemaining: number;
+}): Promise<string> {
+  if (input.saveId !== null) {
+    await deleteSessionsForSave(input.saveId);
+  }
+
+  const id = randomUUID();
+  const timestamp = Math.floor(Date.now() / 1000);
+  await db.insert(gameSessions).values({
+    id,
+    userId: input.userId,
+    saveId: input.saveId,
+    gameTheme: input.gameTheme,
+    spriteDescription: input.spriteDescription,
+    difficulty: input.difficulty,
+    language: input.language,
+    livesRemaining: input.livesRemaining,
+    ...sceneColumns(input),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  });
+  return id;
+}
+
+export async function getGameSession(sessionId: string): Promise<GameSessionRow | null> {
+  const [session] = await db
+    .select()
+    .from(gameSessions)
+    .where(eq(gameSessions.id, sessionId))
+    .limit(1);
+  return session ?? null;
+}
+
+export async function getSessionForSave(saveId: number): Promise<GameSessionRow | null> {
+  const [session] = await db
+    .select()
+    .from(gameSessions)
+    .where(eq(gameSessions.saveId, saveId))
+    .limit(1);
+  return session ?? null;
+}
+
+// Move a session to a new current scene
+export async function updateSessionScene(sessionId: string, input: SessionScene): Promise<void> {
+  await db
+    .update(gameSessions)
+    .set({
+      ...sceneColumns(input),
+      updatedAt: Math.floor(Date.now() / 1000),
+    })
+    .where(eq(gameSessions.id, sessionId));
+}
+
+// Close a save's session once its adventure has ended, so no more scenes or deaths are accepted
+export async function endSessionForSave(saveId: number): Promise<void> {
+  await db
+    .update(gameSessions)
+    .set({ isGameOver: 1, updatedAt: Math.floor(Date.now() / 1000) })
+    .where(eq(gameSessions.saveId, saveId));
+}
+
+export async function deleteSessionsForSave(saveId: number): Promise<void> {
+  await db.delete(gameSessions).where(eq(gameSessions.saveId, saveId));
+}
+
+// Scenes survived once a session (or a new run, without one) moves on to a scene. The scene that
+// ends the adventure isn't survived.
+export const scenesSurvivedAt = (session: GameSessionRow | null, scene: Pick<AIStoryResponse, "isGameOver">): number =>
+  (session?.scenesSurvived ?? 0) + (scene.isGameOver ? 0 : 1);
+
+export const getSessionChoices = (session: GameSessionRow): StoryChoice[] =>
+  parseChoices(session.currentChoices);
+
+export const getSessionCharacter = (session: GameSessionRow): CharacterSheet =>
+  parseCharacterSheet(session.characterSheet);
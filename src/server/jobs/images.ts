@@ -0,0 +1,241 @@
+import { and, asc, eq, inArray, lt, lte } from "drizzle-orm";
+import { db } from "~/server/db";
+import { gameSaves, imageJobs, scenes } from "~/server/db/schema";
+import { getFallbackImageProvider, getImageProvider, type ImageKind } from "~/server/ai";
+import { assetUrl, storeImageFromUrl } from "~/server/assets";
+import { recordImageUsage } from "~/server/usage";
+
+export type ImageJobRow = typeof imageJobs.$inferSelect;
+
+// What the client sees of a job: running jobs are still "pending" from its point of view
+export type ImageJobStatus = {
+  id: number;
+  status: "pending" | "done" | "failed";
+  // Finished image, or the fallback (previous background) for failed jobs
+  imageUrl: string | null;
+};
+
+// Give up (and use the fallback image) after this many attempts
+const MAX_ATTEMPTS = 4;
+// Retry delay doubles after every failed attempt: 5s, 10s, 20s...
+const BASE_BACKOFF_SECONDS = 5;
+// How often the worker checks for due jobs while any are outstanding
+const POLL_INTERVAL_MS = 2000;
+// Running jobs not finished after this long were lost (e.g. the server restarted) and are requeued
+const STALE_JOB_SECONDS = 120;
+
+const now = () => Math.floor(Date.now() / 1000);
+
+// Worker state lives on globalThis so hot reloads in development don't start a second worker
+const worker = globalThis as unknown as {
+  imageWorkerTimer: ReturnType<typeof setTimeout> | undefined;
+  imageWorkerRunning: boolean | undefined;
+};
+
+/**
+ * Queue an image for generation and return the job id. The worker starts (if it isn't running
+ * already) and picks the job up straight away.
+ */
+export async function enqueueImageJob(input: {
+  kind: ImageKind;
+  prompt: string;
+  userId?: string | null;
+  saveId?: number | null;
+  sceneId?: number | null;
+  fallbackAssetId?: string | null;
+}): Promise<number> {
+  const timestamp = now();
+  const [inserted] = await db.insert(imageJobs).values({
+    kind: input.kind,
+    prompt: input.prompt,
+    status: "pending",
+    attempts: 0,
+    runAt: timestamp,
+    userId: input.userId ?? null,
+    saveId: input.saveId ?? null,
+    sceneId: input.sceneId ?? null,
+    fallbackAssetId: input.fallbackAssetId ?? null,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }).$returningId();
+  if (!inserted) throw new Error("Image job not created");
+
+  console.log(`[ImageJobs] Queued ${input.kind} job ${inserted.id}`);
+  startImageWorker(0);
+  return inserted.id;
+}
+
+export async function getImageJob(jobId: number): Promise<ImageJobRow | null> {
+  const [job] = await db
+    .select()
+    .from(imageJobs)
+    .where(eq(imageJobs.id, jobId))
+    .limit(1);
+
+  // A client is waiting on this job, so make sure something is working on it (e.g. after a restart)
+  if (job && (job.status === "pending" || job.status === "running")) {
+    startImageWorker(0);
+  }
+  return job ?? null;
+}
+
+export function toImageJobStatus(job: ImageJobRow): ImageJobStatus {
+  const imageUrl = job.assetId ? assetUrl(job.assetId) : null;
+  if (job.status === "done") return { id: job.id, status: "done", imageUrl };
+  if (job.status === "failed") return { id: job.id, status: "failed", imageUrl };
+  return { id: job.id, status: "pending", imageUrl: null };
+}
+
+// Schedule a worker pass unless one is already scheduled or running
+function startImageWorker(delayMs: number) {
+  if (worker.imageWorkerTimer || worker.imageWorkerRunning) return;
+  worker.imageWorkerTimer = setTimeout(() => {
+    worker.imageWorkerTimer = undefined;
+    void runWorkerPass();
+  }, delayMs);
+}
+
+async function runWorkerPass() {
+  worker.imageWorkerRunning = true;
+  let outstanding = false;
+  try {
+    await requeueStaleJobs();
+    let job = await claimNextJob();
+    while (job) {
+      await runJob(job);
+      job = await claimNextJob();
+    }
+
+    // Keep polling while jobs are waiting out their backoff
+    const [waiting] = await db
+      .select({ id: imageJobs.id })
+      .from(imageJobs)
+      .where(inArray(imageJobs.status, ["pending", "running"]))
+      .limit(1);
+    outstanding = !!waiting;
+  } catch (error) {
+    console.error("[ImageJobs] Worker pass failed:", error);
+    outstanding = true;
+  } finally {
+    worker.imageWorkerRunning = false;
+  }
+
+  if (outstanding) startImageWorker(POLL_INTERVAL_MS);
+}
+
+async function requeueStaleJobs() {
+  await db
+    .update(imageJobs)
+    .set({ status: "pending", lockedAt: null, updatedAt: now() })
+    .where(
+      and(
+        eq(imageJobs.status, "running"),
+        lt(imageJobs.lockedAt, now() - STALE_JOB_SECONDS)
+      )
+    );
+}
+
+// Take the next due job, marking it as running. Returns null when nothing is due.
+async function claimNextJob(): Promise<ImageJobRow | null> {
+  const [job] = await db
+    .select()
+    .from(imageJobs)
+    .where(and(eq(imageJobs.status, "pending"), lte(imageJobs.runAt, now())))
+    .orderBy(asc(imageJobs.runAt))
+    .limit(1);
+  if (!job) return null;
+
+  // Only claim it if it's still pending, in case another server instance got there first
+  const timestamp = now();
+  const [result] = await db
+    .update(imageJobs)
+    .set({ status: "running", lockedAt: timestamp, updatedAt: timestamp })
+    .where(and(eq(imageJobs.id, job.id), eq(imageJobs.status, "pending")));
+  if (result.affectedRows === 0) return claimNextJob();
+
+  return { ...job, status: "running", lockedAt: timestamp };
+}
+
+async function runJob(job: ImageJobRow) {
+  const kind = job.kind as ImageKind;
+  const attempts = job.attempts + 1;
+  try {
+    const provider = getImageProvider();
+    const result = await provider.generateImage({ prompt: job.prompt, kind });
+    await recordImageUsage(provider.name, result, { userId: job.userId, saveId: job.saveId });
+    const assetId = await storeImageFromUrl(result.url, kind, job.userId ?? undefined);
+    await finishJob(job, { status: "done", assetId, attempts });
+    console.log(`[ImageJobs] Job ${job.id} done (attempt ${attempts})`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[ImageJobs] Job ${job.id} attempt ${attempts} failed:`, message);
+
+    if (attempts < MAX_ATTEMPTS) {
+      const delay = BASE_BACKOFF_SECONDS * 2 ** (attempts - 1);
+      await db
+        .update(imageJobs)
+        .set({
+          status: "pending",
+          attempts,
+          runAt: now() + delay,
+          lockedAt: null,
+          error: message,
+          updatedAt: now(),
+        })
+        .where(eq(imageJobs.id, job.id));
+      return;
+    }
+
+    // Out of attempts: keep the previous background, or a placeholder if there wasn't one
+    const assetId = job.fallbackAssetId ?? await storePlaceholder(job, kind);
+    await finishJob(job, { status: "failed", assetId, attempts, error: message });
+  }
+}
+
+// Helper function to store an offline placeholder image, returning null if even that fails
+async function storePlaceholder(job: ImageJobRow, kind: ImageKind): Promise<string | null> {
+  try {
+    const provider = getFallbackImageProvider();
+    const placeholder = await provider.generateImage({ prompt: job.prompt, kind });
+    await recordImageUsage(provider.name, placeholder, { userId: job.userId, saveId: job.saveId });
+    return await storeImageFromUrl(placeholder.url, kind, job.userId ?? undefined);
+  } catch (error) {
+    console.error(`[ImageJobs] Could not store a placeholder for job ${job.id}:`, error);
+    return null;
+  }
+}
+
+// Record the job's outcome and point its scene (and the save, if still on that scene) at the image
+async function finishJob(job: ImageJobRow, outcome: {
+  status: "done" | "failed";
+  assetId: string | null;
+  attempts: number;
+  error?: string;
+}) {
+  await db
+    .update(imageJobs)
+    .set({
+      status: outcome.status,
+      assetId: outcome.assetId,
+      attempts: outcome.attempts,
+      lockedAt: null,
+      error: outcome.error ?? null,
+      updatedAt: now(),
+    })
+    .where(eq(imageJobs.id, job.id));
+
+  if (!outcome.assetId) return;
+
+  if (job.sceneId !== null) {
+    await db
+      .update(scenes)
+      .set({ backgroundAssetId: outcome.assetId })
+      .where(eq(scenes.id, job.sceneId));
+  }
+  if (job.saveId !== null && job.sceneId !== null) {
+    await db
+      .update(gameSaves)
+      .set({ currentBackgroundAssetId: outcome.assetId })
+      .where(and(eq(gameSaves.id, job.saveId), eq(gameSaves.activeSceneId, job.sceneId)));
+  }
+}
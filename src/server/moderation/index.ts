@@ -0,0 +1,226 @@
+import { env } from "~/env";
+import { getOpenAIClient, type AIStoryResponse } from "~/server/ai";
+import { db } from "~/server/db";
+import { moderationEvents } from "~/server/db/schema";
+import type { LevelLayout } from "~/utils/level";
+import { KeywordClassifier } from "./keywords";
+import { OpenAIModerationClassifier } from "./openai";
+import type {
+  ModerationAction,
+  ModerationClassifier,
+  ModerationContext,
+  ModerationResult,
+  ModerationSource,
+} from "./types";
+
+export type * from "./types";
+
+// Longest excerpt of offending text kept on a moderation event
+const MAX_EXCERPT_LENGTH = 500;
+
+const MASK = "****";
+
+/**
+ * Which classifier checks player input and generated scenes.
+ *
+ * `MODERATION_PROVIDER` picks one explicitly ("off" disables moderation); otherwise we use OpenAI's
+ * moderation endpoint when an API key is configured and the local keyword rules when it isn't.
+ */
+function resolveClassifierName(): "openai" | "keywords" | "off" {
+  if (env.MODERATION_PROVIDER) return env.MODERATION_PROVIDER;
+  return env.OPENAI_API_KEY ? "openai" : "keywords";
+}
+
+let classifier: ModerationClassifier | null | undefined;
+let fallbackClassifier: ModerationClassifier | undefined;
+
+export function getModerationClassifier(): ModerationClassifier | null {
+  if (classifier === undefined) {
+    const name = resolveClassifierName();
+    classifier = name === "off"
+      ? null
+      : name === "openai"
+        ? new OpenAIModerationClassifier(getOpenAIClient())
+        : new KeywordClassifier();
+    console.log(`[Moderation] Using ${classifier?.name ?? "no"} classifier`);
+  }
+  return classifier;
+}
+
+// Keyword rules used when the configured classifier fails, so content is never let through unchecked
+const getFallbackClassifier = (): ModerationClassifier =>
+  (fallbackClassifier ??= new KeywordClassifier());
+
+async function classify(text: string): Promise<{ classifier: string; result: ModerationResult } | null> {
+  const primary = getModerationClassifier();
+  if (!primary) return null;
+
+  try {
+    return { classifier: primary.name, result: await primary.classify(text) };
+  } catch (error) {
+    console.error(`[Moderation] ${primary.name} classifier failed, using keyword rules:`, error);
+    const fallback = getFallbackClassifier();
+    return { classifier: fallback.name, result: await fallback.classify(text) };
+  }
+}
+
+// Softening needs to know which words to mask; without them the content is blocked instead
+function resolveAction(configured: ModerationAction, result: ModerationResult): ModerationAction {
+  return configured === "soften" && result.matches.length === 0 ? "block" : configured;
+}
+
+// Helper function to replace every offending substring with a mask
+function maskMatches(text: string, matches: string[]): string {
+  return matches.reduce((masked, match) => masked.split(match).join(MASK), text);
+}
+
+async function recordModerationEvent(input: {
+  context: ModerationContext;
+  source: ModerationSource;
+  classifier: string;
+  action: ModerationAction;
+  categories: string[];
+  text: string;
+}) {
+  console.log(`[Moderation] ${input.action} ${input.source} (${input.categories.join(", ")})`);
+  await db.insert(moderationEvents).values({
+    userId: input.context.userId ?? null,
+    saveId: input.context.saveId ?? null,
+    source: input.source,
+    classifier: input.classifier,
+    action: input.action,
+    categories: JSON.stringify(input.categories),
+    excerpt: input.text.substring(0, MAX_EXCERPT_LENGTH),
+    createdAt: Math.floor(Date.now() / 1000),
+  });
+}
+
+/**
+ * Check a piece of player-supplied text before it goes into a prompt. Returns the text to use
+ * (masked when softened) or `blocked: true` when it must be rejected.
+ */
+export async function moderateInput(
+  text: string,
+  source: ModerationSource,
+  context: ModerationContext = {}
+): Promise<{ text: string; blocked: boolean }> {
+  const classified = await classify(text);
+  if (!classified?.result.flagged) return { text, blocked: false };
+
+  const { result } = classified;
+  const action = resolveAction(env.MODERATION_INPUT_ACTION, result);
+  await recordModerationEvent({ context, source, classifier: classified.classifier, action, categories: result.categories, text });
+
+  return {
+    text: action === "soften" ? maskMatches(text, result.matches) : text,
+    blocked: action === "block",
+  };
+}
+
+// Streamed story text is checked a sentence at a time; a sentence ends at punctuation followed by
+// whitespace, or at a line break
+const SENTENCE_END = /[.!?…]+["'”»)\]]*\s+|\n+/g;
+
+/**
+ * Check a story as it is streamed, a sentence at a time, so the player only ever sees text that
+ * passed moderation. `push` takes the next piece of story text and returns what can be shown so far
+ * (masked when softened); `flush` returns the rest once the story is complete. Once a sentence is
+ * blocked nothing more is shown. The finished scene still goes through moderateScene, which records
+ * the moderation event and decides whether the scene is replaced.
+ */
+export function createStreamModerator(): {
+  push: (text: string) => Promise<string>;
+  flush: () => Promise<string>;
+} {
+  let pending = "";
+  let blocked = false;
+
+  const check = async (text: string): Promise<string> => {
+    if (blocked || !text) return "";
+    const classified = await classify(text);
+    if (!classified?.result.flagged) return text;
+
+    const action = resolveAction(env.MODERATION_OUTPUT_ACTION, classified.result);
+    if (action === "block") {
+      blocked = true;
+      return "";
+    }
+    return action === "soften" ? maskMatches(text, classified.result.matches) : text;
+  };
+
+  return {
+    push: async (text) => {
+      pending += text;
+      let end = 0;
+      for (const match of pending.matchAll(SENTENCE_END)) {
+        end = (match.index ?? 0) + match[0].length;
+      }
+      if (end === 0) return "";
+
+      const sentences = pending.substring(0, end);
+      pending = pending.substring(end);
+      return check(sentences);
+    },
+    flush: async () => {
+      const rest = pending;
+      pending = "";
+      return check(rest);
+    },
+  };
+}
+
+// Helper function to apply a change to the names of a level's pits, hazards and enemies, which are
+// shown to the player when they lose a life
+function mapLevelNames(level: LevelLayout, map: (name: string) => string): LevelLayout {
+  const mapName = (name: string | undefined) => (name === undefined ? undefined : map(name));
+  return {
+    ...level,
+    gaps: level.gaps.map((gap) => ({ ...gap, name: mapName(gap.name) })),
+    hazards: level.hazards.map((hazard) => ({ ...hazard, name: mapName(hazard.name) })),
+    enemies: level.enemies.map((enemy) => ({ ...enemy, name: mapName(enemy.name) })),
+  };
+}
+
+/**
+ * Check a generated scene (story, choices, background description, ending reason and level names)
+ * before it is shown or saved. Returns the scene to use (masked when softened) or `blocked: true`
+ * when it must be replaced.
+ */
+export async function moderateScene(
+  scene: AIStoryResponse,
+  context: ModerationContext = {}
+): Promise<{ scene: AIStoryResponse; blocked: boolean }> {
+  const levelNames = scene.level
+    ? [...scene.level.gaps, ...scene.level.hazards, ...scene.level.enemies].flatMap((item) => item.name ?? [])
+    : [];
+  const text = [
+    scene.story,
+    ...scene.choices.map((choice) => choice.text),
+    scene.backgroundDescription,
+    scene.ending?.reason ?? "",
+    ...levelNames,
+  ].filter(Boolean).join("\n");
+  const classified = await classify(text);
+  if (!classified?.result.flagged) return { scene, blocked: false };
+
+  const { result } = classified;
+  const action = resolveAction(env.MODERATION_OUTPUT_ACTION, result);
+  await recordModerationEvent({ context, source: "scene", classifier: classified.classifier, action, categories: result.categories, text });
+
+  if (action !== "soften") return { scene, blocked: action === "block" };
+  const mask = (value: string) => maskMatches(value, result.matches);
+  return {
+    scene: {
+      ...scene,
+      story: mask(scene.story),
+      choices: scene.choices.map((choice) => ({ ...choice, text: mask(choice.text) })),
+      backgroundDescription: mask(scene.backgroundDescription),
+      ending: scene.ending && {
+        ...scene.ending,
+        reason: scene.ending.reason === undefined ? undefined : mask(scene.ending.reason),
+      },
+      level: scene.level && mapLevelNames(scene.level, mask),
+    },
+    blocked: false,
+  };
+}
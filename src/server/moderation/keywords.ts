@@ -0,0 +1,44 @@
+import type { ModerationClassifier, ModerationResult } from "./types";
+
+interface KeywordRule {
+  category: string;
+  pattern: RegExp;
+}
+
+/**
+ * Local rule set for a classroom audience. Adventure violence ("the troll strikes you down") is
+ * fine; these only catch content we never want in a student's game.
+ */
+export const DEFAULT_KEYWORD_RULES: KeywordRule[] = [
+  { category: "profanity", pattern: /\b(fuck\w*|shit\w*|bitch\w*|cunt\w*|asshole\w*|bastard\w*|dickhead\w*)\b/gi },
+  { category: "sexual", pattern: /\b(sex|sexy|sexual(ly)?|porn\w*|nude|naked|nsfw|erotic\w*|rape\w*|orgasm\w*)\b/gi },
+  { category: "self-harm", pattern: /\b(suicid\w*|kill (yourself|myself)|kys|self[- ]harm\w*|cut(ting)? myself)\b/gi },
+  { category: "violence/graphic", pattern: /\b(disembowel\w*|dismember\w*|decapitat\w*|mutilat\w*|gore|gory|tortur\w*)\b/gi },
+  // Students sometimes type their own contact details into prompts
+  { category: "personal-info", pattern: /\b[\w.+-]+@[\w-]+\.[\w.-]+\b/g },
+  { category: "personal-info", pattern: /\b\d{3}[-.\s]?\d{3}[-.\s]?\d{4}\b/g },
+];
+
+export class KeywordClassifier implements ModerationClassifier {
+  readonly name = "keywords";
+
+  constructor(private readonly rules: KeywordRule[] = DEFAULT_KEYWORD_RULES) {}
+
+  async classify(text: string): Promise<ModerationResult> {
+    const categories = new Set<string>();
+    const matches = new Set<string>();
+
+    for (const rule of this.rules) {
+      for (const match of text.matchAll(rule.pattern)) {
+        categories.add(rule.category);
+        matches.add(match[0]);
+      }
+    }
+
+    return {
+      flagged: categories.size > 0,
+      categories: [...categories],
+      matches: [...matches],
+    };
+  }
+}
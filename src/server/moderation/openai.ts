@@ -0,0 +1,30 @@
+import type OpenAI from "openai";
+import type { ModerationClassifier, ModerationResult } from "./types";
+
+const MODERATION_MODEL = "omni-moderation-latest";
+
+// OpenAI's moderation endpoint. It reports categories but not the offending text, so its results
+// can't be softened and are blocked instead.
+export class OpenAIModerationClassifier implements ModerationClassifier {
+  readonly name = "openai";
+
+  constructor(private readonly client: OpenAI) {}
+
+  async classify(text: string): Promise<ModerationResult> {
+    const response = await this.client.moderations.create({
+      model: MODERATION_MODEL,
+      input: text,
+    });
+
+    const result = response.results[0];
+    if (!result) {
+      throw new Error("Moderation response is missing a result");
+    }
+
+    const categories = Object.entries(result.categories)
+      .filter(([, flagged]) => flagged)
+      .map(([category]) => category);
+
+    return { flagged: result.flagged, categories, matches: [] };
+  }
+}
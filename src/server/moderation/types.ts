@@ -0,0 +1,25 @@
+// Shared types for the classifiers used by the moderation layer
+
+export type ModerationAction = "block" | "soften" | "flag";
+
+// Where the moderated text came from
+export type ModerationSource = "sprite_description" | "theme" | "scene" | "report";
+
+export interface ModerationResult {
+  flagged: boolean;
+  // Category names reported by the classifier, e.g. "sexual" or "self-harm"
+  categories: string[];
+  // Offending substrings, when the classifier can point at them. Softening masks these.
+  matches: string[];
+}
+
+export interface ModerationClassifier {
+  readonly name: string;
+  classify(text: string): Promise<ModerationResult>;
+}
+
+// Who the moderated text belongs to, recorded with any moderation event
+export interface ModerationContext {
+  userId?: string | null;
+  saveId?: number | null;
+}
@@ -0,0 +1,37 @@
+import { eq, lte, sql } from "drizzle-orm";
+import { db } from "~/server/db";
+import { rateLimitBuckets } from "~/server/db/schema";
+import type { RateLimitCount, RateLimitStore } from "./types";
+
+// Odds that a request also deletes expired counters, so the table doesn't grow forever
+const CLEANUP_CHANCE = 0.01;
+
+// Counters kept in the database, shared by every server instance
+export class DbRateLimitStore implements RateLimitStore {
+  readonly name = "db";
+
+  async increment(key: string, cost: number, windowSeconds: number): Promise<RateLimitCount> {
+    const now = Math.floor(Date.now() / 1000);
+    const windowStart = now - (now % windowSeconds);
+    const resetAt = windowStart + windowSeconds;
+    const bucketKey = `${key}:${windowStart}`;
+
+    // Upsert so concurrent requests add to the same row instead of racing to create it
+    await db
+      .insert(rateLimitBuckets)
+      .values({ key: bucketKey, count: cost, expiresAt: resetAt })
+      .onDuplicateKeyUpdate({ set: { count: sql`${rateLimitBuckets.count} + ${cost}` } });
+
+    const [bucket] = await db
+      .select({ count: rateLimitBuckets.count })
+      .from(rateLimitBuckets)
+      .where(eq(rateLimitBuckets.key, bucketKey))
+      .limit(1);
+
+    if (Math.random() < CLEANUP_CHANCE) {
+      await db.delete(rateLimitBuckets).where(lte(rateLimitBuckets.expiresAt, now));
+    }
+
+    return { count: bucket?.count ?? cost, resetAt };
+  }
+}
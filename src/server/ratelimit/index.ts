@@ -0,0 +1,137 @@
+import { env } from "~/env";
+import { DbRateLimitStore } from "./db";
+import { MemoryRateLimitStore } from "./memory";
+import type { RateLimitCost, RateLimitIdentity, RateLimitStore } from "./types";
+
+export type * from "./types";
+
+const MINUTE = 60;
+const DAY = 24 * 60 * 60;
+
+// Thrown when a request goes over a quota; becomes a TOO_MANY_REQUESTS error in the tRPC middleware
+export class RateLimitExceededError extends Error {
+  constructor(
+    message: string,
+    // Seconds until the quota resets
+    readonly retryAfter: number
+  ) {
+    super(message);
+    this.name = "RateLimitExceededError";
+  }
+}
+
+let rateLimitStore: RateLimitStore | undefined;
+
+/**
+ * Where rate limit counters are kept. `RATE_LIMIT_STORE=memory` keeps them in process memory
+ * (single instance / tests); otherwise they live in the database.
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!rateLimitStore) {
+    rateLimitStore = env.RATE_LIMIT_STORE === "memory" ? new MemoryRateLimitStore() : new DbRateLimitStore();
+    console.log(`[RateLimit] Using ${rateLimitStore.name} store`);
+  }
+  return rateLimitStore;
+}
+
+// Thrown when a guest's request has no address to count it against; becomes a FORBIDDEN error
+export class UnidentifiedClientError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnidentifiedClientError";
+  }
+}
+
+/**
+ * Find the client's IP address behind our proxies. Each of the `trustedHops` proxies appends the
+ * address it was reached from to X-Forwarded-For, so the client is the entry the outermost one
+ * appended; anything to its left was sent by the client and can be forged. X-Real-IP is only
+ * read behind a proxy (which sets it), and never when the app is reached directly.
+ */
+export function getClientIp(headers: Headers, trustedHops = env.TRUSTED_PROXY_HOPS): string | null {
+  if (trustedHops <= 0) return null;
+
+  const forwardedFor = headers.get("x-forwarded-for");
+  if (forwardedFor !== null) {
+    const hops = forwardedFor.split(",").map((hop) => hop.trim());
+    // Fewer entries than proxies means the request didn't come through all of them
+    return hops[hops.length - trustedHops] || null;
+  }
+  return headers.get("x-real-ip")?.trim() || null;
+}
+
+interface Quota {
+  key: string;
+  requestsPerMinute: number;
+  imagesPerDay: number;
+  // Shown when the images-per-day quota is used up
+  imagesMessage: string;
+}
+
+const IMAGES_MESSAGE = "You've reached today's image limit. Come back tomorrow for more adventures!";
+
+// Signed-in players get their own quotas; guests share the (smaller) quotas of their IP address.
+// Every address also has a quota shared by everyone calling from it, so several accounts can't
+// multiply what one address gets. Guests without an address aren't lumped together, where one of
+// them could use up everyone's quota.
+function getQuotas(identity: RateLimitIdentity): Quota[] {
+  const quotas: Quota[] = [];
+  if (identity.userId) {
+    quotas.push({
+      key: `user:${identity.userId}`,
+      requestsPerMinute: env.RATE_LIMIT_USER_REQUESTS_PER_MINUTE,
+      imagesPerDay: env.RATE_LIMIT_USER_IMAGES_PER_DAY,
+      imagesMessage: IMAGES_MESSAGE,
+    });
+  } else if (identity.ip) {
+    quotas.push({
+      key: `ip:${identity.ip}`,
+      requestsPerMinute: env.RATE_LIMIT_GUEST_REQUESTS_PER_MINUTE,
+      imagesPerDay: env.RATE_LIMIT_GUEST_IMAGES_PER_DAY,
+      imagesMessage: "You've reached today's image limit for guests. Log in to keep playing.",
+    });
+  } else {
+    console.warn("[RateLimit] Turned away a guest request with no client address; check TRUSTED_PROXY_HOPS");
+    throw new UnidentifiedClientError("We couldn't tell where your request came from. Log in to keep playing.");
+  }
+
+  if (identity.ip) {
+    quotas.push({
+      key: `address:${identity.ip}`,
+      requestsPerMinute: env.RATE_LIMIT_IP_REQUESTS_PER_MINUTE,
+      imagesPerDay: env.RATE_LIMIT_IP_IMAGES_PER_DAY,
+      imagesMessage: IMAGES_MESSAGE,
+    });
+  }
+  return quotas;
+}
+
+async function consume(key: string, cost: number, limit: number, windowSeconds: number, message: string) {
+  // A limit of 0 turns the quota off
+  if (limit <= 0 || cost <= 0) return;
+
+  const { count, resetAt } = await getRateLimitStore().increment(key, cost, windowSeconds);
+  if (count > limit) {
+    const retryAfter = Math.max(1, resetAt - Math.floor(Date.now() / 1000));
+    console.warn(`[RateLimit] ${key} is over its limit (${count}/${limit})`);
+    throw new RateLimitExceededError(message, retryAfter);
+  }
+}
+
+/**
+ * Count a request (and the images it will generate) against the caller's quotas.
+ * Throws RateLimitExceededError when a quota is used up, and UnidentifiedClientError for guests
+ * with no IP address.
+ */
+export async function checkRateLimit(identity: RateLimitIdentity, cost: RateLimitCost = {}): Promise<void> {
+  for (const quota of getQuotas(identity)) {
+    await consume(
+      `requests:${quota.key}`,
+      1,
+      quota.requestsPerMinute,
+      MINUTE,
+      "You're going too fast! Please wait a moment before trying again."
+    );
+    await consume(`images:${quota.key}`, cost.images ?? 0, quota.imagesPerDay, DAY, quota.imagesMessage);
+  }
+}
@@ -0,0 +1,30 @@
+import type { RateLimitCount, RateLimitStore } from "./types";
+
+// Prune expired counters once the map grows past this many entries
+const PRUNE_THRESHOLD = 1000;
+
+// Counters kept in process memory. Only suitable for a single server instance (and for tests);
+// limits reset whenever the server restarts.
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = "memory";
+
+  private readonly counters = new Map<string, RateLimitCount>();
+
+  async increment(key: string, cost: number, windowSeconds: number): Promise<RateLimitCount> {
+    const now = Math.floor(Date.now() / 1000);
+    if (this.counters.size > PRUNE_THRESHOLD) this.prune(now);
+
+    const windowStart = now - (now % windowSeconds);
+    const bucketKey = `${key}:${windowStart}`;
+    const counter = this.counters.get(bucketKey) ?? { count: 0, resetAt: windowStart + windowSeconds };
+    counter.count += cost;
+    this.counters.set(bucketKey, counter);
+    return { ...counter };
+  }
+
+  private prune(now: number) {
+    for (const [key, counter] of this.counters) {
+      if (counter.resetAt <= now) this.counters.delete(key);
+    }
+  }
+}
@@ -0,0 +1,206 @@
+import { fetchRequestHandler } from "@trpc/server/adapters/fetch";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// Quotas small enough to run out in a few calls; counters are kept in memory
+const testEnv = vi.hoisted(() => ({
+  RATE_LIMIT_STORE: "memory",
+  RATE_LIMIT_USER_REQUESTS_PER_MINUTE: 5,
+  RATE_LIMIT_USER_IMAGES_PER_DAY: 3,
+  RATE_LIMIT_GUEST_REQUESTS_PER_MINUTE: 2,
+  RATE_LIMIT_GUEST_IMAGES_PER_DAY: 1,
+  RATE_LIMIT_IP_REQUESTS_PER_MINUTE: 8,
+  RATE_LIMIT_IP_IMAGES_PER_DAY: 10,
+  TRUSTED_PROXY_HOPS: 1,
+}));
+
+vi.mock("~/env", () => ({ env: testEnv }));
+vi.mock("~/server/db", () => ({ db: {} }));
+vi.mock("~/server/auth", () => ({ auth: vi.fn() }));
+
+import { createTRPCRouter, rateLimitedProcedure } from "~/server/api/trpc";
+import {
+  RateLimitExceededError,
+  UnidentifiedClientError,
+  checkRateLimit,
+  getClientIp,
+} from "./index";
+import { MemoryRateLimitStore } from "./memory";
+
+// 15 seconds into a minute (and a day), so the windows end at known times
+const NOW = new Date("2026-03-01T00:00:15Z");
+
+let nextAddress = 1;
+// Helper function to give each test addresses no other test has counted against
+const newAddress = () => `203.0.113.${nextAddress++}`;
+
+// Helper function to catch what a call throws
+async function caught(promise: Promise<unknown>): Promise<unknown> {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+  throw new Error("Expected the call to throw");
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(NOW);
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("MemoryRateLimitStore", () => {
+  it("adds up costs within a window and says when it ends", async () => {
+    const store = new MemoryRateLimitStore();
+    const windowEnd = NOW.getTime() / 1000 + 45;
+
+    expect(await store.increment("key", 1, 60)).toEqual({ count: 1, resetAt: windowEnd });
+    expect(await store.increment("key", 2, 60)).toEqual({ count: 3, resetAt: windowEnd });
+  });
+
+  it("starts counting again in the next window", async () => {
+    const store = new MemoryRateLimitStore();
+    await store.increment("key", 4, 60);
+
+    vi.setSystemTime(NOW.getTime() + 45_000);
+    expect((await store.increment("key", 1, 60)).count).toBe(1);
+  });
+
+  it("keeps keys apart", async () => {
+    const store = new MemoryRateLimitStore();
+    await store.increment("a", 2, 60);
+
+    expect((await store.increment("b", 1, 60)).count).toBe(1);
+  });
+});
+
+describe("getClientIp", () => {
+  it("takes the entry the outermost trusted proxy appended", () => {
+    const headers = new Headers({ "x-forwarded-for": "6.6.6.6, 198.51.100.7" });
+    expect(getClientIp(headers, 1)).toBe("198.51.100.7");
+
+    const twoProxies = new Headers({ "x-forwarded-for": "6.6.6.6, 198.51.100.7, 10.0.0.2" });
+    expect(getClientIp(twoProxies, 2)).toBe("198.51.100.7");
+  });
+
+  it("finds no address when the request skipped a proxy", () => {
+    expect(getClientIp(new Headers({ "x-forwarded-for": "198.51.100.7" }), 2)).toBeNull();
+  });
+
+  it("falls back to X-Real-IP behind a proxy", () => {
+    expect(getClientIp(new Headers({ "x-real-ip": "198.51.100.7" }), 1)).toBe("198.51.100.7");
+  });
+
+  it("ignores forwarding headers when the app is reached directly", () => {
+    const headers = new Headers({ "x-forwarded-for": "6.6.6.6", "x-real-ip": "6.6.6.6" });
+    expect(getClientIp(headers, 0)).toBeNull();
+  });
+});
+
+describe("checkRateLimit", () => {
+  it("limits guests per address, with the seconds until the window ends", async () => {
+    const ip = newAddress();
+    await checkRateLimit({ ip });
+    await checkRateLimit({ ip });
+
+    const error = await caught(checkRateLimit({ ip }));
+    expect(error).toBeInstanceOf(RateLimitExceededError);
+    expect((error as RateLimitExceededError).retryAfter).toBe(45);
+
+    // Other guests have quotas of their own
+    await expect(checkRateLimit({ ip: newAddress() })).resolves.toBeUndefined();
+  });
+
+  it("counts images against a daily quota", async () => {
+    const ip = newAddress();
+    await checkRateLimit({ ip }, { images: 1 });
+
+    const error = await caught(checkRateLimit({ ip }, { images: 1 }));
+    expect(error).toBeInstanceOf(RateLimitExceededError);
+    expect((error as RateLimitExceededError).retryAfter).toBe(24 * 60 * 60 - 15);
+  });
+
+  it("gives signed-in players their own quotas", async () => {
+    const ip = newAddress();
+    for (let i = 0; i < testEnv.RATE_LIMIT_USER_REQUESTS_PER_MINUTE; i++) {
+      await checkRateLimit({ userId: "player-1", ip });
+    }
+
+    await expect(checkRateLimit({ userId: "player-1", ip })).rejects.toBeInstanceOf(RateLimitExceededError);
+    await expect(checkRateLimit({ userId: "player-2", ip })).resolves.toBeUndefined();
+  });
+
+  it("counts every account on an address against the address's quota", async () => {
+    const ip = newAddress();
+    for (let i = 0; i < testEnv.RATE_LIMIT_IP_REQUESTS_PER_MINUTE; i++) {
+      await checkRateLimit({ userId: `account-${i}`, ip });
+    }
+
+    await expect(checkRateLimit({ userId: "one-more-account", ip })).rejects.toBeInstanceOf(RateLimitExceededError);
+    await expect(checkRateLimit({ userId: "one-more-account", ip: newAddress() })).resolves.toBeUndefined();
+  });
+
+  it("turns away guests without an address instead of sharing a quota between them", async () => {
+    await expect(checkRateLimit({ ip: null })).rejects.toBeInstanceOf(UnidentifiedClientError);
+    await expect(checkRateLimit({ userId: "player-3", ip: null })).resolves.toBeUndefined();
+  });
+
+  it("skips quotas set to 0", async () => {
+    const ip = newAddress();
+    testEnv.RATE_LIMIT_GUEST_REQUESTS_PER_MINUTE = 0;
+    try {
+      for (let i = 0; i < 5; i++) {
+        await expect(checkRateLimit({ ip })).resolves.toBeUndefined();
+      }
+    } finally {
+      testEnv.RATE_LIMIT_GUEST_REQUESTS_PER_MINUTE = 2;
+    }
+  });
+});
+
+describe("rateLimitedProcedure", () => {
+  const router = createTRPCRouter({
+    generate: rateLimitedProcedure({ images: 1 }).mutation(() => "generated"),
+  });
+
+  // Helper function to call the procedure over HTTP as a guest, returning the status and the error
+  async function callAsGuest(headers: Record<string, string>) {
+    const req = new Request("http://localhost/api/trpc/generate", {
+      method: "POST",
+      headers: { "content-type": "application/json", ...headers },
+    });
+    const response = await fetchRequestHandler({
+      endpoint: "/api/trpc",
+      req,
+      router,
+      createContext: async () => ({ db: {} as never, session: null, headers: req.headers }),
+    });
+    const body = (await response.json()) as {
+      error?: { json: { message: string, data: { code: string, retryAfter: number | null } } },
+    };
+    return { status: response.status, error: body.error?.json };
+  }
+
+  it("fails over-limit calls with TOO_MANY_REQUESTS and a retry-after", async () => {
+    const headers = { "x-forwarded-for": newAddress() };
+    expect((await callAsGuest(headers)).status).toBe(200);
+
+    const { status, error } = await callAsGuest(headers);
+    expect(status).toBe(429);
+    expect(error?.data.code).toBe("TOO_MANY_REQUESTS");
+    expect(error?.data.retryAfter).toBe(24 * 60 * 60 - 15);
+  });
+
+  it("fails guest calls with no address with FORBIDDEN", async () => {
+    const { status, error } = await callAsGuest({});
+    expect(status).toBe(403);
+    expect(error?.data.code).toBe("FORBIDDEN");
+    expect(error?.data.retryAfter).toBeNull();
+  });
+});
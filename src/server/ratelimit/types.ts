@@ -0,0 +1,26 @@
+// Shared types for rate limiting and the stores that keep the counters
+
+export interface RateLimitCount {
+  count: number;
+  // When the current window ends (unix seconds)
+  resetAt: number;
+}
+
+// Somewhere to keep fixed-window counters. Implementations must increment atomically so
+// concurrent requests can't both slip under a limit.
+export interface RateLimitStore {
+  readonly name: string;
+  // Add `cost` to the counter for `key` in the current window and return the new total
+  increment(key: string, cost: number, windowSeconds: number): Promise<RateLimitCount>;
+}
+
+// What a request uses up beyond counting as one request
+export interface RateLimitCost {
+  images?: number;
+}
+
+// Who a request is counted against: the signed-in user, otherwise the client's IP address
+export interface RateLimitIdentity {
+  userId?: string | null;
+  ip: string | null;
+}
@@ -0,0 +1,150 @@
+import { and, count, desc, eq, gte, isNotNull, sql, sum, type SQL } from "drizzle-orm";
+import type { ImageResult, StoryCompletion } from "~/server/ai";
+import { db } from "~/server/db";
+import { aiUsage } from "~/server/db/schema";
+import { estimateChatCostMicros, estimateImageCostMicros } from "./pricing";
+
+const DAY = 24 * 60 * 60;
+
+// Who an AI call was made for
+export interface UsageOwner {
+  userId?: string | null;
+  saveId?: number | null;
+}
+
+export interface UsageTotals {
+  chatCalls: number;
+  imageCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  images: number;
+  // Estimated cost in US dollars
+  cost: number;
+}
+
+export interface UsageDay extends UsageTotals {
+  // Start of the day (UTC) as unix seconds
+  day: number;
+}
+
+async function insertUsage(values: typeof aiUsage.$inferInsert) {
+  // The ledger must never break a game, so failures are only logged
+  try {
+    await db.insert(aiUsage).values(values);
+  } catch (error) {
+    console.error("[Usage] Failed to record AI usage:", error);
+  }
+}
+
+// Record a chat completion (story scene) in the ledger
+export async function recordChatUsage(provider: string, completion: StoryCompletion, owner: UsageOwner = {}) {
+  const promptTokens = completion.usage?.promptTokens ?? 0;
+  const completionTokens = completion.usage?.completionTokens ?? 0;
+  await insertUsage({
+    kind: "chat",
+    provider,
+    model: completion.model,
+    userId: owner.userId ?? null,
+    saveId: owner.saveId ?? null,
+    promptTokens,
+    completionTokens,
+    costMicros: estimateChatCostMicros(completion.model, promptTokens, completionTokens),
+    createdAt: Math.floor(Date.now() / 1000),
+  });
+}
+
+// Record a generated image in the ledger
+export async function recordImageUsage(provider: string, result: ImageResult, owner: UsageOwner = {}) {
+  await insertUsage({
+    kind: "image",
+    provider,
+    model: result.model,
+    userId: owner.userId ?? null,
+    saveId: owner.saveId ?? null,
+    imageSize: result.size,
+    imageCount: 1,
+    costMicros: estimateImageCostMicros(result.model, result.size),
+    createdAt: Math.floor(Date.now() / 1000),
+  });
+}
+
+// Aggregate columns shared by the daily and per-user queries
+const totalsColumns = {
+  chatCalls: sql<number>`sum(case when ${aiUsage.kind} = 'chat' then 1 else 0 end)`,
+  imageCalls: sql<number>`sum(case when ${aiUsage.kind} = 'image' then 1 else 0 end)`,
+  promptTokens: sum(aiUsage.promptTokens),
+  completionTokens: sum(aiUsage.completionTokens),
+  images: sum(aiUsage.imageCount),
+  costMicros: sum(aiUsage.costMicros),
+};
+
+// Helper function to turn the (string) sums returned by the database into totals
+function toTotals(row: {
+  chatCalls: number | string | null;
+  imageCalls: number | string | null;
+  promptTokens: string | null;
+  completionTokens: string | null;
+  images: string | null;
+  costMicros: string | null;
+}): UsageTotals {
+  return {
+    chatCalls: Number(row.chatCalls ?? 0),
+    imageCalls: Number(row.imageCalls ?? 0),
+    promptTokens: Number(row.promptTokens ?? 0),
+    completionTokens: Number(row.completionTokens ?? 0),
+    images: Number(row.images ?? 0),
+    cost: Number(row.costMicros ?? 0) / 1_000_000,
+  };
+}
+
+// Add up a list of totals (e.g. the days of a period)
+export function sumTotals(totals: UsageTotals[]): UsageTotals {
+  return totals.reduce<UsageTotals>(
+    (acc, item) => ({
+      chatCalls: acc.chatCalls + item.chatCalls,
+      imageCalls: acc.imageCalls + item.imageCalls,
+      promptTokens: acc.promptTokens + item.promptTokens,
+      completionTokens: acc.completionTokens + item.completionTokens,
+      images: acc.images + item.images,
+      cost: acc.cost + item.cost,
+    }),
+    { chatCalls: 0, imageCalls: 0, promptTokens: 0, completionTokens: 0, images: 0, cost: 0 }
+  );
+}
+
+const sinceDaysAgo = (days: number) => {
+  const now = Math.floor(Date.now() / 1000);
+  return now - (now % DAY) - (days - 1) * DAY;
+};
+
+/**
+ * Usage per day (UTC) over the last `days` days, oldest first. Pass a user id for one player's
+ * usage; otherwise every call is counted.
+ */
+export async function getUsageByDay(input: { days: number; userId?: string }): Promise<UsageDay[]> {
+  const dayColumn = sql<number>`(${aiUsage.createdAt} - (${aiUsage.createdAt} % ${DAY}))`;
+  const conditions: SQL[] = [gte(aiUsage.createdAt, sinceDaysAgo(input.days))];
+  if (input.userId) conditions.push(eq(aiUsage.userId, input.userId));
+
+  const rows = await db
+    .select({ day: dayColumn, ...totalsColumns })
+    .from(aiUsage)
+    .where(and(...conditions))
+    .groupBy(dayColumn)
+    .orderBy(dayColumn);
+
+  return rows.map((row) => ({ day: Number(row.day), ...toTotals(row) }));
+}
+
+// Signed-in players with the highest estimated cost over the last `days` days
+export async function getTopUsers(input: { days: number; limit: number }): Promise<Array<UsageTotals & { userId: string }>> {
+  const rows = await db
+    .select({ userId: aiUsage.userId, ...totalsColumns })
+    .from(aiUsage)
+    .where(and(gte(aiUsage.createdAt, sinceDaysAgo(input.days)), isNotNull(aiUsage.userId)))
+    .groupBy(aiUsage.userId)
+    .orderBy(desc(sum(aiUsage.costMicros)), desc(count()))
+    .limit(input.limit);
+
+  return rows.map((row) => ({ userId: row.userId ?? "", ...toTotals(row) }));
+}
@@ -0,0 +1,37 @@
+// List prices (US dollars) used to estimate what each AI call costs. These are estimates for
+// budgeting only; update them when the provider's prices change.
+
+interface ChatPrice {
+  // Matches the model name reported by the API, which may carry a date suffix
+  modelPrefix: string;
+  promptPer1K: number;
+  completionPer1K: number;
+}
+
+// Longer prefixes first so "gpt-4o-mini" isn't priced as "gpt-4o"
+const CHAT_PRICES: ChatPrice[] = [
+  { modelPrefix: "gpt-3.5-turbo", promptPer1K: 0.0005, completionPer1K: 0.0015 },
+  { modelPrefix: "gpt-4o-mini", promptPer1K: 0.00015, completionPer1K: 0.0006 },
+  { modelPrefix: "gpt-4o", promptPer1K: 0.0025, completionPer1K: 0.01 },
+];
+
+// Price per image by model and size
+const IMAGE_PRICES: Record<string, Record<string, number>> = {
+  "dall-e-3": { "1024x1024": 0.04, "1024x1792": 0.08, "1792x1024": 0.08 },
+  "dall-e-2": { "256x256": 0.016, "512x512": 0.018, "1024x1024": 0.02 },
+};
+
+const toMicros = (dollars: number) => Math.round(dollars * 1_000_000);
+
+// Estimated cost of a chat completion in millionths of a dollar (0 for unknown models, e.g. offline)
+export function estimateChatCostMicros(model: string, promptTokens: number, completionTokens: number): number {
+  const price = CHAT_PRICES.find((candidate) => model.startsWith(candidate.modelPrefix));
+  if (!price) return 0;
+  return toMicros((promptTokens / 1000) * price.promptPer1K + (completionTokens / 1000) * price.completionPer1K);
+}
+
+// Estimated cost of generated images in millionths of a dollar (0 for unknown models, e.g. offline)
+export function estimateImageCostMicros(model: string, size: string, count = 1): number {
+  const price = IMAGE_PRICES[model]?.[size];
+  return price ? toMicros(price * count) : 0;
+}
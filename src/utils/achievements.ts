@@ -0,0 +1,33 @@
+import type { Difficulty } from "./difficulty";
+
+// Achievements catalog, shared by the server (which checks the conditions when scenes and endings
+// are recorded, see ~/server/game/achievements) and the pages (which show them). Titles and
+// descriptions are in each language's text, see ~/utils/language.
+
+export type AchievementCondition =
+  // The run reached this many scenes survived, optionally on a difficulty or without losing a life
+  | { type: "scenesSurvived"; count: number; difficulty?: Difficulty; withoutLosingALife?: boolean }
+  // The run ended this way, optionally within this many scenes survived
+  | { type: "ending"; endingType: "death" | "victory"; maxScenesSurvived?: number }
+  // The player has finished this many adventures (not counting ones they quit), optionally each with a different theme
+  | { type: "adventuresFinished"; count: number; distinctThemes?: boolean };
+
+export const ACHIEVEMENTS = [
+  { id: "survivor", icon: "🛡️", condition: { type: "scenesSurvived", count: 10 } },
+  { id: "legend", icon: "🏆", condition: { type: "scenesSurvived", count: 25 } },
+  { id: "iron-will", icon: "🔥", condition: { type: "scenesSurvived", count: 5, difficulty: "hardcore" } },
+  { id: "untouchable", icon: "✨", condition: { type: "scenesSurvived", count: 5, withoutLosingALife: true } },
+  { id: "short-lived", icon: "💀", condition: { type: "ending", endingType: "death", maxScenesSurvived: 1 } },
+  { id: "hero", icon: "👑", condition: { type: "ending", endingType: "victory" } },
+  { id: "globetrotter", icon: "🧭", condition: { type: "adventuresFinished", count: 3, distinctThemes: true } },
+  { id: "veteran", icon: "🎖️", condition: { type: "adventuresFinished", count: 10 } },
+] as const satisfies ReadonlyArray<{ id: string; icon: string; condition: AchievementCondition }>;
+
+export type AchievementId = (typeof ACHIEVEMENTS)[number]["id"];
+
+export const ACHIEVEMENT_IDS: AchievementId[] = ACHIEVEMENTS.map((achievement) => achievement.id);
+
+// Read a stored achievement id, ignoring ones no longer in the catalog
+export function parseAchievementId(value: string | null | undefined): AchievementId | null {
+  return ACHIEVEMENT_IDS.find((id) => id === value) ?? null;
+}
@@ -0,0 +1,135 @@
+import { z } from "zod";
+
+// Character sheet (health, gold, attributes, inventory), shared by the game router (prompts,
+// applying the narrator's state changes) and the game page (HUD)
+
+export const ATTRIBUTES = ["strength", "agility", "wits"] as const;
+
+export type Attribute = (typeof ATTRIBUTES)[number];
+
+// Bounds the server enforces whatever the narrator asks for
+export const MAX_HP = 10;
+export const MIN_ATTRIBUTE = 1;
+export const MAX_ATTRIBUTE = 10;
+export const MAX_INVENTORY_ITEMS = 12;
+const MAX_ITEM_QUANTITY = 99;
+const MAX_ITEM_NAME_LENGTH = 40;
+// Largest change to gold a single scene may make
+const MAX_GOLD_CHANGE = 100;
+
+const itemSchema = z.object({
+  name: z.string().trim().min(1).max(MAX_ITEM_NAME_LENGTH),
+  quantity: z.number().int().min(1).max(MAX_ITEM_QUANTITY).default(1),
+});
+
+export type InventoryItem = z.infer<typeof itemSchema>;
+
+export const characterSheetSchema = z.object({
+  hp: z.number().int().min(0).max(MAX_HP),
+  maxHp: z.number().int().min(1).max(MAX_HP),
+  gold: z.number().int().min(0),
+  attributes: z.object({
+    strength: z.number().int().min(MIN_ATTRIBUTE).max(MAX_ATTRIBUTE),
+    agility: z.number().int().min(MIN_ATTRIBUTE).max(MAX_ATTRIBUTE),
+    wits: z.number().int().min(MIN_ATTRIBUTE).max(MAX_ATTRIBUTE),
+  }),
+  inventory: z.array(itemSchema).max(MAX_INVENTORY_ITEMS),
+});
+
+export type CharacterSheet = z.infer<typeof characterSheetSchema>;
+
+/**
+ * Changes the narrator asks for in a scene. Health, gold and attributes are relative (e.g. `hp: -2`);
+ * items are added to or removed from the inventory by name.
+ */
+export const stateChangesSchema = z.object({
+  hp: z.number().int().min(-MAX_HP).max(MAX_HP).optional(),
+  gold: z.number().int().min(-MAX_GOLD_CHANGE).max(MAX_GOLD_CHANGE).optional(),
+  attributes: z.object({
+    strength: z.number().int().min(-2).max(2).optional(),
+    agility: z.number().int().min(-2).max(2).optional(),
+    wits: z.number().int().min(-2).max(2).optional(),
+  }).optional(),
+  addItems: z.array(itemSchema).max(MAX_INVENTORY_ITEMS).optional(),
+  removeItems: z.array(itemSchema).max(MAX_INVENTORY_ITEMS).optional(),
+});
+
+export type StateChanges = z.infer<typeof stateChangesSchema>;
+
+export function createCharacterSheet(): CharacterSheet {
+  return {
+    hp: MAX_HP,
+    maxHp: MAX_HP,
+    gold: 10,
+    attributes: { strength: 3, agility: 3, wits: 3 },
+    inventory: [],
+  };
+}
+
+// Read a stored character sheet, starting a fresh one for missing or malformed values
+export function parseCharacterSheet(value: string | null | undefined): CharacterSheet {
+  if (!value?.trim()) return createCharacterSheet();
+  try {
+    const result = characterSheetSchema.safeParse(JSON.parse(value));
+    if (result.success) return result.data;
+  } catch (error) {
+    console.error("Error parsing character sheet JSON:", error);
+  }
+  return createCharacterSheet();
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Helper function to match inventory items regardless of case and spacing
+const itemKey = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Apply a scene's state changes to a character sheet, returning the new sheet. Values are kept
+ * within their bounds, items the character doesn't have can't be removed, and new items are
+ * dropped once the inventory is full.
+ */
+export function applyStateChanges(sheet: CharacterSheet, changes: StateChanges | undefined): CharacterSheet {
+  if (!changes) return sheet;
+
+  const attributes = { ...sheet.attributes };
+  for (const attribute of ATTRIBUTES) {
+    attributes[attribute] = clamp(
+      attributes[attribute] + (changes.attributes?.[attribute] ?? 0),
+      MIN_ATTRIBUTE,
+      MAX_ATTRIBUTE
+    );
+  }
+
+  const inventory = sheet.inventory.map((item) => ({ ...item }));
+  for (const removed of changes.removeItems ?? []) {
+    const index = inventory.findIndex((item) => itemKey(item.name) === itemKey(removed.name));
+    const item = inventory[index];
+    if (!item) continue;
+    item.quantity -= removed.quantity;
+    if (item.quantity <= 0) inventory.splice(index, 1);
+  }
+  for (const added of changes.addItems ?? []) {
+    const existing = inventory.find((item) => itemKey(item.name) === itemKey(added.name));
+    if (existing) {
+      existing.quantity = Math.min(MAX_ITEM_QUANTITY, existing.quantity + added.quantity);
+    } else if (inventory.length < MAX_INVENTORY_ITEMS) {
+      inventory.push({ name: added.name, quantity: added.quantity });
+    }
+  }
+
+  return {
+    hp: clamp(sheet.hp + (changes.hp ?? 0), 0, sheet.maxHp),
+    maxHp: sheet.maxHp,
+    gold: Math.max(0, sheet.gold + (changes.gold ?? 0)),
+    attributes,
+    inventory,
+  };
+}
+
+// Human-readable summary of a sheet for the narrator's prompt
+export function describeCharacterSheet(sheet: CharacterSheet): string {
+  const items = sheet.inventory.length
+    ? sheet.inventory.map((item) => (item.quantity > 1 ? `${item.name} x${item.quantity}` : item.name)).join(", ")
+    : "nothing";
+  return `HP ${sheet.hp}/${sheet.maxHp}, gold ${sheet.gold}, strength ${sheet.attributes.strength}, agility ${sheet.attributes.agility}, wits ${sheet.attributes.wits}. Carrying: ${items}.`;
+}
@@ -0,0 +1,72 @@
+// Difficulty modes, shared by the game router (prompts, blunder odds, lives) and the game page
+// (labels, choices, lives)
+
+export const DIFFICULTIES = ["story", "normal", "hardcore"] as const;
+
+export type Difficulty = (typeof DIFFICULTIES)[number];
+
+export const DEFAULT_DIFFICULTY: Difficulty = "normal";
+
+export interface DifficultySettings {
+  label: string;
+  description: string;
+  // Odds that any choice is a random fatal blunder, regardless of what the narrator writes
+  blunderChance: number;
+  // Instruction added to the narrator's system prompt about how often the player should die
+  narratorLethality: string;
+  // How often the offline provider (which doesn't read prompts) kills the player
+  offlineDeathChance: number;
+  // Number of choices offered in every scene
+  choiceCount: number;
+  // Applied to the number of scenes survived to get the final score
+  scoreMultiplier: number;
+  // Platformer deaths (pits, hazards, enemies) the player survives, restarting the scene each time;
+  // losing the last one ends the adventure
+  lives: number;
+}
+
+export const DIFFICULTY_SETTINGS: Record<Difficulty, DifficultySettings> = {
+  story: {
+    label: "Story Mode",
+    description: "Enjoy the tale. Danger is rarely fatal.",
+    blunderChance: 0,
+    narratorLethality: "The player should almost never die: turn risky choices into narrow escapes or setbacks instead.",
+    offlineDeathChance: 0,
+    choiceCount: 4,
+    scoreMultiplier: 0.5,
+    lives: 5,
+  },
+  normal: {
+    label: "Normal",
+    description: "Careless choices can get you killed.",
+    blunderChance: 0.1,
+    narratorLethality: "If the player blunders, they should die. Reckless choices should be dangerous.",
+    offlineDeathChance: 0.08,
+    choiceCount: 3,
+    scoreMultiplier: 1,
+    lives: 3,
+  },
+  hardcore: {
+    label: "Hardcore",
+    description: "Fewer options, and one wrong move is the end.",
+    blunderChance: 0.2,
+    narratorLethality: "The game should be easy to die in: any careless or unlucky choice can be fatal.",
+    offlineDeathChance: 0.2,
+    choiceCount: 2,
+    scoreMultiplier: 2,
+    lives: 1,
+  },
+};
+
+// Read a stored difficulty, treating missing or unknown values as the default
+export function parseDifficulty(value: string | null | undefined): Difficulty {
+  return DIFFICULTIES.find((difficulty) => difficulty === value) ?? DEFAULT_DIFFICULTY;
+}
+
+export const getDifficultySettings = (value: string | null | undefined): DifficultySettings =>
+  DIFFICULTY_SETTINGS[parseDifficulty(value)];
+
+// Final score for a number of scenes survived on a difficulty
+export function applyScoreMultiplier(score: number, difficulty: string | null | undefined): number {
+  return Math.round(score * getDifficultySettings(difficulty).scoreMultiplier);
+}
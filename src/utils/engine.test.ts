@@ -0,0 +1,231 @@
+import { describe, expect, it } from "vitest";
+import {
+  FIXED_TIMESTEP,
+  MAX_FRAME_TIME,
+  MOVEMENT_SPEED,
+  advanceEngine,
+  createEngineState,
+  step,
+  type EngineEvent,
+  type EngineInput,
+  type EngineState,
+  type EngineWorld,
+} from "./engine";
+import { GROUND_LEVEL, type DeathCause } from "./level";
+
+const IDLE: EngineInput = { left: false, right: false, jump: false };
+const RIGHT: EngineInput = { left: false, right: true, jump: false };
+const JUMP: EngineInput = { left: false, right: false, jump: true };
+// Added to frame times that should end on a whole step, so float rounding doesn't drop the last one
+const EPSILON = 1e-9;
+
+interface StubWorldOptions {
+  // Surfaces above the ground, from x1 to x2 with their top at y
+  platforms?: Array<{ x1: number; x2: number; y: number }>;
+  // Stretches of ground the player falls through
+  gaps?: Array<{ x1: number; x2: number }>;
+  // Anything that kills the player between x1 and x2 (below y, if given)
+  dangers?: Array<{ x1: number; x2: number; below?: number; cause: DeathCause }>;
+  exitX?: number;
+}
+
+// Helper function to build a world with just the collisions a test needs, instead of a real level
+function createStubWorld(options: StubWorldOptions = {}): EngineWorld {
+  const within = (x: number, range: { x1: number; x2: number }) => x >= range.x1 && x <= range.x2;
+
+  return {
+    findLanding: (x, fromY, toY) => {
+      const surfaces = (options.platforms ?? []).filter((platform) => within(x, platform)).map((platform) => platform.y);
+      if (!(options.gaps ?? []).some((gap) => within(x, gap))) surfaces.push(GROUND_LEVEL);
+      const reached = surfaces.filter((y) => y >= fromY && y <= toY);
+      return reached.length > 0 ? Math.min(...reached) : null;
+    },
+    findDeathCause: (x, y) =>
+      (options.dangers ?? []).find((danger) => within(x, danger) && (danger.below === undefined || y > danger.below))?.cause ?? null,
+    isAtExit: (x) => options.exitX !== undefined && x >= options.exitX,
+  };
+}
+
+// Helper function to run fixed steps with the same input, collecting every event
+function runSteps(state: EngineState, input: EngineInput, count: number, world: EngineWorld) {
+  let current = state;
+  const events: EngineEvent[] = [];
+  for (let i = 0; i < count; i++) {
+    const result = step(current, input, FIXED_TIMESTEP, world);
+    current = result.state;
+    events.push(...result.events);
+  }
+  return { state: current, events };
+}
+
+// Helper function to start a level with the player standing at (x, y)
+function standingAt(x: number, y: number): EngineState {
+  const state = createEngineState();
+  return { ...state, player: { ...state.player, x, y } };
+}
+
+describe("advanceEngine", () => {
+  it("simulates whole fixed steps and carries the rest of the frame over", () => {
+    const world = createStubWorld();
+    const first = advanceEngine(createEngineState(), RIGHT, 2.5 * FIXED_TIMESTEP, world);
+
+    expect(first.state.time).toBeCloseTo(2 * FIXED_TIMESTEP, 10);
+    expect(first.state.accumulator).toBeCloseTo(0.5 * FIXED_TIMESTEP, 10);
+    expect(first.state.player.x).toBeCloseTo(createEngineState().player.x + MOVEMENT_SPEED * 2 * FIXED_TIMESTEP, 10);
+
+    // The half step left over completes a step with the next frame's half step
+    const second = advanceEngine(first.state, RIGHT, 0.5 * FIXED_TIMESTEP + EPSILON, world);
+    expect(second.state.time).toBeCloseTo(3 * FIXED_TIMESTEP, 10);
+    expect(second.state.accumulator).toBeCloseTo(0, 6);
+  });
+
+  it("plays the same however the time is split into frames", () => {
+    const world = createStubWorld();
+    const oneFrame = advanceEngine(createEngineState(), RIGHT, 6 * FIXED_TIMESTEP + EPSILON, world);
+
+    let state = createEngineState();
+    for (let i = 0; i < 4; i++) {
+      state = advanceEngine(state, RIGHT, 1.5 * FIXED_TIMESTEP + EPSILON / 4, world).state;
+    }
+
+    expect(state.player.x).toBeCloseTo(oneFrame.state.player.x, 10);
+    expect(state.time).toBeCloseTo(oneFrame.state.time, 10);
+  });
+
+  it("clamps long frames to MAX_FRAME_TIME", () => {
+    const world = createStubWorld();
+    const clamped = advanceEngine(createEngineState(), RIGHT, 5, world);
+    const longest = advanceEngine(createEngineState(), RIGHT, MAX_FRAME_TIME, world);
+
+    expect(clamped.state).toEqual(longest.state);
+    expect(clamped.state.time + clamped.state.accumulator).toBeCloseTo(MAX_FRAME_TIME, 10);
+  });
+
+  it("ignores negative frame times", () => {
+    const state = createEngineState();
+    const result = advanceEngine(state, RIGHT, -1, createStubWorld());
+
+    expect(result.state).toEqual(state);
+    expect(result.events).toEqual([]);
+  });
+});
+
+describe("step", () => {
+  it("never changes the state passed in", () => {
+    const state = createEngineState();
+    const copy = structuredClone(state);
+    step(state, JUMP, FIXED_TIMESTEP, createStubWorld());
+
+    expect(state).toEqual(copy);
+  });
+
+  it("keeps a player standing on the ground where they are", () => {
+    const { state } = runSteps(createEngineState(), IDLE, 30, createStubWorld());
+
+    expect(state.player.y).toBe(GROUND_LEVEL);
+    expect(state.player.isGrounded).toBe(true);
+    expect(state.player.velocityY).toBe(0);
+  });
+
+  it("lands back on the ground after a jump", () => {
+    const world = createStubWorld();
+    const jumped = step(createEngineState(), JUMP, FIXED_TIMESTEP, world).state;
+    expect(jumped.player.isGrounded).toBe(false);
+    expect(jumped.player.y).toBeLessThan(GROUND_LEVEL);
+
+    const { state } = runSteps(jumped, IDLE, 60, world);
+    expect(state.player.y).toBe(GROUND_LEVEL);
+    expect(state.player.isGrounded).toBe(true);
+    expect(state.player.velocityY).toBe(0);
+  });
+
+  it("lands on a platform when falling onto it", () => {
+    const world = createStubWorld({ platforms: [{ x1: 0, x2: 50, y: 70 }] });
+    const falling: EngineState = {
+      ...createEngineState(),
+      player: { x: 20, y: 40, velocityX: 0, velocityY: 0, isGrounded: false },
+    };
+
+    const { state } = runSteps(falling, IDLE, 60, world);
+    expect(state.player.y).toBe(70);
+    expect(state.player.isGrounded).toBe(true);
+  });
+
+  it("jumps up through a platform and lands on top of it", () => {
+    // Low enough to reach with a jump from the ground
+    const world = createStubWorld({ platforms: [{ x1: 0, x2: 50, y: GROUND_LEVEL - 5 }] });
+    const jumped = step(createEngineState(), JUMP, FIXED_TIMESTEP, world).state;
+
+    const { state } = runSteps(jumped, IDLE, 60, world);
+    expect(state.player.y).toBe(GROUND_LEVEL - 5);
+    expect(state.player.isGrounded).toBe(true);
+  });
+
+  it("falls when walking off a platform over a gap", () => {
+    const world = createStubWorld({
+      platforms: [{ x1: 0, x2: 20, y: 80 }],
+      gaps: [{ x1: 20, x2: 60 }],
+    });
+    const onPlatform = standingAt(18, 80);
+
+    const { state } = runSteps(onPlatform, RIGHT, 5, world);
+    expect(state.player.x).toBeGreaterThan(20);
+    expect(state.player.isGrounded).toBe(false);
+    expect(state.player.velocityY).toBeGreaterThan(0);
+    expect(state.player.y).toBeGreaterThan(80);
+
+    // With no ground under the gap, the fall carries on past ground level
+    const later = runSteps(state, RIGHT, 10, world).state;
+    expect(later.player.y).toBeGreaterThan(GROUND_LEVEL);
+    expect(later.player.isGrounded).toBe(false);
+  });
+
+  it.each<DeathCause>([
+    { type: "enemy", name: "the goblin" },
+    { type: "spikes", name: "the spike trap" },
+  ])("dies on touching $type and stays frozen", (cause) => {
+    const world = createStubWorld({ dangers: [{ x1: 30, x2: 35, cause }] });
+
+    let state = createEngineState();
+    let events: EngineEvent[] = [];
+    while (!state.isDead && state.time < 5) {
+      const before = state;
+      ({ state, events } = step(state, RIGHT, FIXED_TIMESTEP, world));
+      if (state.isDead) {
+        // The player stays where they were before the fatal step
+        expect(state.player).toEqual(before.player);
+      }
+    }
+
+    expect(state.isDead).toBe(true);
+    expect(events).toEqual([{ type: "death", cause }]);
+
+    const after = runSteps(state, RIGHT, 30, world);
+    expect(after.state).toBe(state);
+    expect(after.events).toEqual([]);
+    expect(advanceEngine(state, JUMP, MAX_FRAME_TIME, world).state.player).toEqual(state.player);
+  });
+
+  it("dies from falling into a pit", () => {
+    const pit: DeathCause = { type: "pit", name: "the chasm" };
+    const world = createStubWorld({
+      gaps: [{ x1: 20, x2: 60 }],
+      dangers: [{ x1: 20, x2: 60, below: GROUND_LEVEL, cause: pit }],
+    });
+
+    const { state, events } = runSteps(createEngineState(), RIGHT, 60, world);
+    expect(state.isDead).toBe(true);
+    expect(events).toEqual([{ type: "death", cause: pit }]);
+  });
+
+  it("fires the exit event once when the player enters the exit", () => {
+    const world = createStubWorld({ exitX: 20 });
+
+    const { state, events } = runSteps(createEngineState(), RIGHT, 30, world);
+    expect(state.player.x).toBeGreaterThan(20);
+    expect(events).toEqual([{ type: "exit" }]);
+
+    // Standing in the exit doesn't fire it again
+    expect(runSteps(state, IDLE, 30, world).events).toEqual([]);
+  });
+});
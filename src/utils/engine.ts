@@ -0,0 +1,193 @@
+import {
+  GROUND_LEVEL,
+  MAX_X,
+  findDeathCause,
+  findLanding,
+  isAtExit,
+  type DeathCause,
+  type LevelLayout,
+} from "./level";
+
+// Platformer engine: a deterministic simulation of the sprite that advances in fixed steps, so the
+// game plays the same on every display whatever its refresh rate. It knows nothing about React;
+// the game page feeds it the keys held and the time between frames, and renders the state it returns.
+
+// Physics, in % of the play area per second (per second squared for gravity)
+export const GRAVITY = 1800;
+export const JUMP_FORCE = -180;
+export const MOVEMENT_SPEED = 120;
+
+// Physics always advances in steps of this many seconds
+export const FIXED_TIMESTEP = 1 / 60;
+// Longest stretch of time one frame may simulate, so a tab coming back from the background doesn't
+// fast-forward through the level
+export const MAX_FRAME_TIME = 0.25;
+
+// Where the sprite starts every level
+const START_X = 10;
+
+export interface PlayerState {
+  x: number;
+  y: number;
+  velocityX: number;
+  velocityY: number;
+  isGrounded: boolean;
+}
+
+export interface EngineState {
+  player: PlayerState;
+  // Seconds simulated since the level started, which is where the enemies are
+  time: number;
+  // Frame time not simulated yet, carried over to the next frame
+  accumulator: number;
+  // A dead player stays where they died until the engine is reset
+  isDead: boolean;
+}
+
+export interface EngineInput {
+  left: boolean;
+  right: boolean;
+  jump: boolean;
+}
+
+export type EngineEvent =
+  | { type: "exit" } // The player reached the exit
+  | { type: "death"; cause: DeathCause };
+
+// Collision hooks the engine asks about the world the player is in
+export interface EngineWorld {
+  // Top of the surface the player lands on moving from fromY down to toY at x, or null to keep falling
+  findLanding: (x: number, fromY: number, toY: number) => number | null;
+  // What kills the player at this position, time seconds into the level, if anything
+  findDeathCause: (x: number, y: number, time: number) => DeathCause | null;
+  isAtExit: (x: number, y: number) => boolean;
+}
+
+// Collision hooks for a scene's platforming layout
+export function createLevelWorld(level: LevelLayout): EngineWorld {
+  return {
+    findLanding: (x, fromY, toY) => findLanding(level, x, fromY, toY),
+    findDeathCause: (x, y, time) => findDeathCause(level, x, y, time),
+    isAtExit: (x, y) => isAtExit(level, x, y),
+  };
+}
+
+// The player standing at the start of a level
+export function createEngineState(): EngineState {
+  return {
+    player: { x: START_X, y: GROUND_LEVEL, velocityX: 0, velocityY: 0, isGrounded: true },
+    time: 0,
+    accumulator: 0,
+    isDead: false,
+  };
+}
+
+/**
+ * Simulate dt seconds of play. The same state, input and dt always give the same result, and the
+ * state passed in is never changed.
+ */
+export function step(
+  state: EngineState,
+  input: EngineInput,
+  dt: number,
+  world: EngineWorld
+): { state: EngineState; events: EngineEvent[] } {
+  if (state.isDead || dt <= 0) return { state, events: [] };
+
+  const previous = state.player;
+  let x = previous.x;
+  let y = previous.y;
+  let velocityY = previous.velocityY;
+  let isGrounded = previous.isGrounded;
+
+  // Horizontal movement from the keys held
+  if (input.left) x = Math.max(0, x - MOVEMENT_SPEED * dt);
+  if (input.right) x = Math.min(MAX_X, x + MOVEMENT_SPEED * dt);
+
+  if (input.jump && isGrounded) {
+    velocityY = JUMP_FORCE;
+    isGrounded = false;
+  }
+
+  // Walking off a platform or over a pit starts a fall
+  if (isGrounded && world.findLanding(x, y, y) === null) {
+    isGrounded = false;
+  }
+
+  if (!isGrounded) {
+    velocityY += GRAVITY * dt;
+  }
+  const previousY = y;
+  y += velocityY * dt;
+
+  // Land on the ground or a platform (platforms can be jumped through from below)
+  const landing = velocityY > 0 ? world.findLanding(x, previousY, y) : null;
+  if (landing !== null) {
+    y = landing;
+    velocityY = 0;
+    isGrounded = true;
+  }
+
+  const time = state.time + dt;
+  const events: EngineEvent[] = [];
+  if (world.isAtExit(x, y) && !world.isAtExit(previous.x, previous.y)) {
+    events.push({ type: "exit" });
+  }
+
+  const cause = world.findDeathCause(x, y, time);
+  if (cause) {
+    events.push({ type: "death", cause });
+    return { state: { ...state, time, isDead: true }, events };
+  }
+
+  return {
+    state: {
+      ...state,
+      player: { x, y, velocityX: (x - previous.x) / dt, velocityY, isGrounded },
+      time,
+    },
+    events,
+  };
+}
+
+/**
+ * Advance the simulation by the real time since the last frame, in as many fixed steps as fit.
+ * Whatever is left over is carried to the next frame in the state's accumulator.
+ */
+export function advanceEngine(
+  state: EngineState,
+  input: EngineInput,
+  elapsed: number,
+  world: EngineWorld
+): { state: EngineState; events: EngineEvent[] } {
+  let accumulator = state.accumulator + Math.min(Math.max(0, elapsed), MAX_FRAME_TIME);
+  let current = state;
+  const events: EngineEvent[] = [];
+
+  while (accumulator >= FIXED_TIMESTEP) {
+    const result = step(current, input, FIXED_TIMESTEP, world);
+    current = result.state;
+    events.push(...result.events);
+    accumulator -= FIXED_TIMESTEP;
+  }
+
+  return { state: { ...current, accumulator }, events };
+}
+
+/**
+ * Call onFrame with the seconds since the previous frame on every animation frame, until the
+ * returned function is called. The first frame reports 0.
+ */
+export function runGameLoop(onFrame: (elapsed: number) => void): () => void {
+  let previousTimestamp: number | null = null;
+  let frameId = requestAnimationFrame(function frame(timestamp) {
+    const elapsed = previousTimestamp === null ? 0 : (timestamp - previousTimestamp) / 1000;
+    previousTimestamp = timestamp;
+    onFrame(elapsed);
+    frameId = requestAnimationFrame(frame);
+  });
+
+  return () => {
+    cancelAnimationFrame(frameId);
+  };
+}
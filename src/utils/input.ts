@@ -0,0 +1,189 @@
+// Input layer for the game page: the keyboard, gamepads and the on-screen touch buttons all map to
+// the same actions. Movement actions are held, and read by the game loop every frame; the others
+// (choices, pause) fire once per press.
+
+export const HELD_ACTIONS = ["left", "right", "jump"] as const;
+export const PRESS_ACTIONS = ["choose1", "choose2", "choose3", "choose4", "pause"] as const;
+
+export type HeldAction = (typeof HELD_ACTIONS)[number];
+export type PressAction = (typeof PRESS_ACTIONS)[number];
+export type InputAction = HeldAction | PressAction;
+
+export type HeldInput = Record<HeldAction, boolean>;
+
+export const INPUT_ACTIONS: readonly InputAction[] = [...HELD_ACTIONS, ...PRESS_ACTIONS];
+
+// Keys (KeyboardEvent.key, lowercased) bound to each action. Players can change them in their
+// settings (see ~/utils/settings); a key only ever triggers one action.
+export type KeyBindings = Record<InputAction, string[]>;
+
+export const MAX_KEYS_PER_ACTION = 4;
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  left: ["a", "arrowleft"],
+  right: ["d", "arrowright"],
+  jump: ["w", "arrowup", " "],
+  choose1: ["1"],
+  choose2: ["2"],
+  choose3: ["3"],
+  choose4: ["4"],
+  pause: ["p", "escape"],
+};
+
+// Names shown for keys whose KeyboardEvent.key isn't readable on its own
+const KEY_NAMES: Record<string, string> = {
+  " ": "Space",
+  arrowup: "↑",
+  arrowdown: "↓",
+  arrowleft: "←",
+  arrowright: "→",
+  escape: "Esc",
+};
+
+export const describeKey = (key: string): string =>
+  KEY_NAMES[key] ?? (key.length === 1 ? key.toUpperCase() : key.charAt(0).toUpperCase() + key.slice(1));
+
+// Buttons of the standard gamepad layout (https://w3c.github.io/gamepad/#remapping)
+const GAMEPAD_BUTTON_BINDINGS: Record<number, InputAction> = {
+  0: "jump", // A / Cross
+  12: "jump", // D-pad up
+  14: "left", // D-pad left
+  15: "right", // D-pad right
+  2: "choose1", // X / Square
+  3: "choose2", // Y / Triangle
+  1: "choose3", // B / Circle
+  5: "choose4", // Right bumper
+  9: "pause", // Start
+};
+
+// How far the left stick has to be pushed to move
+const STICK_DEADZONE = 0.5;
+
+export const isHeldAction = (action: InputAction): action is HeldAction =>
+  (HELD_ACTIONS as readonly string[]).includes(action);
+
+// Action for a choice, e.g. "choose2" for choice 2 (only the first four have one)
+export function choiceAction(choiceId: number): PressAction | null {
+  return PRESS_ACTIONS.find((action) => action === `choose${choiceId}`) ?? null;
+}
+
+// Choice a press action picks, e.g. 2 for "choose2"
+export function actionChoice(action: PressAction): number | null {
+  return action.startsWith("choose") ? Number(action.slice("choose".length)) : null;
+}
+
+export function keyToAction(key: string, keyBindings: KeyBindings = DEFAULT_KEY_BINDINGS): InputAction | null {
+  const pressed = key.toLowerCase();
+  return INPUT_ACTIONS.find((action) => keyBindings[action].includes(pressed)) ?? null;
+}
+
+// Bind a key to an action, taking it away from whichever action had it before. An action with too
+// many keys loses its oldest one.
+export function bindKey(keyBindings: KeyBindings, action: InputAction, key: string): KeyBindings {
+  const pressed = key.toLowerCase();
+  const result = { ...keyBindings };
+  for (const other of INPUT_ACTIONS) {
+    result[other] = keyBindings[other].filter((bound) => bound !== pressed);
+  }
+  result[action] = [...result[action], pressed].slice(-MAX_KEYS_PER_ACTION);
+  return result;
+}
+
+// Actions held on any of the connected gamepads
+export function readGamepads(gamepads: ReadonlyArray<Gamepad | null>): Set<InputAction> {
+  const actions = new Set<InputAction>();
+  for (const gamepad of gamepads) {
+    if (!gamepad?.connected) continue;
+
+    gamepad.buttons.forEach((button, index) => {
+      const action = GAMEPAD_BUTTON_BINDINGS[index];
+      if (action && button.pressed) actions.add(action);
+    });
+
+    const stickX = gamepad.axes[0] ?? 0;
+    if (stickX <= -STICK_DEADZONE) actions.add("left");
+    if (stickX >= STICK_DEADZONE) actions.add("right");
+  }
+  return actions;
+}
+
+// Helper function to tell typing in a form field (e.g. the stop box) apart from playing
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+export interface InputController {
+  // Movement actions held right now, on any device
+  getHeld: () => HeldInput;
+  // Called by the on-screen buttons when they are pressed and released
+  setTouch: (action: InputAction, down: boolean) => void;
+  dispose: () => void;
+}
+
+/**
+ * Start listening to the keyboard (with the player's key bindings) and polling gamepads. onPress is
+ * called once for every press of a choice or pause action, from any device (including the touch
+ * buttons reported with setTouch).
+ */
+export function createInputController(
+  onPress: (action: PressAction) => void,
+  keyBindings: KeyBindings = DEFAULT_KEY_BINDINGS
+): InputController {
+  // What each device holds down; an action is held while any device holds it
+  const keyboard = new Set<InputAction>();
+  const touch = new Set<InputAction>();
+  let gamepad = new Set<InputAction>();
+
+  // Helper function to record an action going down on one device, firing it if it's a new press
+  const hold = (device: Set<InputAction>, action: InputAction) => {
+    if (!device.has(action) && !isHeldAction(action)) onPress(action);
+    device.add(action);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    const action = keyToAction(event.key, keyBindings);
+    if (!action || isTyping(event.target)) return;
+    event.preventDefault();
+    hold(keyboard, action);
+  };
+
+  const handleKeyUp = (event: KeyboardEvent) => {
+    const action = keyToAction(event.key, keyBindings);
+    if (action) keyboard.delete(action);
+  };
+
+  // Keys released while the window isn't focused never send keyup
+  const handleBlur = () => {
+    keyboard.clear();
+  };
+
+  // Gamepad buttons don't send events, so gamepads are polled every frame
+  let frameId = requestAnimationFrame(function poll() {
+    const held = readGamepads(navigator.getGamepads?.() ?? []);
+    for (const action of held) {
+      if (!gamepad.has(action) && !isHeldAction(action)) onPress(action);
+    }
+    gamepad = held;
+    frameId = requestAnimationFrame(poll);
+  });
+
+  window.addEventListener("keydown", handleKeyDown);
+  window.addEventListener("keyup", handleKeyUp);
+  window.addEventListener("blur", handleBlur);
+
+  return {
+    getHeld: () => {
+      const isHeld = (action: HeldAction) => keyboard.has(action) || touch.has(action) || gamepad.has(action);
+      return { left: isHeld("left"), right: isHeld("right"), jump: isHeld("jump") };
+    },
+    setTouch: (action, down) => {
+      if (down) hold(touch, action);
+      else touch.delete(action);
+    },
+    dispose: () => {
+      cancelAnimationFrame(frameId);
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", handleBlur);
+    },
+  };
+}
@@ -0,0 +1,440 @@
+import { DIFFICULTY_SETTINGS, type Difficulty } from "./difficulty";
+import type { DeathType } from "./level";
+import type { AchievementId } from "./achievements";
+
+// Languages adventures can be played in, shared by the game router (prompts, fallback scenes,
+// game-over detection, reports) and the game page (language picker, UI copy)
+
+export const LANGUAGES = ["en", "es", "fr"] as const;
+
+export type Language = (typeof LANGUAGES)[number];
+
+export const DEFAULT_LANGUAGE: Language = "en";
+
+// Copy for the end-of-game report
+export interface ReportText {
+  title: string;
+  finalScore: string;
+  difficulty: string;
+  // e.g. "2x score"
+  scoreMultiplier: (multiplier: number) => string;
+  playedAs: (spriteDescription: string, theme: string) => string;
+  endedBecause: string;
+  goodScore: string;
+  badScore: string;
+  journey: string;
+  decisiveChoice: string;
+  stats: string;
+  scenesSeen: string;
+  choicesMade: string;
+  livesLost: string;
+  timePlayed: string;
+  tips: string;
+  // Random tips for the static report
+  randomTips: string[];
+}
+
+// Copy for the game page and the server's fallback scenes
+export interface GameText {
+  // Filler choices added when a scene has fewer choices than the difficulty offers
+  defaultChoices: string[];
+  option: (id: number) => string;
+  difficulties: Record<Difficulty, { label: string; description: string }>;
+
+  // Fallback scenes and game-over reasons
+  gameOverChoice: string;
+  blunderStory: string;
+  errorStory: string;
+  blunderEnding: string;
+  openingEnding: string;
+  adventureEnded: string;
+  adventureOver: string;
+  errorEnding: string;
+  // Platformer deaths, given what the narrator called the pit, hazard or enemy (if anything)
+  deathCauses: Record<DeathType, (name: string | undefined) => string>;
+  stoppedAdventure: string;
+  // Word typed into the stop box to end the game (English "stop" always works too)
+  stopCommand: string;
+
+  // Theme screen
+  chooseTheme: string;
+  enterTheme: string;
+  themePlaceholder: string;
+  chooseDifficulty: string;
+  chooseLanguage: string;
+  startAdventure: string;
+  starting: string;
+  returnToSlotSelection: string;
+
+  // Playing screen
+  score: string;
+  lives: string;
+  lostLife: (livesLeft: number) => string;
+  chooseNextAction: string;
+  paintingScene: string;
+  loadingScene: string;
+  moveControls: string;
+  pauseControls: string;
+  choiceControls: (count: number) => string;
+  goalControls: string;
+  newGame: string;
+  returnToSlots: string;
+  saveGame: string;
+  stopPlaceholder: string;
+  paused: string;
+  resume: string;
+  // Names of the on-screen buttons, for screen readers
+  touchLabels: { left: string; right: string; jump: string; pause: string };
+
+  // Game over screen
+  gameOver: string;
+  gameReport: string;
+  reportFailed: string;
+  playAgain: string;
+  viewProfile: string;
+  watchReplay: string;
+  achievementUnlocked: string;
+  achievements: Record<AchievementId, { title: string; description: string }>;
+
+  report: ReportText;
+}
+
+export interface LanguageSettings {
+  // Name of the language in itself, for the language picker
+  label: string;
+  // Name of the language in English, used in prompts
+  promptName: string;
+  // Lowercase phrases that mark a choice as a game over, besides the English "game over"
+  gameOverPhrases: string[];
+  text: GameText;
+}
+
+const ENGLISH_TEXT: GameText = {
+  defaultChoices: ["Continue forward", "Explore the area", "Turn back", "Wait and watch"],
+  option: (id) => `Option ${id}`,
+  difficulties: DIFFICULTY_SETTINGS,
+
+  gameOverChoice: "Game Over",
+  blunderStory: "Game Over! You made a fatal mistake.",
+  errorStory: "Game Over! An error occurred.",
+  blunderEnding: "You made a wrong choice and your adventure ended!",
+  openingEnding: "Your adventure ended before it could begin!",
+  adventureEnded: "Your adventure has ended.",
+  adventureOver: "Your adventure has come to an end!",
+  errorEnding: "An error occurred. Please try again later.",
+  deathCauses: {
+    pit: (name) => `You fell into ${name ?? "a pit"}!`,
+    spikes: (name) => `You were impaled on ${name ?? "spikes"}!`,
+    fire: (name) => `You were burned by ${name ?? "fire"}!`,
+    water: (name) => `You were swept away by ${name ?? "the water"}!`,
+    enemy: (name) => `You were caught by ${name ?? "an enemy"}!`,
+  },
+  stoppedAdventure: "You decided to stop the adventure.",
+  stopCommand: "stop",
+
+  chooseTheme: "Choose Your Adventure Theme",
+  enterTheme: "Enter a theme:",
+  themePlaceholder: "e.g., Fantasy, Sci-Fi, Mystery",
+  chooseDifficulty: "Choose a difficulty:",
+  chooseLanguage: "Language:",
+  startAdventure: "Start Adventure",
+  starting: "Starting...",
+  returnToSlotSelection: "Return to Slot Selection",
+
+  score: "Score",
+  lives: "Lives",
+  lostLife: (livesLeft) => `You lost a life! ${livesLeft} ${livesLeft === 1 ? "life" : "lives"} left.`,
+  chooseNextAction: "Choose your next action:",
+  paintingScene: "Painting the scene...",
+  loadingScene: "Loading next scene...",
+  moveControls: "Use W or ↑ (jump), A or ← (left), D or → (right), a gamepad or the on-screen buttons to move",
+  pauseControls: "Press P, Esc or Start to pause",
+  choiceControls: (count) => `Press 1-${count} to select choices when they appear`,
+  goalControls: "Jump over pits, hazards and enemies and reach the glowing exit to receive your new prompt",
+  newGame: "New Game",
+  returnToSlots: "Return to Slots",
+  saveGame: "Save Game",
+  stopPlaceholder: "Type 'stop' to end game",
+  paused: "Paused",
+  resume: "Resume",
+  touchLabels: { left: "Move left", right: "Move right", jump: "Jump", pause: "Pause" },
+
+  gameOver: "GAME OVER",
+  gameReport: "Game Report",
+  reportFailed: "Failed to generate game report.",
+  playAgain: "Play Again",
+  viewProfile: "View Profile",
+  watchReplay: "Watch Replay",
+  achievementUnlocked: "Achievement unlocked",
+  achievements: {
+    survivor: { title: "Survivor", description: "Survive 10 scenes in one adventure." },
+    legend: { title: "Legend", description: "Survive 25 scenes in one adventure." },
+    "iron-will": { title: "Iron Will", description: "Survive 5 scenes on Hardcore." },
+    untouchable: { title: "Untouchable", description: "Survive 5 scenes without losing a life." },
+    "short-lived": { title: "Short-Lived", description: "Die in the very first scene." },
+    hero: { title: "Hero", description: "Reach a victory ending." },
+    globetrotter: { title: "Globetrotter", description: "Finish adventures in three different themes." },
+    veteran: { title: "Veteran", description: "Finish 10 adventures." },
+  },
+
+  report: {
+    title: "GAME OVER",
+    finalScore: "Final Score",
+    difficulty: "Difficulty",
+    scoreMultiplier: (multiplier) => `${multiplier}x score`,
+    playedAs: (spriteDescription, theme) => `You played as "${spriteDescription}" in the world of "${theme}".`,
+    endedBecause: "Your adventure came to an end because",
+    goodScore: "Impressive score! You were doing really well.",
+    badScore: "Better luck next time!",
+    journey: "Your journey",
+    decisiveChoice: "The decisive choice",
+    stats: "Stats",
+    scenesSeen: "Scenes seen",
+    choicesMade: "Choices made",
+    livesLost: "Lives lost",
+    timePlayed: "Time played",
+    tips: "Tips",
+    randomTips: [
+      "Tip: Try to avoid falling off the screen!",
+      "Tip: The more choices you make, the higher your score.",
+      "Tip: Sometimes the safest path is the best path.",
+      "Tip: Pay attention to your surroundings.",
+      "Tip: Different choices lead to different adventures.",
+    ],
+  },
+};
+
+const SPANISH_TEXT: GameText = {
+  defaultChoices: ["Seguir adelante", "Explorar la zona", "Dar la vuelta", "Esperar y observar"],
+  option: (id) => `Opción ${id}`,
+  difficulties: {
+    story: { label: "Modo historia", description: "Disfruta del relato. El peligro rara vez es mortal." },
+    normal: { label: "Normal", description: "Las decisiones descuidadas pueden costarte la vida." },
+    hardcore: { label: "Extremo", description: "Menos opciones, y un solo error es el final." },
+  },
+
+  gameOverChoice: "Fin del juego",
+  blunderStory: "¡Fin del juego! Cometiste un error fatal.",
+  errorStory: "¡Fin del juego! Ocurrió un error.",
+  blunderEnding: "¡Tomaste una mala decisión y tu aventura terminó!",
+  openingEnding: "¡Tu aventura terminó antes de empezar!",
+  adventureEnded: "Tu aventura ha terminado.",
+  adventureOver: "¡Tu aventura ha llegado a su fin!",
+  errorEnding: "Ocurrió un error. Inténtalo de nuevo más tarde.",
+  deathCauses: {
+    pit: (name) => `¡Caíste en ${name ?? "un foso"}!`,
+    spikes: (name) => `¡Te empalaste en ${name ?? "unos pinchos"}!`,
+    fire: (name) => `¡Te quemaste con ${name ?? "el fuego"}!`,
+    water: (name) => `¡Te arrastró ${name ?? "el agua"}!`,
+    enemy: (name) => `¡Te atrapó ${name ?? "un enemigo"}!`,
+  },
+  stoppedAdventure: "Decidiste detener la aventura.",
+  stopCommand: "parar",
+
+  chooseTheme: "Elige el tema de tu aventura",
+  enterTheme: "Escribe un tema:",
+  themePlaceholder: "p. ej., Fantasía, Ciencia ficción, Misterio",
+  chooseDifficulty: "Elige una dificultad:",
+  chooseLanguage: "Idioma:",
+  startAdventure: "Comenzar la aventura",
+  starting: "Comenzando...",
+  returnToSlotSelection: "Volver a las ranuras de guardado",
+
+  score: "Puntuación",
+  lives: "Vidas",
+  lostLife: (livesLeft) => `¡Perdiste una vida! ${livesLeft === 1 ? "Te queda 1" : `Te quedan ${livesLeft}`}.`,
+  chooseNextAction: "Elige tu siguiente acción:",
+  paintingScene: "Pintando la escena...",
+  loadingScene: "Cargando la siguiente escena...",
+  moveControls: "Usa W o ↑ (saltar), A o ← (izquierda), D o → (derecha), un mando o los botones en pantalla para moverte",
+  pauseControls: "Pulsa P, Esc o Start para pausar",
+  choiceControls: (count) => `Pulsa 1-${count} para elegir cuando aparezcan las opciones`,
+  goalControls: "Salta los fosos, las trampas y los enemigos y llega a la salida brillante para recibir tu siguiente escena",
+  newGame: "Nueva partida",
+  returnToSlots: "Volver a las ranuras",
+  saveGame: "Guardar partida",
+  stopPlaceholder: "Escribe 'parar' para terminar la partida",
+  paused: "En pausa",
+  resume: "Continuar",
+  touchLabels: { left: "Mover a la izquierda", right: "Mover a la derecha", jump: "Saltar", pause: "Pausa" },
+
+  gameOver: "FIN DEL JUEGO",
+  gameReport: "Informe de la partida",
+  reportFailed: "No se pudo generar el informe de la partida.",
+  playAgain: "Jugar de nuevo",
+  viewProfile: "Ver perfil",
+  watchReplay: "Ver repetición",
+  achievementUnlocked: "Logro desbloqueado",
+  achievements: {
+    survivor: { title: "Superviviente", description: "Sobrevive 10 escenas en una aventura." },
+    legend: { title: "Leyenda", description: "Sobrevive 25 escenas en una aventura." },
+    "iron-will": { title: "Voluntad de hierro", description: "Sobrevive 5 escenas en Extremo." },
+    untouchable: { title: "Intocable", description: "Sobrevive 5 escenas sin perder una vida." },
+    "short-lived": { title: "Efímero", description: "Muere en la primera escena." },
+    hero: { title: "Héroe", description: "Alcanza un final victorioso." },
+    globetrotter: { title: "Trotamundos", description: "Termina aventuras con tres temas distintos." },
+    veteran: { title: "Veterano", description: "Termina 10 aventuras." },
+  },
+
+  report: {
+    title: "FIN DEL JUEGO",
+    finalScore: "Puntuación final",
+    difficulty: "Dificultad",
+    scoreMultiplier: (multiplier) => `puntuación x${multiplier}`,
+    playedAs: (spriteDescription, theme) => `Jugaste como "${spriteDescription}" en el mundo de "${theme}".`,
+    endedBecause: "Tu aventura terminó porque",
+    goodScore: "¡Puntuación impresionante! Lo estabas haciendo muy bien.",
+    badScore: "¡Más suerte la próxima vez!",
+    journey: "Tu viaje",
+    decisiveChoice: "La decisión clave",
+    stats: "Estadísticas",
+    scenesSeen: "Escenas vistas",
+    choicesMade: "Decisiones tomadas",
+    livesLost: "Vidas perdidas",
+    timePlayed: "Tiempo de juego",
+    tips: "Consejos",
+    randomTips: [
+      "Consejo: ¡Intenta no caerte de la pantalla!",
+      "Consejo: Cuantas más decisiones tomes, mayor será tu puntuación.",
+      "Consejo: A veces el camino más seguro es el mejor.",
+      "Consejo: Presta atención a lo que te rodea.",
+      "Consejo: Decisiones distintas llevan a aventuras distintas.",
+    ],
+  },
+};
+
+const FRENCH_TEXT: GameText = {
+  defaultChoices: ["Continuer tout droit", "Explorer les environs", "Faire demi-tour", "Attendre et observer"],
+  option: (id) => `Option ${id}`,
+  difficulties: {
+    story: { label: "Mode histoire", description: "Profitez du récit. Le danger est rarement mortel." },
+    normal: { label: "Normal", description: "Les choix imprudents peuvent vous coûter la vie." },
+    hardcore: { label: "Extrême", description: "Moins d'options, et une seule erreur met fin à tout." },
+  },
+
+  gameOverChoice: "Partie terminée",
+  blunderStory: "Partie terminée ! Vous avez commis une erreur fatale.",
+  errorStory: "Partie terminée ! Une erreur est survenue.",
+  blunderEnding: "Vous avez fait un mauvais choix et votre aventure s'est terminée !",
+  openingEnding: "Votre aventure s'est terminée avant même de commencer !",
+  adventureEnded: "Votre aventure est terminée.",
+  adventureOver: "Votre aventure touche à sa fin !",
+  errorEnding: "Une erreur est survenue. Veuillez réessayer plus tard.",
+  deathCauses: {
+    pit: (name) => `Vous êtes tombé dans ${name ?? "une fosse"} !`,
+    spikes: (name) => `Vous vous êtes empalé sur ${name ?? "des pics"} !`,
+    fire: (name) => `Vous avez été brûlé par ${name ?? "le feu"} !`,
+    water: (name) => `Vous avez été emporté par ${name ?? "l'eau"} !`,
+    enemy: (name) => `Vous avez été attrapé par ${name ?? "un ennemi"} !`,
+  },
+  stoppedAdventure: "Vous avez décidé d'arrêter l'aventure.",
+  stopCommand: "arrêter",
+
+  chooseTheme: "Choisissez le thème de votre aventure",
+  enterTheme: "Saisissez un thème :",
+  themePlaceholder: "ex. : Fantasy, Science-fiction, Mystère",
+  chooseDifficulty: "Choisissez une difficulté :",
+  chooseLanguage: "Langue :",
+  startAdventure: "Commencer l'aventure",
+  starting: "Démarrage...",
+  returnToSlotSelection: "Retour aux emplacements de sauvegarde",
+
+  score: "Score",
+  lives: "Vies",
+  lostLife: (livesLeft) => `Vous avez perdu une vie ! Il vous en reste ${livesLeft}.`,
+  chooseNextAction: "Choisissez votre prochaine action :",
+  paintingScene: "La scène se dessine...",
+  loadingScene: "Chargement de la scène suivante...",
+  moveControls: "Utilisez W ou ↑ (sauter), A ou ← (gauche), D ou → (droite), une manette ou les boutons à l'écran pour vous déplacer",
+  pauseControls: "Appuyez sur P, Échap ou Start pour mettre en pause",
+  choiceControls: (count) => `Appuyez sur 1-${count} pour choisir quand les options apparaissent`,
+  goalControls: "Sautez par-dessus les fosses, les pièges et les ennemis et atteignez la sortie lumineuse pour découvrir la suite",
+  newGame: "Nouvelle partie",
+  returnToSlots: "Retour aux emplacements",
+  saveGame: "Sauvegarder",
+  stopPlaceholder: "Tapez 'arrêter' pour finir la partie",
+  paused: "Pause",
+  resume: "Reprendre",
+  touchLabels: { left: "Aller à gauche", right: "Aller à droite", jump: "Sauter", pause: "Pause" },
+
+  gameOver: "PARTIE TERMINÉE",
+  gameReport: "Bilan de la partie",
+  reportFailed: "Impossible de générer le bilan de la partie.",
+  playAgain: "Rejouer",
+  viewProfile: "Voir le profil",
+  watchReplay: "Revoir la partie",
+  achievementUnlocked: "Succès débloqué",
+  achievements: {
+    survivor: { title: "Survivant", description: "Survivez à 10 scènes dans une aventure." },
+    legend: { title: "Légende", description: "Survivez à 25 scènes dans une aventure." },
+    "iron-will": { title: "Volonté de fer", description: "Survivez à 5 scènes en mode Extrême." },
+    untouchable: { title: "Intouchable", description: "Survivez à 5 scènes sans perdre de vie." },
+    "short-lived": { title: "Éphémère", description: "Mourez dès la première scène." },
+    hero: { title: "Héros", description: "Atteignez une fin victorieuse." },
+    globetrotter: { title: "Globe-trotteur", description: "Terminez des aventures sur trois thèmes différents." },
+    veteran: { title: "Vétéran", description: "Terminez 10 aventures." },
+  },
+
+  report: {
+    title: "PARTIE TERMINÉE",
+    finalScore: "Score final",
+    difficulty: "Difficulté",
+    scoreMultiplier: (multiplier) => `score x${multiplier}`,
+    playedAs: (spriteDescription, theme) => `Vous avez joué « ${spriteDescription} » dans l'univers « ${theme} ».`,
+    endedBecause: "Votre aventure s'est terminée parce que",
+    goodScore: "Score impressionnant ! Vous vous débrouilliez très bien.",
+    badScore: "Plus de chance la prochaine fois !",
+    journey: "Votre parcours",
+    decisiveChoice: "Le choix décisif",
+    stats: "Statistiques",
+    scenesSeen: "Scènes vues",
+    choicesMade: "Choix effectués",
+    livesLost: "Vies perdues",
+    timePlayed: "Temps de jeu",
+    tips: "Conseils",
+    randomTips: [
+      "Conseil : Évitez de tomber de l'écran !",
+      "Conseil : Plus vous faites de choix, plus votre score augmente.",
+      "Conseil : Le chemin le plus sûr est parfois le meilleur.",
+      "Conseil : Soyez attentif à ce qui vous entoure.",
+      "Conseil : Des choix différents mènent à des aventures différentes.",
+    ],
+  },
+};
+
+export const LANGUAGE_SETTINGS: Record<Language, LanguageSettings> = {
+  en: {
+    label: "English",
+    promptName: "English",
+    gameOverPhrases: [],
+    text: ENGLISH_TEXT,
+  },
+  es: {
+    label: "Español",
+    promptName: "Spanish",
+    gameOverPhrases: ["fin del juego", "juego terminado", "fin de la partida"],
+    text: SPANISH_TEXT,
+  },
+  fr: {
+    label: "Français",
+    promptName: "French",
+    gameOverPhrases: ["partie terminée", "fin de la partie", "fin du jeu"],
+    text: FRENCH_TEXT,
+  },
+};
+
+// Read a stored or requested language (e.g. "fr" or "fr-CA"), treating unknown values as the default
+export function parseLanguage(value: string | null | undefined): Language {
+  const code = value?.trim().toLowerCase().split("-")[0];
+  return LANGUAGES.find((language) => language === code) ?? DEFAULT_LANGUAGE;
+}
+
+export const getLanguageSettings = (value: string | null | undefined): LanguageSettings =>
+  LANGUAGE_SETTINGS[parseLanguage(value)];
+
+// Whether a choice's text marks a game over. Models often fall back to English, so "game over" is
+// recognized in every language.
+export function isGameOverText(text: string, language: string | null | undefined): boolean {
+  const lower = text.toLowerCase();
+  return ["game over", ...getLanguageSettings(language).gameOverPhrases].some((phrase) => lower.includes(phrase));
+}
@@ -0,0 +1,297 @@
+import { z } from "zod";
+
+// Platforming layout of a scene, shared by the game router (validating what the narrator returns,
+// describing it to the background prompt), the platformer engine (collisions) and the game page
+// (rendering). Positions are percentages of the play area: x from the left, y down from the top,
+// with the ground at GROUND_LEVEL.
+
+export const GROUND_LEVEL = 100; // % from the top of the container
+// The sprite can't walk past this point
+export const MAX_X = 90;
+
+// What a jump can clear with the engine's physics (a full jump rises 7.5 and covers 22, see
+// ~/utils/engine), with some room for imperfect timing
+const MAX_STEP_UP = 6;
+const MAX_GAP_WIDTH = 14;
+
+// The sprite starts at x = 10, so the start of the level is always solid ground
+const START_ZONE_END = 18;
+const MIN_EXIT_X = 60;
+// How close (in both directions) the sprite must get to the exit to reach it
+const EXIT_RADIUS = 4;
+
+const MAX_PLATFORMS = 4;
+const MAX_GAPS = 3;
+const MAX_HAZARDS = 3;
+const MIN_PLATFORM_WIDTH = 8;
+const MAX_PLATFORM_WIDTH = 30;
+const MIN_GAP_WIDTH = 4;
+const MIN_HAZARD_WIDTH = 3;
+const MAX_HAZARD_WIDTH = 10;
+const MAX_ENEMIES = 2;
+// How far an enemy walks back and forth from where it starts
+const MAX_ENEMY_RANGE = 20;
+// Solid ground kept between two gaps or hazards so there is somewhere to land
+const MIN_LANDING = 8;
+
+// Enemies walk on the ground at this speed (% per second) and hit anything this close to them
+const ENEMY_SPEED = 12;
+const ENEMY_RADIUS = 3;
+// A jump this high clears an enemy
+const ENEMY_HEIGHT = 4;
+// How far below the ground the sprite falls into a pit before it counts as a death
+const PIT_DEPTH = 15;
+
+export const HAZARD_TYPES = ["spikes", "fire", "water"] as const;
+
+export type HazardType = (typeof HAZARD_TYPES)[number];
+
+// What killed the sprite in the platformer
+export const DEATH_TYPES = ["pit", ...HAZARD_TYPES, "enemy"] as const;
+
+export type DeathType = (typeof DEATH_TYPES)[number];
+
+const coordinate = z.number().finite();
+// What the narrator calls a pit, hazard or enemy in the story, e.g. "the lava moat"
+const name = z.string().trim().min(1).max(60).optional().catch(undefined);
+
+// Loose shape accepted from the narrator; normalizeLevelLayout makes it playable
+export const levelLayoutSchema = z.object({
+  platforms: z.array(z.object({ x: coordinate, y: coordinate, width: coordinate })).max(12).default([]),
+  gaps: z.array(z.object({ x: coordinate, width: coordinate, name })).max(12).default([]),
+  hazards: z.array(z.object({
+    x: coordinate,
+    width: coordinate,
+    type: z.enum(HAZARD_TYPES).catch("spikes"),
+    name,
+  })).max(12).default([]),
+  // Enemies patrol the ground from x to x + range and back
+  enemies: z.array(z.object({ x: coordinate, range: coordinate, name })).max(12).default([]),
+  exit: z.object({ x: coordinate, y: coordinate.default(GROUND_LEVEL) }),
+});
+
+export type LevelLayout = z.infer<typeof levelLayoutSchema>;
+export type Platform = LevelLayout["platforms"][number];
+export type Enemy = LevelLayout["enemies"][number];
+
+// Reported to the server when the sprite dies, so the narrator and the game report know how
+export const deathCauseSchema = z.object({
+  type: z.enum(DEATH_TYPES),
+  name: z.string().trim().min(1).max(60).optional(),
+});
+
+export type DeathCause = z.infer<typeof deathCauseSchema>;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// The layout of scenes from before levels existed: flat ground, exit on the right
+export function createFlatLevel(): LevelLayout {
+  return { platforms: [], gaps: [], hazards: [], enemies: [], exit: { x: 80, y: GROUND_LEVEL } };
+}
+
+// Helper function to check whether a span of ground overlaps any of the given spans (plus a margin)
+const overlaps = (x: number, width: number, spans: Array<{ x: number; width: number }>, margin = 0) =>
+  spans.some((span) => x < span.x + span.width + margin && span.x < x + width + margin);
+
+// Platforms the sprite can get onto, jumping from the ground or from another reachable platform
+function reachablePlatforms(platforms: Platform[]): Platform[] {
+  const reachable = platforms.filter((platform) => platform.y >= GROUND_LEVEL - MAX_STEP_UP);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const platform of platforms) {
+      if (reachable.includes(platform)) continue;
+      const from = reachable.find((other) =>
+        platform.y >= other.y - MAX_STEP_UP &&
+        platform.x <= other.x + other.width + MAX_GAP_WIDTH &&
+        other.x <= platform.x + platform.width + MAX_GAP_WIDTH
+      );
+      if (from) {
+        reachable.push(platform);
+        added = true;
+      }
+    }
+  }
+  return platforms.filter((platform) => reachable.includes(platform));
+}
+
+/**
+ * Turn a layout from the narrator into one that can be played: sizes and positions are kept within
+ * bounds, gaps are narrow enough to jump, the start and the exit stand on solid ground, enemies
+ * only patrol solid ground, and platforms (and an exit on a platform) that can't be reached are dropped.
+ */
+export function normalizeLevelLayout(layout: LevelLayout): LevelLayout {
+  const platforms = reachablePlatforms(
+    layout.platforms
+      .slice(0, MAX_PLATFORMS)
+      .map((platform) => {
+        const width = clamp(platform.width, MIN_PLATFORM_WIDTH, MAX_PLATFORM_WIDTH);
+        return {
+          x: round(clamp(platform.x, 0, 100 - width)),
+          y: round(clamp(platform.y, GROUND_LEVEL - 3 * MAX_STEP_UP, GROUND_LEVEL - 4)),
+          width: round(width),
+        };
+      })
+  );
+
+  // The exit stands on the platform under it, or on the ground
+  const exitX = round(clamp(layout.exit.x, MIN_EXIT_X, MAX_X));
+  const exitPlatform = layout.exit.y < GROUND_LEVEL - 2
+    ? platforms.find((platform) => exitX >= platform.x && exitX <= platform.x + platform.width)
+    : undefined;
+  const exit = { x: exitX, y: exitPlatform?.y ?? GROUND_LEVEL };
+  const exitZone = { x: exitX - EXIT_RADIUS, width: 2 * EXIT_RADIUS };
+
+  const gaps: LevelLayout["gaps"] = [];
+  for (const gap of [...layout.gaps].sort((a, b) => a.x - b.x)) {
+    const width = round(clamp(gap.width, MIN_GAP_WIDTH, MAX_GAP_WIDTH));
+    const x = round(clamp(gap.x, START_ZONE_END, MAX_X - width));
+    if (gaps.length >= MAX_GAPS || overlaps(x, width, gaps, MIN_LANDING)) continue;
+    if (exit.y === GROUND_LEVEL && overlaps(x, width, [exitZone])) continue;
+    gaps.push({ x, width, name: gap.name });
+  }
+
+  const hazards: LevelLayout["hazards"] = [];
+  for (const hazard of [...layout.hazards].sort((a, b) => a.x - b.x)) {
+    const width = round(clamp(hazard.width, MIN_HAZARD_WIDTH, MAX_HAZARD_WIDTH));
+    const x = round(clamp(hazard.x, START_ZONE_END, MAX_X - width));
+    if (hazards.length >= MAX_HAZARDS || overlaps(x, width, [...gaps, ...hazards], MIN_LANDING)) continue;
+    if (exit.y === GROUND_LEVEL && overlaps(x, width, [exitZone])) continue;
+    hazards.push({ x, width, type: hazard.type, name: hazard.name });
+  }
+
+  // Enemies never reach the start zone, the exit, a pit or a hazard
+  const enemies: Enemy[] = [];
+  for (const enemy of [...layout.enemies].sort((a, b) => a.x - b.x)) {
+    const range = round(clamp(enemy.range, 0, MAX_ENEMY_RANGE));
+    const x = round(clamp(enemy.x, START_ZONE_END + ENEMY_RADIUS, MAX_X - range));
+    const patrol = { x: x - ENEMY_RADIUS, width: range + 2 * ENEMY_RADIUS };
+    if (enemies.length >= MAX_ENEMIES || overlaps(patrol.x, patrol.width, [...gaps, ...hazards])) continue;
+    if (overlaps(patrol.x, patrol.width, enemies.map((other) => ({ x: other.x, width: other.range })), MIN_LANDING)) continue;
+    if (exit.y === GROUND_LEVEL && overlaps(patrol.x, patrol.width, [exitZone])) continue;
+    enemies.push({ x, range, name: enemy.name });
+  }
+
+  return { platforms, gaps, hazards, enemies, exit };
+}
+
+// Read a stored layout; scenes from before levels existed (or malformed values) have none
+export function parseLevelLayout(value: string | null | undefined): LevelLayout | null {
+  if (!value?.trim()) return null;
+  try {
+    const result = levelLayoutSchema.safeParse(JSON.parse(value));
+    if (result.success) return normalizeLevelLayout(result.data);
+  } catch (error) {
+    console.error("Error parsing level layout JSON:", error);
+  }
+  return null;
+}
+
+/**
+ * A random layout for scenes the narrator didn't lay out (and for the offline provider). Pass a
+ * seeded random function to get the same layout for the same scene.
+ */
+export function createLevelLayout(random: () => number): LevelLayout {
+  const between = (min: number, max: number) => min + random() * (max - min);
+  const platforms = Array.from({ length: Math.floor(between(0, 3)) }, (_, index) => ({
+    x: between(25 + index * 25, 35 + index * 25),
+    y: GROUND_LEVEL - between(4, MAX_STEP_UP) * (index + 1),
+    width: between(12, 20),
+  }));
+  const gaps = Array.from({ length: Math.floor(between(0, 3)) }, (_, index) => ({
+    x: between(22 + index * 25, 30 + index * 25),
+    width: between(MIN_GAP_WIDTH, 10),
+  }));
+  const hazards = Array.from({ length: Math.floor(between(0, 2)) }, () => ({
+    x: between(START_ZONE_END, 70),
+    width: between(MIN_HAZARD_WIDTH, 6),
+    type: HAZARD_TYPES[Math.floor(random() * HAZARD_TYPES.length)]!,
+  }));
+  const last = platforms[platforms.length - 1];
+  const exit = last && random() < 0.3
+    ? { x: last.x + last.width / 2, y: last.y }
+    : { x: between(75, 85), y: GROUND_LEVEL };
+  const enemies = Array.from({ length: Math.floor(between(0, 2)) }, () => ({
+    x: between(30, 60),
+    range: between(5, 15),
+  }));
+  return normalizeLevelLayout({ platforms, gaps, hazards, enemies, exit });
+}
+
+// Short description of a layout for the background image prompt, so the art matches the level
+export function describeLevelLayout(layout: LevelLayout): string {
+  const where = (x: number) => (x < 35 ? "on the left" : x < 65 ? "in the middle" : "on the right");
+  const parts = [
+    ...layout.platforms.map((platform) => `a raised ledge ${where(platform.x + platform.width / 2)}`),
+    ...layout.gaps.map((gap) => `${gap.name ?? "a pit"} in the path ${where(gap.x + gap.width / 2)}`),
+    ...layout.hazards.map((hazard) => `${hazard.name ?? hazard.type} on the path ${where(hazard.x + hazard.width / 2)}`),
+    ...layout.enemies.map((enemy) => `${enemy.name ?? "a creature"} guarding the path ${where(enemy.x + enemy.range / 2)}`),
+    `an exit ${layout.exit.y < GROUND_LEVEL ? "on a ledge " : ""}${where(layout.exit.x)}`,
+  ];
+  return parts.join(", ");
+}
+
+// Top of the highest surface (ground or platform) under x that the sprite passes through while
+// moving from fromY down to toY, or null when there is none (e.g. over a gap). Platforms can be
+// jumped through from below.
+export function findLanding(layout: LevelLayout, x: number, fromY: number, toY: number): number | null {
+  const surfaces = layout.platforms
+    .filter((platform) => x >= platform.x && x <= platform.x + platform.width)
+    .map((platform) => platform.y);
+  if (!layout.gaps.some((gap) => x > gap.x && x < gap.x + gap.width)) {
+    surfaces.push(GROUND_LEVEL);
+  }
+  const crossed = surfaces.filter((y) => y >= fromY && y <= toY);
+  return crossed.length > 0 ? Math.min(...crossed) : null;
+}
+
+// Hazard the sprite is standing in, if any (hazards lie on the ground)
+export function findHazard(layout: LevelLayout, x: number, y: number): LevelLayout["hazards"][number] | null {
+  if (y < GROUND_LEVEL - 1) return null;
+  return layout.hazards.find((hazard) => x >= hazard.x && x <= hazard.x + hazard.width) ?? null;
+}
+
+// Where an enemy is along its patrol, some seconds after the scene started
+export function enemyPosition(enemy: Enemy, seconds: number): number {
+  if (enemy.range <= 0) return enemy.x;
+  const distance = (seconds * ENEMY_SPEED) % (2 * enemy.range);
+  return enemy.x + (distance <= enemy.range ? distance : 2 * enemy.range - distance);
+}
+
+/**
+ * What kills the sprite at this position, if anything: falling into a pit, standing in a hazard
+ * or touching an enemy (which can be jumped over). seconds is the time since the scene started.
+ */
+export function findDeathCause(layout: LevelLayout, x: number, y: number, seconds: number): DeathCause | null {
+  if (y > GROUND_LEVEL + PIT_DEPTH) {
+    const gap = layout.gaps.find((gap) => x >= gap.x && x <= gap.x + gap.width);
+    return { type: "pit", name: gap?.name };
+  }
+
+  const hazard = findHazard(layout, x, y);
+  if (hazard) return { type: hazard.type, name: hazard.name };
+
+  const enemy = layout.enemies.find((enemy) =>
+    Math.abs(x - enemyPosition(enemy, seconds)) <= ENEMY_RADIUS && y > GROUND_LEVEL - ENEMY_HEIGHT
+  );
+  if (enemy) return { type: "enemy", name: enemy.name };
+
+  return null;
+}
+
+// Short English account of a death for the narrator and the recap prompt
+export function describeDeathCause(cause: DeathCause): string {
+  switch (cause.type) {
+    case "pit":
+      return `fell into ${cause.name ?? "a pit"}`;
+    case "enemy":
+      return `got caught by ${cause.name ?? "an enemy"}`;
+    default:
+      return `ran into ${cause.name ?? cause.type}`;
+  }
+}
+
+export function isAtExit(layout: LevelLayout, x: number, y: number): boolean {
+  return Math.abs(x - layout.exit.x) <= EXIT_RADIUS && Math.abs(y - layout.exit.y) <= EXIT_RADIUS;
+}
@@ -0,0 +1,197 @@
+import { z } from "zod";
+import { FIXED_TIMESTEP, step, type EngineEvent, type EngineInput, type EngineState, type EngineWorld } from "./engine";
+
+// Replays: a compact timeline of a run, recorded by the game page and played back by /replay/[id].
+// The engine advances in fixed steps and is deterministic (see ./engine), so the buttons held at
+// each step of an attempt at a scene are all it takes to play that attempt back exactly.
+
+/**
+ * One entry of a run's timeline. t is milliseconds since the run started; steps count the engine's
+ * fixed steps since the sprite was last put at the start of the level.
+ */
+export type ReplayEvent =
+  | [t: number, type: "s", sceneId: number] // The attempt in progress is at this scene
+  | [t: number, type: "i", step: number, held: number] // Buttons held from this step on, see encodeHeld
+  | [t: number, type: "c", step: number, choiceId: number] // A choice was picked
+  | [t: number, type: "e", step: number]; // The attempt ended: a life was lost, a new scene began or the run ended
+
+const timeSchema = z.number().int().min(0);
+const stepSchema = z.number().int().min(0);
+
+export const replayEventSchema = z.union([
+  z.tuple([timeSchema, z.literal("s"), z.number().int()]),
+  z.tuple([timeSchema, z.literal("i"), stepSchema, z.number().int().min(0).max(7)]),
+  z.tuple([timeSchema, z.literal("c"), stepSchema, z.number().int()]),
+  z.tuple([timeSchema, z.literal("e"), stepSchema]),
+]);
+
+// Longest timeline kept for a run; anything recorded past it is dropped
+export const MAX_REPLAY_EVENTS = 50000;
+// Most events the game page uploads at once
+export const MAX_REPLAY_UPLOAD = 2000;
+
+// Parse a JSON timeline column, skipping malformed events
+export function parseReplayTimeline(value: string | null | undefined): ReplayEvent[] {
+  if (!value?.trim()) return [];
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap((item) => {
+      const result = replayEventSchema.safeParse(item);
+      return result.success ? [result.data as ReplayEvent] : [];
+    });
+  } catch (error) {
+    console.error("Error parsing replay timeline JSON:", error);
+    return [];
+  }
+}
+
+// Held buttons as bits: 1 left, 2 right, 4 jump
+export const encodeHeld = (input: EngineInput): number =>
+  (input.left ? 1 : 0) | (input.right ? 2 : 0) | (input.jump ? 4 : 0);
+
+export const decodeHeld = (held: number): EngineInput => ({
+  left: (held & 1) !== 0,
+  right: (held & 2) !== 0,
+  jump: (held & 4) !== 0,
+});
+
+// Fixed steps an engine state has simulated since the level started
+export const stepsSimulated = (state: EngineState): number => Math.round(state.time / FIXED_TIMESTEP);
+
+export interface ReplayRecorder {
+  // Epoch milliseconds the recording started at; event times count from here
+  startedAt: number;
+  scene: (sceneId: number) => void;
+  // Called every frame before the engine advances, with the step it is at and the buttons held
+  frame: (step: number, input: EngineInput) => void;
+  choice: (step: number, choiceId: number) => void;
+  end: (step: number) => void;
+  // Events recorded since the last call, to be uploaded
+  takeEvents: () => ReplayEvent[];
+}
+
+// Start recording a run. Only changes are recorded: a frame adds an event when the buttons held change.
+export function createReplayRecorder(): ReplayRecorder {
+  const startedAt = Date.now();
+  let events: ReplayEvent[] = [];
+  let lastHeld = 0;
+  const now = () => Date.now() - startedAt;
+
+  return {
+    startedAt,
+    scene: (sceneId) => {
+      events.push([now(), "s", sceneId]);
+    },
+    frame: (step, input) => {
+      const held = encodeHeld(input);
+      if (held === lastHeld) return;
+      events.push([now(), "i", step, held]);
+      lastHeld = held;
+    },
+    choice: (step, choiceId) => {
+      events.push([now(), "c", step, choiceId]);
+    },
+    end: (step) => {
+      events.push([now(), "e", step]);
+      // The next attempt starts with nothing held
+      lastHeld = 0;
+    },
+    takeEvents: () => {
+      const taken = events;
+      events = [];
+      return taken;
+    },
+  };
+}
+
+// One attempt at a scene: from the sprite starting the level to it going back to the start (or the recording stopping)
+export interface ReplayAttempt {
+  sceneId: number | null;
+  // When the attempt started, in milliseconds since the run started
+  startedAt: number;
+  inputs: Array<{ step: number; held: number }>;
+  choices: Array<{ step: number; choiceId: number }>;
+  // Steps the attempt lasted
+  length: number;
+}
+
+// Attempts that stop without an end event (the recording was cut short) are played a second past their last input
+const UNFINISHED_ATTEMPT_STEPS = Math.round(1 / FIXED_TIMESTEP);
+
+/**
+ * Split a timeline into attempts. An attempt without a scene event of its own (e.g. a retry after a
+ * lost life) is at the same scene as the one before it. Empty attempts are left out.
+ */
+export function splitReplayAttempts(events: ReplayEvent[]): ReplayAttempt[] {
+  const attempts: ReplayAttempt[] = [];
+  let sceneId: number | null = null;
+  let current: ReplayAttempt | null = null;
+
+  // Helper function to close the current attempt at a step, keeping it if anything happened in it
+  const close = (length: number) => {
+    if (current && (length > 0 || current.inputs.length > 0 || current.choices.length > 0)) {
+      attempts.push({ ...current, length });
+    }
+    current = null;
+  };
+
+  for (const event of events) {
+    current ??= { sceneId, startedAt: event[0], inputs: [], choices: [], length: 0 };
+    switch (event[1]) {
+      case "s":
+        sceneId = event[2];
+        current.sceneId = sceneId;
+        break;
+      case "i":
+        current.inputs.push({ step: event[2], held: event[3] });
+        break;
+      case "c":
+        current.choices.push({ step: event[2], choiceId: event[3] });
+        break;
+      case "e":
+        close(event[2]);
+        break;
+    }
+  }
+
+  if (current) {
+    const { inputs, choices }: ReplayAttempt = current;
+    const lastStep = Math.max(0, ...inputs.map((input) => input.step), ...choices.map((choice) => choice.step));
+    close(lastStep + UNFINISHED_ATTEMPT_STEPS);
+  }
+  return attempts;
+}
+
+// Buttons held at a step of an attempt
+export function heldAtStep(attempt: ReplayAttempt, atStep: number): EngineInput {
+  let held = 0;
+  for (const input of attempt.inputs) {
+    if (input.step > atStep) break;
+    held = input.held;
+  }
+  return decodeHeld(held);
+}
+
+/**
+ * Play an attempt forward by count steps from fromStep (stopping at its end), the same way the game
+ * page's engine loop played it. Returns the new state, the step reached and the engine's events.
+ */
+export function replaySteps(
+  attempt: ReplayAttempt,
+  state: EngineState,
+  fromStep: number,
+  count: number,
+  world: EngineWorld
+): { state: EngineState; step: number; events: EngineEvent[] } {
+  let current = state;
+  let atStep = fromStep;
+  const events: EngineEvent[] = [];
+  while (atStep < attempt.length && atStep < fromStep + count) {
+    const result = step(current, heldAtStep(attempt, atStep), FIXED_TIMESTEP, world);
+    current = result.state;
+    events.push(...result.events);
+    atStep++;
+  }
+  return { state: current, step: atStep, events };
+}
@@ -0,0 +1,103 @@
+import { z } from "zod";
+import { DEFAULT_DIFFICULTY, DIFFICULTIES } from "./difficulty";
+import { DEFAULT_KEY_BINDINGS, INPUT_ACTIONS, MAX_KEYS_PER_ACTION, type KeyBindings } from "./input";
+
+// Player settings, shared by the user router (which stores them for signed-in players), the user
+// page (which edits them) and the game page (which plays with them). Guests keep theirs in localStorage.
+
+export const TEXT_SPEEDS = ["slow", "normal", "fast", "instant"] as const;
+
+export type TextSpeed = (typeof TEXT_SPEEDS)[number];
+
+// Characters of story text revealed per second; instant shows the whole scene at once
+export const TEXT_SPEED_CHARACTERS: Record<TextSpeed, number> = {
+  slow: 30,
+  normal: 60,
+  fast: 120,
+  instant: Infinity,
+};
+
+export const TEXT_SPEED_LABELS: Record<TextSpeed, string> = {
+  slow: "Slow",
+  normal: "Normal",
+  fast: "Fast",
+  instant: "Instant",
+};
+
+// Keys bound to every action. Keys are KeyboardEvent.key values, lowercased.
+export const keyBindingsSchema = z.object(
+  Object.fromEntries(
+    INPUT_ACTIONS.map((action) => [action, z.array(z.string().min(1).max(20)).max(MAX_KEYS_PER_ACTION)])
+  ) as Record<keyof KeyBindings, z.ZodArray<z.ZodString>>
+);
+
+export const gameSettingsSchema = z.object({
+  keyBindings: keyBindingsSchema,
+  textSpeed: z.enum(TEXT_SPEEDS),
+  reducedMotion: z.boolean(), // Turns off the floating, pulsing and fading animations
+  volume: z.number().int().min(0).max(100), // Percent
+  defaultDifficulty: z.enum(DIFFICULTIES), // Difficulty picked for new adventures
+});
+
+export type GameSettings = z.infer<typeof gameSettingsSchema>;
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  keyBindings: DEFAULT_KEY_BINDINGS,
+  textSpeed: "normal",
+  reducedMotion: false,
+  volume: 80,
+  defaultDifficulty: DEFAULT_DIFFICULTY,
+};
+
+/**
+ * Read stored settings, keeping every field (and every action's keys) that is valid and using the
+ * defaults for the rest, so settings saved by an older version of the game still load.
+ */
+export function parseGameSettings(value: unknown): GameSettings {
+  if (typeof value !== "object" || value === null) return DEFAULT_SETTINGS;
+  const stored = value as Record<string, unknown>;
+
+  // Helper function to read one field, falling back to its default
+  const field = <K extends keyof GameSettings>(key: K): GameSettings[K] => {
+    const result = gameSettingsSchema.shape[key].safeParse(stored[key]);
+    return result.success ? (result.data as GameSettings[K]) : DEFAULT_SETTINGS[key];
+  };
+
+  const storedBindings = typeof stored.keyBindings === "object" && stored.keyBindings !== null
+    ? (stored.keyBindings as Record<string, unknown>)
+    : {};
+  const keyBindings = { ...DEFAULT_KEY_BINDINGS };
+  for (const action of INPUT_ACTIONS) {
+    const result = keyBindingsSchema.shape[action].safeParse(storedBindings[action]);
+    if (result.success) keyBindings[action] = result.data.map((key) => key.toLowerCase());
+  }
+
+  return {
+    keyBindings,
+    textSpeed: field("textSpeed"),
+    reducedMotion: field("reducedMotion"),
+    volume: field("volume"),
+    defaultDifficulty: field("defaultDifficulty"),
+  };
+}
+
+const STORAGE_KEY = "game-settings";
+
+// Settings of a guest, saved in this browser
+export function loadLocalSettings(): GameSettings {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? parseGameSettings(JSON.parse(stored)) : DEFAULT_SETTINGS;
+  } catch (error) {
+    console.error("Error loading settings from localStorage:", error);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveLocalSettings(settings: GameSettings) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Error saving settings to localStorage:", error);
+  }
+}
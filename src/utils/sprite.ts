@@ -0,0 +1,80 @@
+import { z } from "zod";
+
+// Sprite sheet frame metadata, shared by the game router (sprite generation, saves) and the game
+// page (animated sprite)
+
+export const SPRITE_ANIMATIONS = ["idle", "walk", "jump"] as const;
+
+export type SpriteAnimation = (typeof SPRITE_ANIMATIONS)[number];
+
+// Grid the sprite prompt asks for: one row per animation (in SPRITE_ANIMATIONS order), each with
+// SPRITE_SHEET_COLUMNS frames
+export const SPRITE_SHEET_COLUMNS = 4;
+export const SPRITE_SHEET_ROWS = SPRITE_ANIMATIONS.length;
+
+// Frames per second for each animation
+const ANIMATION_FPS: Record<SpriteAnimation, number> = {
+  idle: 4,
+  walk: 10,
+  jump: 8,
+};
+
+// Horizontal speed below which the sprite counts as standing still
+const WALK_THRESHOLD = 0.1;
+
+const animationSchema = z.object({
+  row: z.number().int().min(0).max(15),
+  frames: z.number().int().min(1).max(16),
+  fps: z.number().min(1).max(30),
+});
+
+export const spriteSheetSchema = z.object({
+  // Size of one frame in pixels
+  frameWidth: z.number().int().min(1).max(4096),
+  frameHeight: z.number().int().min(1).max(4096),
+  columns: z.number().int().min(1).max(16),
+  rows: z.number().int().min(1).max(16),
+  animations: z.object({
+    idle: animationSchema,
+    walk: animationSchema,
+    jump: animationSchema,
+  }),
+});
+
+export type SpriteSheet = z.infer<typeof spriteSheetSchema>;
+
+// Frame metadata for a sheet image of the given size laid out as the sprite prompt asks
+export function createSpriteSheet(width: number, height: number): SpriteSheet {
+  const animations = Object.fromEntries(
+    SPRITE_ANIMATIONS.map((animation, row) => [
+      animation,
+      { row, frames: SPRITE_SHEET_COLUMNS, fps: ANIMATION_FPS[animation] },
+    ])
+  ) as SpriteSheet["animations"];
+
+  return {
+    frameWidth: Math.floor(width / SPRITE_SHEET_COLUMNS),
+    frameHeight: Math.floor(height / SPRITE_SHEET_ROWS),
+    columns: SPRITE_SHEET_COLUMNS,
+    rows: SPRITE_SHEET_ROWS,
+    animations,
+  };
+}
+
+// Read stored frame metadata; sprites from before sheets existed (or malformed values) have none
+export function parseSpriteSheet(value: string | null | undefined): SpriteSheet | null {
+  if (!value?.trim()) return null;
+  try {
+    const result = spriteSheetSchema.safeParse(JSON.parse(value));
+    if (result.success) return result.data;
+  } catch (error) {
+    console.error("Error parsing sprite sheet JSON:", error);
+  }
+  return null;
+}
+
+// Animation to play for the platformer sprite's current motion
+export function pickSpriteAnimation(motion: { velocityX: number; isGrounded: boolean }): SpriteAnimation {
+  if (!motion.isGrounded) return "jump";
+  return Math.abs(motion.velocityX) > WALK_THRESHOLD ? "walk" : "idle";
+}